@@ -0,0 +1,245 @@
+/**
+ * Socket.IO Authentication
+ *
+ * Verifies the Clerk session token (RS256 JWT) sent in the Socket.IO handshake
+ * and pins the verified user ID to `socket.data.userId`. Handlers must read the
+ * identity from there and never trust a `userId` coming from an event payload.
+ * The same verification backs `requireAuth` for REST endpoints.
+ */
+
+import fs from "fs";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { Socket } from "socket.io";
+import type { Request, Response, NextFunction } from "express";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VerifiedIdentity {
+  userId: string;
+  sessionId?: string;
+  expiresAt?: number;
+}
+
+export type AuthErrorCode =
+  | "TOKEN_MISSING"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_NOT_ACTIVE"
+  | "TOKEN_INVALID"
+  | "UNKNOWN_KEY"
+  | "UNAUTHORIZED_PARTY"
+  | "AUTH_NOT_CONFIGURED";
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// KEY LOADING
+// ============================================================================
+
+/**
+ * Verification keys, indexed by `kid`. The "default" entry is used for tokens
+ * without a `kid` header and when a single PEM key is configured. Once a
+ * JWKS key with a `kid` is loaded, a token's `kid` must match one exactly.
+ *
+ * Sources (all optional, merged in this order):
+ * - CLERK_JWT_KEY       PEM public key inline (Clerk dashboard "JWT public key")
+ * - CLERK_JWT_KEY_FILE  path to a PEM public key file
+ * - CLERK_JWKS_FILE     path to a JWKS JSON file ({ keys: [...] })
+ */
+const verificationKeys = new Map<string, crypto.KeyObject>();
+let keysHaveKids = false;
+
+function loadVerificationKeys() {
+  const inlineKey = process.env.CLERK_JWT_KEY;
+  if (inlineKey) {
+    // .env files usually store the PEM on one line with literal "\n"
+    verificationKeys.set(
+      "default",
+      crypto.createPublicKey(inlineKey.replace(/\\n/g, "\n"))
+    );
+  }
+
+  const keyFile = process.env.CLERK_JWT_KEY_FILE;
+  if (keyFile) {
+    verificationKeys.set(
+      "default",
+      crypto.createPublicKey(fs.readFileSync(keyFile, "utf8"))
+    );
+  }
+
+  const jwksFile = process.env.CLERK_JWKS_FILE;
+  if (jwksFile) {
+    const jwks = JSON.parse(fs.readFileSync(jwksFile, "utf8"));
+    for (const jwk of jwks.keys || []) {
+      if (jwk.kty !== "RSA") continue;
+      const key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+      verificationKeys.set(jwk.kid || "default", key);
+      if (jwk.kid) keysHaveKids = true;
+      if (!verificationKeys.has("default")) {
+        verificationKeys.set("default", key);
+      }
+    }
+  }
+
+  if (verificationKeys.size === 0) {
+    console.error(
+      "❌ No JWT verification key configured (CLERK_JWT_KEY, CLERK_JWT_KEY_FILE or CLERK_JWKS_FILE) - all socket connections will be rejected"
+    );
+  } else {
+    console.log(`🔑 Loaded ${verificationKeys.size} JWT verification key(s)`);
+  }
+}
+
+loadVerificationKeys();
+
+const authorizedParties = (process.env.CLERK_AUTHORIZED_PARTIES || "")
+  .split(",")
+  .map((p) => p.trim())
+  .filter(Boolean);
+
+// Allowed clock drift between Clerk and this server
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+// ============================================================================
+// TOKEN VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a Clerk session token and return the identity it carries
+ */
+export function verifySessionToken(token: string): VerifiedIdentity {
+  if (verificationKeys.size === 0) {
+    throw new AuthError("AUTH_NOT_CONFIGURED", "Authentication is not configured");
+  }
+
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new AuthError("TOKEN_INVALID", "Malformed token");
+  }
+
+  // An unknown kid is rejected rather than tried against another key
+  const kid = decoded.header.kid;
+  const key = kid && keysHaveKids ? verificationKeys.get(kid) : verificationKeys.get("default");
+  if (!key) {
+    throw new AuthError("UNKNOWN_KEY", `No verification key for kid ${kid}`);
+  }
+
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, key, {
+      algorithms: ["RS256"],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as jwt.JwtPayload;
+  } catch (err: any) {
+    if (err instanceof jwt.TokenExpiredError) {
+      throw new AuthError("TOKEN_EXPIRED", "Token has expired");
+    }
+    if (err instanceof jwt.NotBeforeError) {
+      throw new AuthError("TOKEN_NOT_ACTIVE", "Token is not active yet");
+    }
+    throw new AuthError("TOKEN_INVALID", err.message);
+  }
+
+  if (!payload.sub) {
+    throw new AuthError("TOKEN_INVALID", "Token has no subject");
+  }
+
+  // Clerk sets "azp" to the origin that requested the token
+  if (
+    authorizedParties.length > 0 &&
+    payload.azp &&
+    !authorizedParties.includes(payload.azp)
+  ) {
+    throw new AuthError("UNAUTHORIZED_PARTY", `Unauthorized party ${payload.azp}`);
+  }
+
+  return {
+    userId: payload.sub,
+    sessionId: payload.sid,
+    expiresAt: payload.exp,
+  };
+}
+
+/**
+ * Extract the bearer token from the handshake.
+ * Clients pass it as `io(url, { auth: { token } })`; an Authorization header
+ * is accepted for non-browser clients.
+ */
+function getHandshakeToken(socket: Socket): string | undefined {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === "string" && authToken) return authToken;
+
+  const header = socket.handshake.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7);
+
+  return undefined;
+}
+
+// ============================================================================
+// SOCKET.IO MIDDLEWARE
+// ============================================================================
+
+/**
+ * Handshake middleware: rejects the connection unless a valid token is sent.
+ * The client receives a `connect_error` whose `data.code` is the AuthErrorCode.
+ */
+export function socketAuthMiddleware(
+  socket: Socket,
+  next: (err?: Error) => void
+) {
+  const token = getHandshakeToken(socket);
+
+  if (!token) {
+    const err: any = new Error("Authentication required");
+    err.data = { code: "TOKEN_MISSING" };
+    return next(err);
+  }
+
+  try {
+    const identity = verifySessionToken(token);
+    socket.data.userId = identity.userId;
+    socket.data.sessionId = identity.sessionId;
+    next();
+  } catch (e: any) {
+    const code: AuthErrorCode = e instanceof AuthError ? e.code : "TOKEN_INVALID";
+    console.warn(`🚫 Socket ${socket.id} rejected: ${code} - ${e.message}`);
+    const err: any = new Error("Authentication failed");
+    err.data = { code };
+    next(err);
+  }
+}
+
+// ============================================================================
+// EXPRESS MIDDLEWARE
+// ============================================================================
+
+/**
+ * Rejects requests without a valid `Authorization: Bearer <token>` header.
+ * The verified user ID is available as `res.locals.userId`.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+
+  if (!header?.startsWith("Bearer ")) {
+    return res.status(401).json({ error: "Authentication required", code: "TOKEN_MISSING" });
+  }
+
+  try {
+    const identity = verifySessionToken(header.slice(7));
+    res.locals.userId = identity.userId;
+    next();
+  } catch (e: any) {
+    const code: AuthErrorCode = e instanceof AuthError ? e.code : "TOKEN_INVALID";
+    return res.status(401).json({ error: "Authentication failed", code });
+  }
+}
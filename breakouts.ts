@@ -0,0 +1,448 @@
+/**
+ * Breakout Rooms
+ *
+ * Hosts split a meeting into breakout rooms for a while. Each breakout is a
+ * Room row of its own (parentRoomId = the meeting), so it gets its own
+ * mediasoup router and chat history, and it starts with a copy of the
+ * meeting's permission policy. Roles carry over: users join a breakout with
+ * the role they hold in the meeting.
+ *
+ * A session moves through:
+ *
+ *   PENDING  create-breakouts; hosts assign people
+ *   OPEN     open-breakouts; assignees are sent to their breakout
+ *   CLOSING  close-breakouts, or the duration ran out; countdown running
+ *   CLOSED   everyone is sent back to the meeting
+ *
+ * Transitions are conditional updates, so a timer firing on two nodes (or a
+ * host closing at the same moment) only runs the handlers once.
+ */
+
+import { randomUUID } from "crypto";
+import { Prisma } from "./generated/prisma";
+import { prisma } from "./prisma";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const SESSION_INCLUDE = {
+  breakouts: { orderBy: { position: "asc" } },
+  assignments: true,
+} as const;
+
+export type BreakoutSession = Prisma.BreakoutSessionGetPayload<{
+  include: typeof SESSION_INCLUDE;
+}>;
+
+export interface BreakoutAssignmentChange {
+  userId: string;
+  breakoutRoomId: string | null; // null = back to unassigned
+}
+
+// Why a session closed: its time ran out or a host closed it, or the whole
+// meeting ended (nobody goes back to the main room)
+export type BreakoutCloseReason = "closed" | "meeting-ended";
+
+export interface BreakoutHandlers {
+  onClosing: (session: BreakoutSession) => void | Promise<void>;
+  onClosed: (session: BreakoutSession, reason: BreakoutCloseReason) => void | Promise<void>;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const MAX_BREAKOUT_ROOMS = Number(process.env.BREAKOUT_MAX_ROOMS) || 50;
+const DEFAULT_CLOSE_COUNTDOWN_SECONDS =
+  Number(process.env.BREAKOUT_CLOSE_COUNTDOWN_SECONDS) || 60;
+const MAX_DURATION_SECONDS = 24 * 60 * 60;
+const MAX_COUNTDOWN_SECONDS = 10 * 60;
+
+const ACTIVE_STATUSES = ["PENDING", "OPEN", "CLOSING"];
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const timers = new Map<string, NodeJS.Timeout>(); // sessionId -> next transition
+
+let handlers: BreakoutHandlers = {
+  onClosing: () => {},
+  onClosed: () => {},
+};
+
+/**
+ * Set what happens when breakouts start closing and when they're over
+ * (index.ts owns the sockets)
+ */
+export const setBreakoutHandlers = (fn: BreakoutHandlers) => {
+  handlers = fn;
+};
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+const loadSession = (sessionId: string) =>
+  prisma.breakoutSession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: SESSION_INCLUDE,
+  });
+
+/**
+ * The meeting's breakout session that isn't over yet, if any
+ */
+export const getActiveBreakoutSession = (roomId: string) =>
+  prisma.breakoutSession.findFirst({
+    where: { roomId, status: { in: ACTIVE_STATUSES } },
+    include: SESSION_INCLUDE,
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * The meeting a room belongs to: its parent for a breakout, else itself
+ */
+export const getParentRoomId = async (roomId: string): Promise<string> => {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { parentRoomId: true },
+  });
+  return room?.parentRoomId ?? roomId;
+};
+
+/**
+ * The meeting plus its running breakouts - a socket is in at most one of them
+ */
+export const getBreakoutFamily = async (roomId: string): Promise<string[]> => {
+  const parentRoomId = await getParentRoomId(roomId);
+  const session = await getActiveBreakoutSession(parentRoomId);
+  return [parentRoomId, ...(session?.breakouts.map((b) => b.id) || [])];
+};
+
+/**
+ * Client-facing shape: breakouts with the users assigned to each
+ */
+export const serializeBreakoutSession = (session: BreakoutSession) => ({
+  id: session.id,
+  roomId: session.roomId,
+  status: session.status,
+  durationSeconds: session.durationSeconds,
+  openedAt: session.openedAt,
+  endsAt: session.endsAt,
+  closedAt: session.closedAt,
+  breakouts: session.breakouts.map((breakout) => ({
+    id: breakout.id,
+    name: breakout.name,
+    position: breakout.position,
+    userIds: session.assignments
+      .filter((a) => a.breakoutRoomId === breakout.id)
+      .map((a) => a.userId),
+  })),
+});
+
+// ============================================================================
+// ROLES & ACCESS
+// ============================================================================
+
+/**
+ * A user's role in the parent meeting, which they keep in its breakouts
+ */
+export const getInheritedRole = async (
+  parentRoomId: string,
+  userId: string
+): Promise<string> => {
+  const parent = await prisma.room.findUnique({
+    where: { id: parentRoomId },
+    select: { creatorId: true },
+  });
+  if (parent?.creatorId === userId) return "HOST";
+
+  const participant = await prisma.roomParticipant.findUnique({
+    where: { roomId_userId: { roomId: parentRoomId, userId } },
+    select: { role: true },
+  });
+  return participant?.role ?? "PARTICIPANT";
+};
+
+/**
+ * Breakouts are only open while their session runs, and only to the people
+ * assigned there. Hosts and co-hosts may visit any of them.
+ */
+export const checkBreakoutAccess = async (
+  breakoutRoomId: string,
+  userId: string
+): Promise<{ ok: true } | { ok: false; error: string }> => {
+  const breakout = await prisma.breakoutRoom.findUnique({
+    where: { id: breakoutRoomId },
+    include: { session: true },
+  });
+
+  if (!breakout) return { ok: false, error: "Breakout room not found" };
+
+  const { session } = breakout;
+  if (session.status !== "OPEN" && session.status !== "CLOSING") {
+    return { ok: false, error: "This breakout room isn't open" };
+  }
+
+  const role = await getInheritedRole(session.roomId, userId);
+  if (role === "HOST" || role === "COHOST") return { ok: true };
+
+  const assignment = await prisma.breakoutAssignment.findUnique({
+    where: { sessionId_userId: { sessionId: session.id, userId } },
+  });
+
+  if (assignment?.breakoutRoomId !== breakoutRoomId) {
+    return { ok: false, error: "You aren't assigned to this breakout room" };
+  }
+
+  return { ok: true };
+};
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Create `count` breakout rooms for a meeting. Names default to "Room 1", ...
+ */
+export async function createBreakoutSession(
+  parentRoomId: string,
+  createdBy: string,
+  options: { count: unknown; names?: unknown; durationSeconds?: unknown }
+): Promise<BreakoutSession> {
+  const count = Number(options.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BREAKOUT_ROOMS) {
+    throw new Error(`count must be between 1 and ${MAX_BREAKOUT_ROOMS}`);
+  }
+
+  const names = options.names ?? [];
+  if (!Array.isArray(names) || names.some((n) => typeof n !== "string")) {
+    throw new Error("names must be a list of strings");
+  }
+
+  const durationSeconds =
+    options.durationSeconds == null ? null : Number(options.durationSeconds);
+  if (
+    durationSeconds !== null &&
+    (!Number.isInteger(durationSeconds) || durationSeconds < 60 || durationSeconds > MAX_DURATION_SECONDS)
+  ) {
+    throw new Error(`durationSeconds must be between 60 and ${MAX_DURATION_SECONDS}`);
+  }
+
+  const parent = await prisma.room.findUnique({ where: { id: parentRoomId } });
+  if (!parent) throw new Error("Meeting not found");
+  if (parent.parentRoomId) throw new Error("Breakout rooms can't be split further");
+
+  if (await getActiveBreakoutSession(parentRoomId)) {
+    throw new Error("This meeting already has breakout rooms");
+  }
+
+  const sessionId = randomUUID();
+  const breakouts = Array.from({ length: count }, (_, position) => ({
+    id: randomUUID(),
+    name: (names[position] as string | undefined)?.trim().slice(0, 100) || `Room ${position + 1}`,
+    position,
+  }));
+
+  await prisma.$transaction([
+    prisma.breakoutSession.create({
+      data: { id: sessionId, roomId: parentRoomId, createdBy, durationSeconds },
+    }),
+    // The breakout's own Room: same creator and policy as the meeting
+    prisma.room.createMany({
+      data: breakouts.map((breakout) => ({
+        id: breakout.id,
+        creatorId: parent.creatorId,
+        title: breakout.name,
+        parentRoomId,
+        policyTemplateId: parent.policyTemplateId,
+        permissionPolicy: (parent.permissionPolicy as Prisma.InputJsonValue | null) ?? undefined,
+      })),
+    }),
+    prisma.breakoutRoom.createMany({
+      data: breakouts.map((breakout) => ({ ...breakout, sessionId })),
+    }),
+  ]);
+
+  return await loadSession(sessionId);
+}
+
+/**
+ * Move users between breakouts (or back to unassigned) while the session
+ * hasn't started closing
+ */
+export async function assignBreakouts(
+  sessionId: string,
+  changes: BreakoutAssignmentChange[],
+  assignedBy: string
+): Promise<BreakoutSession> {
+  const session = await loadSession(sessionId);
+  if (session.status !== "PENDING" && session.status !== "OPEN") {
+    throw new Error("Breakout rooms are closing");
+  }
+
+  const breakoutIds = new Set(session.breakouts.map((b) => b.id));
+  for (const change of changes) {
+    if (typeof change?.userId !== "string" || !change.userId) {
+      throw new Error("Every assignment needs a userId");
+    }
+    if (change.breakoutRoomId !== null && !breakoutIds.has(change.breakoutRoomId)) {
+      throw new Error(`Unknown breakout room ${change.breakoutRoomId}`);
+    }
+  }
+
+  await prisma.$transaction(
+    changes.map(({ userId, breakoutRoomId }) =>
+      breakoutRoomId === null
+        ? prisma.breakoutAssignment.deleteMany({ where: { sessionId, userId } })
+        : prisma.breakoutAssignment.upsert({
+            where: { sessionId_userId: { sessionId, userId } },
+            create: { sessionId, userId, breakoutRoomId, assignedBy },
+            update: { breakoutRoomId, assignedBy, assignedAt: new Date() },
+          })
+    )
+  );
+
+  return await loadSession(sessionId);
+}
+
+/**
+ * Shuffle `userIds` evenly across the session's breakouts
+ */
+export async function assignBreakoutsRandomly(
+  sessionId: string,
+  userIds: string[],
+  assignedBy: string
+): Promise<BreakoutSession> {
+  const session = await loadSession(sessionId);
+
+  const shuffled = [...userIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return await assignBreakouts(
+    sessionId,
+    shuffled.map((userId, i) => ({
+      userId,
+      breakoutRoomId: session.breakouts[i % session.breakouts.length].id,
+    })),
+    assignedBy
+  );
+}
+
+/**
+ * PENDING -> OPEN. With a duration, closing starts by itself when it runs out.
+ */
+export async function openBreakoutSession(sessionId: string): Promise<BreakoutSession> {
+  const session = await loadSession(sessionId);
+  const openedAt = new Date();
+
+  const { count } = await prisma.breakoutSession.updateMany({
+    where: { id: sessionId, status: "PENDING" },
+    data: {
+      status: "OPEN",
+      openedAt,
+      endsAt: session.durationSeconds
+        ? new Date(openedAt.getTime() + session.durationSeconds * 1000)
+        : null,
+    },
+  });
+  if (count === 0) throw new Error("Breakout rooms are already open");
+
+  const opened = await loadSession(sessionId);
+  scheduleTransition(opened);
+  return opened;
+}
+
+/**
+ * OPEN -> CLOSING: everyone gets `countdownSeconds` to wrap up. A session
+ * that never opened is closed straight away. Returns null if another caller
+ * got there first.
+ */
+export async function closeBreakoutSession(
+  sessionId: string,
+  countdownSeconds: unknown = DEFAULT_CLOSE_COUNTDOWN_SECONDS
+): Promise<BreakoutSession | null> {
+  const countdown = Number(countdownSeconds);
+  if (!Number.isInteger(countdown) || countdown < 0 || countdown > MAX_COUNTDOWN_SECONDS) {
+    throw new Error(`countdownSeconds must be between 0 and ${MAX_COUNTDOWN_SECONDS}`);
+  }
+
+  const session = await loadSession(sessionId);
+  if (session.status === "PENDING" || countdown === 0) {
+    return await finishBreakoutSession(sessionId);
+  }
+
+  const { count } = await prisma.breakoutSession.updateMany({
+    where: { id: sessionId, status: "OPEN" },
+    data: { status: "CLOSING", endsAt: new Date(Date.now() + countdown * 1000) },
+  });
+  if (count === 0) return null;
+
+  const closing = await loadSession(sessionId);
+  scheduleTransition(closing);
+  await handlers.onClosing(closing);
+  return closing;
+}
+
+/**
+ * -> CLOSED: the breakouts are over and everyone goes back to the meeting,
+ * unless `reason` is "meeting-ended". Returns null if the session was
+ * already closed.
+ */
+export async function finishBreakoutSession(
+  sessionId: string,
+  reason: BreakoutCloseReason = "closed"
+): Promise<BreakoutSession | null> {
+  clearTimeout(timers.get(sessionId));
+  timers.delete(sessionId);
+
+  const { count } = await prisma.breakoutSession.updateMany({
+    where: { id: sessionId, status: { in: ACTIVE_STATUSES } },
+    data: { status: "CLOSED", closedAt: new Date() },
+  });
+  if (count === 0) return null;
+
+  const closed = await loadSession(sessionId);
+  await handlers.onClosed(closed, reason);
+  return closed;
+}
+
+// ============================================================================
+// TIMERS
+// ============================================================================
+
+const scheduleTransition = (session: BreakoutSession) => {
+  clearTimeout(timers.get(session.id));
+  timers.delete(session.id);
+  if (!session.endsAt) return;
+
+  const next = session.status === "OPEN" ? closeBreakoutSession : finishBreakoutSession;
+  const timer = setTimeout(() => {
+    timers.delete(session.id);
+    next(session.id).catch((err) =>
+      console.error(`Error advancing breakout session ${session.id}:`, err)
+    );
+  }, Math.max(0, session.endsAt.getTime() - Date.now()));
+
+  timers.set(session.id, timer);
+};
+
+/**
+ * Re-arm timers for sessions that were running when the server restarted
+ */
+export async function resumeBreakoutTimers(): Promise<void> {
+  const running = await prisma.breakoutSession.findMany({
+    where: { status: { in: ["OPEN", "CLOSING"] }, endsAt: { not: null } },
+    include: SESSION_INCLUDE,
+  });
+
+  running.forEach(scheduleTransition);
+
+  if (running.length > 0) {
+    console.log(`⏱️ Resumed ${running.length} breakout session timer(s)`);
+  }
+}
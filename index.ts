@@ -1,25 +1,137 @@
 import "dotenv/config";
 import express from "express";
 import { createServer } from "http";
-import { Server } from "socket.io";
+import { Server, Socket } from "socket.io";
 import cors from "cors";
+import fs from "fs";
+import path from "path";
 import { prisma, startHeartbeat } from "./prisma";
-import { createMediaRouter, mediaRouter } from "./mediasoup/router";
+import { Prisma } from "./generated/prisma";
+import { createWorkerPool, onWorkerDied, getWorkerStats } from "./mediasoup/worker";
+import { setSpeakerBroadcaster, onDominantSpeakerChange } from "./mediasoup/speakers";
+import { applyLastN, isForwardingAllowed, noteActiveSpeaker } from "./mediasoup/lastN";
+import {
+  setParticipantEmitter,
+  syncParticipants,
+  getParticipantSnapshot,
+  forgetParticipants,
+  getHandQueue,
+  isHandRaised,
+  raiseHand,
+  lowerHands,
+} from "./participants";
+import { manageConsumerQuality, setRequestedLayers } from "./mediasoup/quality";
+import {
+  issueResumeToken,
+  getResumableSession,
+  rebindSession,
+  revokeSession,
+  recordRoomEvent,
+  getRoomEventsSince,
+} from "./mediasoup/sessions";
 import {
   getOrCreateRoom,
+  getRoom,
+  getLobby,
+  clearLobby,
+  removeFromLobbies,
   createWebRtcTransport,
   removePeerFromRoom,
+  rebindPeer,
+  observeAudio,
+  pauseUserAudioProducers,
+  placePeer,
+  ensureProducerOnRouter,
+  recoverRoomsFromWorker,
 } from "./mediasoup/rooms";
+import {
+  RECORDINGS_DIR,
+  startRecording,
+  stopRecording,
+  getRecordingSession,
+  addProducerToRecording,
+} from "./mediasoup/recorder";
 import mpesaRoutes from "./mpesa/mpesa.routes";
+import {
+  setPollEmitter,
+  listPolls,
+  hasVoted,
+  serializePoll,
+  createPoll,
+  launchPoll,
+  closePoll,
+  castVote,
+  getPollResults,
+  exportPolls,
+} from "./polls";
+import {
+  ModerationAction,
+  loadQuestions,
+  questionsFor,
+  askQuestion,
+  setUpvote,
+  moderateQuestion,
+  setQaModeration,
+} from "./qa";
+import {
+  BreakoutSession,
+  setBreakoutHandlers,
+  getActiveBreakoutSession,
+  getParentRoomId,
+  getBreakoutFamily,
+  serializeBreakoutSession,
+  getInheritedRole,
+  checkBreakoutAccess,
+  createBreakoutSession,
+  assignBreakouts,
+  assignBreakoutsRandomly,
+  openBreakoutSession,
+  closeBreakoutSession,
+  finishBreakoutSession,
+  BreakoutCloseReason,
+  resumeBreakoutTimers,
+} from "./breakouts";
+import {
+  validateSchedule,
+  scheduleOf,
+  nextOccurrence,
+  checkJoinWindow,
+  reopensAt,
+} from "./schedule";
 import {
   checkPermission,
   checkRateLimit,
   auditLog,
   getGlobalActionTargets,
+  GLOBAL_CONTROL_ROLES,
   isExemptFromGlobalControls,
   canUnmute,
   canStartScreenShare,
+  checkBan,
+  queryAuditLogs,
+  validatePolicy,
+  getRoomPolicy,
+  invalidateRoomPolicy,
+  getPolicyTemplate,
+  listPolicyTemplates,
+  ensureDefaultPolicyTemplate,
+  DEFAULT_POLICY_TEMPLATE,
+  getParticipantRole,
+  canProduceWithRole,
+  ASSIGNABLE_ROLES,
+  Role,
+  ControlAction,
 } from "./permissions";
+import { socketAuthMiddleware, requireAuth } from "./auth";
+import { issueTurnCredentials } from "./turn";
+import {
+  NODE_ID,
+  RoomOwner,
+  attachSocketAdapter,
+  claimRoom,
+  getRoomOwner,
+  getStateBackend,
+} from "./sharedState";
 
 const app = express();
 app.use(cors());
@@ -44,23 +156,148 @@ app.get("/", (req, res) => {
 // M-Pesa API routes
 app.use("/api/mpesa", mpesaRoutes);
 
+/**
+ * Effective role of a user in a meeting. The creator is always HOST, even
+ * after their RoomParticipant row has been cleaned up post-meeting.
+ */
+const getMeetingRole = async (
+  meeting: { id: string; creatorId: string },
+  userId: string
+): Promise<string | null> => {
+  if (meeting.creatorId === userId) return "HOST";
+
+  const participant = await prisma.roomParticipant.findUnique({
+    where: { roomId_userId: { roomId: meeting.id, userId } },
+  });
+
+  return participant?.role ?? null;
+};
+
+/**
+ * Public shape of a meeting row, with its lifecycle status and next
+ * scheduled occurrence
+ */
+const serializeMeeting = (meeting: any) => {
+  const schedule = scheduleOf(meeting);
+  let next = null;
+  try {
+    next = meeting.cancelledAt ? null : nextOccurrence(schedule);
+  } catch (err) {
+    console.error(`Invalid schedule on meeting ${meeting.id}:`, err);
+  }
+
+  return {
+    id: meeting.id,
+    creatorId: meeting.creatorId,
+    createdAt: meeting.createdAt,
+    ...schedule,
+    cancelledAt: meeting.cancelledAt,
+    status: meeting.status,
+    startedAt: meeting.startedAt,
+    endedAt: meeting.endedAt,
+    nextOccurrence: next,
+  };
+};
+
+/**
+ * Cancelled and ended meetings can't be joined (an ended recurring meeting
+ * opens again for its next occurrence); scheduled ones only once their join
+ * window opens (hosts may come in early). Breakout rooms follow their
+ * session and assignments instead, plus the meeting's bans.
+ */
+const checkMeetingJoinable = async (
+  roomId: string,
+  userId: string
+): Promise<
+  | { ok: true }
+  | { ok: false; error: string; opensAt?: Date; cancelled?: boolean; ended?: boolean }
+> => {
+  const meeting = await prisma.room.findUnique({ where: { id: roomId } });
+  if (!meeting) return { ok: true }; // Ad-hoc room, created on join
+
+  if (meeting.parentRoomId) {
+    const ban = await checkBan(userId, meeting.parentRoomId);
+    if (ban.banned) {
+      return { ok: false, error: ban.reason || "You have been banned from this meeting" };
+    }
+    return await checkBreakoutAccess(roomId, userId);
+  }
+
+  if (meeting.cancelledAt) {
+    return { ok: false, error: "This meeting has been cancelled", cancelled: true };
+  }
+
+  if (meeting.status === "ENDED") {
+    const opensAt = meeting.endedAt ? reopensAt(scheduleOf(meeting), meeting.endedAt) : null;
+    if (!opensAt || opensAt > new Date()) {
+      return { ok: false, error: "This meeting has ended", ended: true, opensAt: opensAt ?? undefined };
+    }
+  }
+
+  const window = checkJoinWindow(scheduleOf(meeting));
+  if (!window.open && (await getMeetingRole(meeting, userId)) !== "HOST") {
+    return {
+      ok: false,
+      error: "This meeting hasn't opened yet",
+      opensAt: window.opensAt,
+    };
+  }
+
+  return { ok: true };
+};
+
 /* =========================
    MEETING CREATION API
    ✅ CRITICAL FIX: Create meeting in database BEFORE any join
 ========================= */
 
-// Create a new meeting
-app.post("/api/meetings", async (req, res) => {
+// Create a new meeting - the verified caller becomes its creator and first HOST
+app.post("/api/meetings", requireAuth, async (req, res) => {
   try {
-    const { id, userId, description, startsAt } = req.body;
+    const userId = res.locals.userId as string;
+    const { id, policyTemplate, policy } = req.body;
 
     // Validate required fields
-    if (!id || !userId) {
+    if (!id) {
+      return res.status(400).json({
+        error: "Missing required field: id",
+      });
+    }
+
+    // 📅 Optional schedule: title, description, startsAt, durationMinutes,
+    // timezone, recurrence (RRULE), joinWindowMinutes
+    const scheduleValidation = validateSchedule(req.body);
+    if (!scheduleValidation.valid) {
       return res.status(400).json({
-        error: "Missing required fields: id and userId are required",
+        error: "Invalid schedule",
+        details: scheduleValidation.errors,
       });
     }
 
+    // 🛡️ Permission policy: a named template, a full custom policy, or the default
+    let permissionPolicy = null;
+    let policyTemplateId = null;
+
+    if (policy !== undefined) {
+      const validation = validatePolicy(policy);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "Invalid permission policy",
+          details: validation.errors,
+        });
+      }
+      permissionPolicy = validation.policy;
+    } else if (policyTemplate) {
+      const template = await getPolicyTemplate(String(policyTemplate));
+      if (!template) {
+        return res.status(400).json({
+          error: `Unknown policy template: ${policyTemplate}`,
+        });
+      }
+      permissionPolicy = template.policy;
+      policyTemplateId = template.id;
+    }
+
     // Check if meeting already exists
     const existingMeeting = await prisma.room.findUnique({
       where: { id },
@@ -78,17 +315,32 @@ app.post("/api/meetings", async (req, res) => {
       data: {
         id,
         creatorId: userId,
+        ...scheduleValidation.changes,
+        policyTemplateId,
+        permissionPolicy: (permissionPolicy as Prisma.InputJsonValue | null) ?? undefined,
       },
     });
+    invalidateRoomPolicy(id);
+
+    // A non-default policy is attributed to the verified creator, like PUT .../policy
+    if (permissionPolicy) {
+      await auditLog({
+        action: "UPDATE_POLICY",
+        actor: userId,
+        roomId: id,
+        result: "ALLOWED",
+        reason: policyTemplateId ? `TEMPLATE:${policyTemplate}` : "CUSTOM",
+        timestamp: new Date(),
+      });
+    }
 
     console.log(`📝 Meeting created: ${id} by ${userId}`);
 
     res.status(201).json({
       success: true,
       meeting: {
-        id: meeting.id,
-        creatorId: meeting.creatorId,
-        createdAt: meeting.createdAt,
+        ...serializeMeeting(meeting),
+        policyTemplateId: meeting.policyTemplateId,
       },
     });
   } catch (error: any) {
@@ -131,9 +383,8 @@ app.get("/api/meetings/:id", async (req, res) => {
     res.json({
       success: true,
       meeting: {
-        id: meeting.id,
-        creatorId: meeting.creatorId,
-        createdAt: meeting.createdAt,
+        ...serializeMeeting(meeting),
+        isLocked: meeting.isLocked,
         participants: meeting.participants,
       },
     });
@@ -146,3255 +397,6777 @@ app.get("/api/meetings/:id", async (req, res) => {
   }
 });
 
-// Debug endpoint to inspect room state
-app.get("/debug/room/:roomId", async (req, res) => {
+// List a creator's meetings (their own only), soonest first
+// Filters: ?creatorId=<userId>&from=&to= (ISO dates, on the next occurrence)
+// &includeCancelled=true; pages with &limit= (default 100, max 500) &offset=
+app.get("/api/meetings", requireAuth, async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const { getRoom } = require("./mediasoup/rooms");
-    const room = getRoom(roomId);
+    const userId = res.locals.userId;
+    const { creatorId, from, to, includeCancelled } = req.query;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
 
-    if (!room) {
-      return res.json({ error: "Room not found", roomId });
+    if (!creatorId) {
+      return res.status(400).json({
+        error: "creatorId is required",
+      });
     }
 
-    const peers: any[] = [];
-    room.peers.forEach((peer: any, peerId: string) => {
-      peers.push({
-        peerId,
-        name: peer.name,
-        isHost: peer.isHost,
-        transports: Array.from(peer.transports.values()).map((t: any) => ({
-          id: t.id,
-          direction: t.appData.direction,
-          iceState: t.iceState,
-          dtlsState: t.dtlsState,
-          closed: t.closed,
-        })),
-        producers: Array.from(peer.producers.values()).map((p: any) => ({
-          id: p.id,
-          kind: p.kind,
-          paused: p.paused,
-          closed: p.closed,
-        })),
-        consumers: Array.from(peer.consumers.values()).map((c: any) => ({
-          id: c.id,
-          kind: c.kind,
-          producerId: c.producerId,
-          paused: c.paused,
-          closed: c.closed,
-        })),
+    if (creatorId !== userId) {
+      return res.status(403).json({
+        error: "You can only list your own meetings",
+      });
+    }
+
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({
+        error: "from and to must be valid ISO dates",
       });
+    }
+
+    // Narrow in the query as far as the columns allow: an occurrence in
+    // [from, to] needs a series that starts by `to`, and a one-off meeting
+    // must itself start at or after `from`
+    const meetings = await prisma.room.findMany({
+      where: {
+        creatorId: userId,
+        ...(includeCancelled === "true" ? {} : { cancelledAt: null }),
+        ...(fromDate || toDate ? { startsAt: { not: null, ...(toDate ? { lte: toDate } : {}) } } : {}),
+        ...(fromDate ? { OR: [{ recurrence: { not: null } }, { startsAt: { gte: fromDate } }] } : {}),
+      },
     });
 
+    // Recurring meetings keep their first startsAt, so filter and sort on
+    // the next occurrence instead of the column
+    const listed = meetings
+      .map(serializeMeeting)
+      .filter((meeting) => {
+        const startsAt = meeting.nextOccurrence?.startsAt;
+        if (!fromDate && !toDate) return true;
+        if (!startsAt) return false;
+        return (!fromDate || startsAt >= fromDate) && (!toDate || startsAt <= toDate);
+      })
+      .sort((a, b) => {
+        const aStart = a.nextOccurrence?.startsAt.getTime() ?? Infinity;
+        const bStart = b.nextOccurrence?.startsAt.getTime() ?? Infinity;
+        return aStart - bStart;
+      });
+
     res.json({
-      roomId,
-      routerClosed: room.router.closed,
-      peerCount: room.peers.size,
-      peers,
+      success: true,
+      meetings: listed.slice(offset, offset + limit),
+      total: listed.length,
+      nextOffset: offset + limit < listed.length ? offset + limit : null,
     });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error("❌ Error listing meetings:", error);
+    res.status(500).json({
+      error: "Failed to list meetings",
+      message: error.message,
+    });
   }
 });
 
-const httpServer = createServer(app);
-const io = new Server(httpServer, { cors: { origin: "*" } });
+// Update a meeting's schedule (hosts only)
+// Body: any of title, description, startsAt, durationMinutes, timezone,
+// recurrence, joinWindowMinutes; null clears a field
+app.patch("/api/meetings/:id", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = res.locals.userId;
 
-// Recording state
-const recordings = new Map<string, { startTime: number }>();
+    const meeting = await prisma.room.findUnique({ where: { id } });
 
-(async () => {
-  try {
-    await createMediaRouter();
-    // ✅ Start database heartbeat after successful initialization
-    startHeartbeat();
-  } catch (err) {
-    console.error("🛑 Mediasoup Bootstrap Failed:", err);
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    if ((await getMeetingRole(meeting, userId)) !== "HOST") {
+      return res.status(403).json({
+        error: "Only hosts can edit the meeting schedule",
+      });
+    }
+
+    if (meeting.cancelledAt) {
+      return res.status(409).json({
+        error: "This meeting has been cancelled",
+      });
+    }
+
+    const validation = validateSchedule(req.body, scheduleOf(meeting));
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: "Invalid schedule",
+        details: validation.errors,
+      });
+    }
+
+    const updated = await prisma.room.update({
+      where: { id },
+      data: validation.changes,
+    });
+
+    await auditLog({
+      action: "UPDATE_SCHEDULE",
+      actor: userId,
+      roomId: id,
+      result: "ALLOWED",
+      reason: Object.keys(validation.changes).join(",") || undefined,
+      timestamp: new Date(),
+    });
+
+    const serialized = serializeMeeting(updated);
+    broadcastRoomEvent(id, "meeting-updated", { roomId: id, meeting: serialized });
+
+    console.log(`📅 Schedule of ${id} updated by ${userId}`);
+
+    res.json({
+      success: true,
+      meeting: serialized,
+    });
+  } catch (error: any) {
+    console.error("❌ Error updating meeting:", error);
+    res.status(500).json({
+      error: "Failed to update meeting",
+      message: error.message,
+    });
   }
-})();
+});
 
-/* =========================
-   STALE PARTICIPANT CLEANUP
-   Removes participants who haven't been seen in over 1 hour
-========================= */
-const cleanupStaleParticipants = async () => {
+// Cancel a meeting (creator only). The row is kept for its history; joins
+// are refused from now on.
+app.delete("/api/meetings/:id", requireAuth, async (req, res) => {
   try {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const { id } = req.params;
+    const userId = res.locals.userId;
 
-    const deletedCount = await prisma.roomParticipant.deleteMany({
-      where: {
-        isConnected: false,
-        lastSeenAt: {
-          lt: oneHourAgo,
-        },
-      },
-    });
+    const meeting = await prisma.room.findUnique({ where: { id } });
 
-    if (deletedCount.count > 0) {
-      console.log(`🧹 Cleaned up ${deletedCount.count} stale participants (disconnected > 1 hour)`);
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
     }
-  } catch (err) {
-    console.error("❌ Error cleaning up stale participants:", err);
-  }
-};
 
-// Run cleanup every 15 minutes
-setInterval(cleanupStaleParticipants, 15 * 60 * 1000);
+    if (meeting.creatorId !== userId) {
+      return res.status(403).json({
+        error: "Only the meeting creator can cancel it",
+      });
+    }
 
-// Run cleanup once on startup
-cleanupStaleParticipants();
+    if (meeting.cancelledAt) {
+      return res.json({
+        success: true,
+        meeting: serializeMeeting(meeting),
+      });
+    }
 
-io.on("connection", (socket) => {
-  console.log("✅ user connected:", socket.id);
+    const cancelled = await prisma.room.update({
+      where: { id },
+      data: { cancelledAt: new Date() },
+    });
 
-  // Store userId in socket data when provided
-  socket.on("set-user-id", (userId: string) => {
-    (socket as any).data = { ...((socket as any).data || {}), userId };
-    console.log(`🆔 Socket ${socket.id} mapped to user ${userId}`);
-  });
+    await auditLog({
+      action: "CANCEL_MEETING",
+      actor: userId,
+      roomId: id,
+      result: "ALLOWED",
+      timestamp: new Date(),
+    });
 
-  /* =========================
-     CHAT
-  ========================= */
+    broadcastRoomEvent(id, "meeting-cancelled", { roomId: id, cancelledBy: userId });
 
-  socket.on(
-    "join-room",
-    async ({ roomId, userId, userName, userImageUrl }: any) => {
-      console.log("📥 join-room received:", {
-        roomId,
-        userId,
-        userName,
-        userImageUrl,
+    console.log(`🗓️ Meeting ${id} cancelled by ${userId}`);
+
+    res.json({
+      success: true,
+      meeting: serializeMeeting(cancelled),
+    });
+  } catch (error: any) {
+    console.error("❌ Error cancelling meeting:", error);
+    res.status(500).json({
+      error: "Failed to cancel meeting",
+      message: error.message,
+    });
+  }
+});
+
+// Get a meeting's RBAC audit trail (hosts only)
+// Filters: actor, action, result (ALLOWED|DENIED), from/to (ISO dates)
+// Pagination: ?limit=50&cursor=<nextCursor from previous page>
+app.get("/api/meetings/:id/audit", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = res.locals.userId;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
       });
+    }
 
-      // Validate required fields
-      if (!roomId || !userId || !userName) {
-        console.error("❌ Missing required fields for join-room");
-        socket.emit("error", {
-          message:
-            "Missing required fields: roomId, userId, and userName are required",
-        });
-        return;
-      }
+    // Only the creator or a HOST of this meeting may read its audit trail
+    if ((await getMeetingRole(meeting, userId)) !== "HOST") {
+      return res.status(403).json({
+        error: "Only hosts can view the audit log",
+      });
+    }
 
-      socket.join(roomId);
+    const { actor, action, result, from, to, cursor, limit } = req.query;
 
-      try {
-        // Check if room exists, if not create it
-        let room = await prisma.room.findUnique({ where: { id: roomId } });
+    if (result && result !== "ALLOWED" && result !== "DENIED") {
+      return res.status(400).json({
+        error: "result must be ALLOWED or DENIED",
+      });
+    }
 
-        if (!room) {
-          room = await prisma.room.create({
-            data: {
-              id: roomId,
-              creatorId: userId,
-            },
-          });
-          console.log(`🏠 Created new room ${roomId} with creator ${userId}`);
-        }
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
 
-        // Check if user is already a participant
-        let participant = await prisma.roomParticipant.findUnique({
-          where: {
-            roomId_userId: {
-              roomId,
-              userId,
-            },
-          },
-        });
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({
+        error: "from and to must be valid ISO dates",
+      });
+    }
 
-        // If not, create participant entry
-        if (!participant) {
-          const role = userId === room.creatorId ? "HOST" : "PARTICIPANT";
-          participant = await prisma.roomParticipant.create({
-            data: {
-              roomId,
-              userId,
+    const pageSize = Math.min(Math.max(Number(limit) || 50, 1), 200);
+
+    const page = await queryAuditLogs({
+      roomId: id,
+      actor: actor ? String(actor) : undefined,
+      action: action ? String(action) : undefined,
+      result: result as "ALLOWED" | "DENIED" | undefined,
+      from: fromDate,
+      to: toDate,
+      cursor: cursor ? String(cursor) : undefined,
+      limit: pageSize,
+    });
+
+    res.json({
+      success: true,
+      entries: page.entries,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching audit log:", error);
+    res.status(500).json({
+      error: "Failed to fetch audit log",
+      message: error.message,
+    });
+  }
+});
+
+// Permission policy templates to choose from at POST /api/meetings
+app.get("/api/policy-templates", async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      templates: await listPolicyTemplates(),
+    });
+  } catch (error: any) {
+    console.error("❌ Error listing policy templates:", error);
+    res.status(500).json({
+      error: "Failed to list policy templates",
+      message: error.message,
+    });
+  }
+});
+
+// View a meeting's active permission policy (hosts only)
+app.get("/api/meetings/:id/policy", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    if ((await getMeetingRole(meeting, res.locals.userId)) !== "HOST") {
+      return res.status(403).json({
+        error: "Only hosts can view the permission policy",
+      });
+    }
+
+    res.json({
+      success: true,
+      policyTemplateId: meeting.policyTemplateId,
+      isDefault: meeting.permissionPolicy === null,
+      policy: await getRoomPolicy(id),
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching policy:", error);
+    res.status(500).json({
+      error: "Failed to fetch policy",
+      message: error.message,
+    });
+  }
+});
+
+// Replace a meeting's permission policy (hosts only)
+// Body: { policy: {...complete policy...} } or { template: "<name>" }
+app.put("/api/meetings/:id/policy", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = res.locals.userId;
+    const { policy, template } = req.body;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    // Gated on role, not on the policy itself, so a host can always undo a bad edit
+    if ((await getMeetingRole(meeting, userId)) !== "HOST") {
+      await auditLog({
+        action: "UPDATE_POLICY",
+        actor: userId,
+        roomId: id,
+        result: "DENIED",
+        reason: "NOT_HOST",
+        timestamp: new Date(),
+      });
+      return res.status(403).json({
+        error: "Only hosts can edit the permission policy",
+      });
+    }
+
+    let permissionPolicy;
+    let policyTemplateId = null;
+
+    if (policy !== undefined) {
+      const validation = validatePolicy(policy);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "Invalid permission policy",
+          details: validation.errors,
+        });
+      }
+      permissionPolicy = validation.policy;
+    } else if (template) {
+      const found = await getPolicyTemplate(String(template));
+      if (!found) {
+        return res.status(400).json({
+          error: `Unknown policy template: ${template}`,
+        });
+      }
+      permissionPolicy = found.policy;
+      policyTemplateId = found.id;
+    } else {
+      return res.status(400).json({
+        error: "Provide either policy or template",
+      });
+    }
+
+    await prisma.room.update({
+      where: { id },
+      data: { permissionPolicy: permissionPolicy as Prisma.InputJsonValue, policyTemplateId },
+    });
+    invalidateRoomPolicy(id);
+
+    await auditLog({
+      action: "UPDATE_POLICY",
+      actor: userId,
+      roomId: id,
+      result: "ALLOWED",
+      reason: template ? `TEMPLATE:${template}` : "CUSTOM",
+      timestamp: new Date(),
+    });
+
+    console.log(`🛡️ Permission policy of ${id} updated by ${userId}`);
+
+    res.json({
+      success: true,
+      policyTemplateId,
+      policy: permissionPolicy,
+    });
+  } catch (error: any) {
+    console.error("❌ Error updating policy:", error);
+    res.status(500).json({
+      error: "Failed to update policy",
+      message: error.message,
+    });
+  }
+});
+
+// Export a meeting's polls with results and, for named polls, every vote
+// (hosts and co-hosts only)
+app.get("/api/meetings/:id/polls", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    const role = await getMeetingRole(meeting, res.locals.userId);
+    if (role !== "HOST" && role !== "COHOST") {
+      return res.status(403).json({
+        error: "Only hosts and co-hosts can export polls",
+      });
+    }
+
+    res.json({
+      success: true,
+      polls: await exportPolls(id),
+    });
+  } catch (error: any) {
+    console.error("❌ Error exporting polls:", error);
+    res.status(500).json({
+      error: "Failed to export polls",
+      message: error.message,
+    });
+  }
+});
+
+// List a meeting's recordings (hosts and co-hosts only)
+app.get("/api/meetings/:id/recordings", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    const role = await getMeetingRole(meeting, res.locals.userId);
+    if (role !== "HOST" && role !== "COHOST") {
+      return res.status(403).json({
+        error: "Only hosts and co-hosts can access recordings",
+      });
+    }
+
+    const recordings = await prisma.recording.findMany({
+      where: { roomId: id },
+      include: { files: { orderBy: { startedAt: "asc" } } },
+      orderBy: { startedAt: "desc" },
+    });
+
+    res.json({
+      success: true,
+      recordings: recordings.map((r) => ({
+        id: r.id,
+        startedBy: r.startedBy,
+        startedAt: r.startedAt,
+        stoppedAt: r.stoppedAt,
+        status: r.status,
+        sizeBytes: Number(r.sizeBytes),
+        files: r.files.map((f) => ({
+          id: f.id,
+          userId: f.userId,
+          kind: f.kind,
+          isScreenShare: f.isScreenShare,
+          fileName: f.fileName,
+          mimeType: f.mimeType,
+          sizeBytes: Number(f.sizeBytes),
+          startedAt: f.startedAt,
+          stoppedAt: f.stoppedAt,
+          downloadUrl: `/api/meetings/${id}/recordings/${r.id}/files/${f.id}`,
+        })),
+      })),
+    });
+  } catch (error: any) {
+    console.error("❌ Error listing recordings:", error);
+    res.status(500).json({
+      error: "Failed to list recordings",
+      message: error.message,
+    });
+  }
+});
+
+// Download a single recorded track
+app.get(
+  "/api/meetings/:id/recordings/:recordingId/files/:fileId",
+  requireAuth,
+  async (req, res) => {
+    try {
+      const { id, recordingId, fileId } = req.params;
+
+      const meeting = await prisma.room.findUnique({ where: { id } });
+
+      if (!meeting) {
+        return res.status(404).json({
+          error: "Meeting not found",
+        });
+      }
+
+      const role = await getMeetingRole(meeting, res.locals.userId);
+      if (role !== "HOST" && role !== "COHOST") {
+        return res.status(403).json({
+          error: "Only hosts and co-hosts can access recordings",
+        });
+      }
+
+      const file = await prisma.recordingFile.findFirst({
+        where: { id: fileId, recordingId, recording: { roomId: id } },
+      });
+
+      if (!file) {
+        return res.status(404).json({
+          error: "Recording file not found",
+        });
+      }
+
+      const filePath = path.join(
+        RECORDINGS_DIR,
+        id.replace(/[^a-zA-Z0-9_-]/g, "_"),
+        recordingId,
+        file.fileName
+      );
+
+      if (!fs.existsSync(filePath)) {
+        return res.status(410).json({
+          error: "Recording file is no longer available on disk",
+        });
+      }
+
+      res.type(file.mimeType);
+      res.download(filePath, file.fileName);
+    } catch (error: any) {
+      console.error("❌ Error downloading recording:", error);
+      res.status(500).json({
+        error: "Failed to download recording",
+        message: error.message,
+      });
+    }
+  }
+);
+
+// Short-lived TURN credentials for clients behind restrictive NATs
+app.get("/api/meetings/:id/turn-credentials", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = res.locals.userId;
+
+    const meeting = await prisma.room.findUnique({ where: { id } });
+
+    if (!meeting) {
+      return res.status(404).json({
+        error: "Meeting not found",
+      });
+    }
+
+    const ban = await checkBan(userId, id);
+    if (ban.banned) {
+      return res.status(403).json({
+        error: "You have been banned from this meeting",
+      });
+    }
+
+    // Only people in the meeting get relay credentials for it
+    const participant = await prisma.roomParticipant.findUnique({
+      where: { roomId_userId: { roomId: id, userId } },
+      select: { id: true },
+    });
+    const isLivePeer = Array.from(getRoom(id)?.peers.values() || []).some(
+      (peer) => peer.userId === userId
+    );
+    if (!participant && meeting.creatorId !== userId && !isLivePeer) {
+      return res.status(403).json({
+        error: "Join the meeting before requesting TURN credentials",
+      });
+    }
+
+    res.json({
+      success: true,
+      ...issueTurnCredentials(userId, id),
+    });
+  } catch (error: any) {
+    console.error("❌ Error issuing TURN credentials:", error);
+    res.status(500).json({
+      error: "Failed to issue TURN credentials",
+      message: error.message,
+    });
+  }
+});
+
+// Which node hosts a meeting's media - connect the socket there
+app.get("/api/meetings/:id/node", async (req, res) => {
+  try {
+    const owner = await getRoomOwner(req.params.id);
+
+    res.json({
+      success: true,
+      roomId: req.params.id,
+      nodeId: owner?.nodeId ?? null, // null = not live yet, any node will do
+      url: owner?.url ?? null,
+    });
+  } catch (error: any) {
+    console.error("❌ Error looking up room node:", error);
+    res.status(500).json({
+      error: "Failed to look up room node",
+      message: error.message,
+    });
+  }
+});
+
+// Debug endpoint to inspect room state
+app.get("/debug/room/:roomId", async (req, res) => {
+  try {
+    const { roomId } = req.params;
+    const { getRoom } = require("./mediasoup/rooms");
+    const room = getRoom(roomId);
+
+    if (!room) {
+      return res.json({ error: "Room not found", roomId });
+    }
+
+    const peers: any[] = [];
+    room.peers.forEach((peer: any, peerId: string) => {
+      peers.push({
+        peerId,
+        name: peer.name,
+        isHost: peer.isHost,
+        transports: Array.from(peer.transports.values()).map((t: any) => ({
+          id: t.id,
+          direction: t.appData.direction,
+          iceState: t.iceState,
+          dtlsState: t.dtlsState,
+          closed: t.closed,
+        })),
+        producers: Array.from(peer.producers.values()).map((p: any) => ({
+          id: p.id,
+          kind: p.kind,
+          paused: p.paused,
+          closed: p.closed,
+        })),
+        consumers: Array.from(peer.consumers.values()).map((c: any) => ({
+          id: c.id,
+          kind: c.kind,
+          producerId: c.producerId,
+          paused: c.paused,
+          closed: c.closed,
+        })),
+      });
+    });
+
+    res.json({
+      roomId,
+      routerClosed: room.router.closed,
+      routers: Array.from(room.routers.values()).map((r: any) => ({
+        id: r.id,
+        workerPid: r.appData.workerPid,
+        closed: r.closed,
+        peerCount: Array.from(room.peers.values()).filter(
+          (p: any) => p.router.id === r.id
+        ).length,
+      })),
+      workers: getWorkerStats(),
+      locked: room.locked,
+      peerCount: room.peers.size,
+      peers,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const httpServer = createServer(app);
+// How long a dropped peer keeps its producers/consumers before being removed
+const PEER_DISCONNECT_GRACE_MS = Number(process.env.PEER_DISCONNECT_GRACE_MS) || 15000;
+// How long a transport may sit in ICE "disconnected" before we push "transport-stalled"
+const TRANSPORT_STALL_MS = Number(process.env.TRANSPORT_STALL_MS) || 5000;
+
+const io = new Server(httpServer, {
+  cors: { origin: "*" },
+  // Clients reconnecting within the grace period keep their socket id and rooms.
+  // Single-node only: the Redis adapter doesn't persist sessions, so with
+  // REDIS_URL set clients come back through resume-session instead.
+  ...(getStateBackend().kind === "memory" && {
+    connectionStateRecovery: {
+      maxDisconnectionDuration: PEER_DISCONNECT_GRACE_MS,
+      skipMiddlewares: false, // Re-verify the session token on recovery
+    },
+  }),
+});
+
+// ✅ Every connection must present a valid session token.
+// socket.data.userId is the ONLY trusted identity - never read userId from payloads.
+io.use(socketAuthMiddleware);
+
+// 🌐 Broadcasts reach peers on every node when running with Redis
+attachSocketAdapter(io);
+
+// 🗣️ active-speaker / audio-levels are high-frequency and not kept for replay
+setSpeakerBroadcaster((roomId, event, payload) => io.to(roomId).emit(event, payload));
+
+// 🎞️ A new active speaker can change who is in everyone's last-N
+onDominantSpeakerChange((roomId, userId) => {
+  noteActiveSpeaker(roomId, userId);
+  refreshLastN(roomId);
+});
+
+// 👥 Participant diffs go through the room event log so resumed sockets catch up
+setParticipantEmitter((roomId, event, payload) =>
+  broadcastRoomEvent(roomId, event, payload)
+);
+
+// 📊 Throttled live poll results
+setPollEmitter((roomId, event, payload) => io.to(roomId).emit(event, payload));
+
+// 🧩 Breakout countdowns can end on a timer, so returns are driven from here
+setBreakoutHandlers({
+  onClosing: (session) =>
+    broadcastBreakoutEvent(session, "breakouts-closing", {
+      roomId: session.roomId,
+      closesAt: session.endsAt,
+      session: serializeBreakoutSession(session),
+    }),
+  onClosed: (session, reason) => returnFromBreakouts(session, reason),
+});
+
+(async () => {
+  try {
+    await ensureDefaultPolicyTemplate();
+  } catch (err) {
+    console.error(`❌ Could not seed the "${DEFAULT_POLICY_TEMPLATE}" policy template:`, err);
+  }
+
+  try {
+    await resumeBreakoutTimers();
+  } catch (err) {
+    console.error("❌ Could not resume breakout timers:", err);
+  }
+
+  try {
+    await createWorkerPool();
+    // ✅ Start database heartbeat after successful initialization
+    startHeartbeat();
+  } catch (err) {
+    console.error("🛑 Mediasoup Bootstrap Failed:", err);
+  }
+})();
+
+/* =========================
+   WORKER DEATH RECOVERY
+   Routers on a dead worker are rebuilt on a healthy one. Peers that lived
+   there re-create their transports and re-produce; everyone else drops the
+   streams that went away.
+========================= */
+onWorkerDied(async (deadPid) => {
+  try {
+    const affected = await recoverRoomsFromWorker(deadPid);
+
+    for (const { roomId, socketIds, lostProducers } of affected) {
+      lostProducers.forEach(({ producer, peer }) => {
+        broadcastRoomEvent(roomId, "producer-closed", {
+          producerId: producer.id,
+          peerId: peer.socketId,
+          userId: peer.userId,
+          kind: producer.kind,
+          isScreenShare:
+            producer.appData?.share || producer.appData?.isScreenShare || false,
+        });
+      });
+
+      socketIds.forEach((socketId) => {
+        io.to(socketId).emit("media-reconnect-required", {
+          roomId,
+          reason: "WORKER_DIED",
+        });
+      });
+    }
+  } catch (err) {
+    console.error("❌ Error recovering rooms after worker death:", err);
+  }
+});
+
+/* =========================
+   STALE PARTICIPANT CLEANUP
+   Removes participants who haven't been seen in over 1 hour
+========================= */
+const cleanupStaleParticipants = async () => {
+  try {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    const deletedCount = await prisma.roomParticipant.deleteMany({
+      where: {
+        isConnected: false,
+        lastSeenAt: {
+          lt: oneHourAgo,
+        },
+        // Users away in breakout rooms keep their place (and role) in the meeting
+        room: {
+          breakoutSessions: { none: { status: { in: ["PENDING", "OPEN", "CLOSING"] } } },
+        },
+      },
+    });
+
+    if (deletedCount.count > 0) {
+      console.log(`🧹 Cleaned up ${deletedCount.count} stale participants (disconnected > 1 hour)`);
+    }
+  } catch (err) {
+    console.error("❌ Error cleaning up stale participants:", err);
+  }
+};
+
+// Run cleanup every 15 minutes
+setInterval(cleanupStaleParticipants, 15 * 60 * 1000);
+
+// Run cleanup once on startup
+cleanupStaleParticipants();
+
+/* =========================
+   ROOM → NODE AFFINITY
+   A room's routers live on exactly one node. Clients that land on another
+   node are told where to reconnect.
+========================= */
+
+// Claims the room for this node when free; returns the owner if it is another node
+const getRemoteRoomOwner = async (roomId: string): Promise<RoomOwner | null> => {
+  const owner = await claimRoom(roomId);
+  return owner.nodeId === NODE_ID ? null : owner;
+};
+
+/* =========================
+   PEER DEPARTURE
+   Network drops get PEER_DISCONNECT_GRACE_MS before the peer's media is torn
+   down; a recovered socket (same id) simply carries on.
+========================= */
+
+const pendingDepartures = new Map<
+  string,
+  { userId: string; roomIds: string[]; since: number; timer: NodeJS.Timeout }
+>();
+
+/**
+ * Broadcast to a room and keep the event so a resuming peer can catch up.
+ * `exceptSocketId` behaves like socket.to(room) - the sender is skipped.
+ */
+const broadcastRoomEvent = (
+  roomId: string,
+  event: string,
+  payload: any,
+  exceptSocketId?: string
+) => {
+  recordRoomEvent(roomId, event, payload, exceptSocketId);
+  if (exceptSocketId) {
+    io.to(roomId).except(exceptSocketId).emit(event, payload);
+  } else {
+    io.to(roomId).emit(event, payload);
+  }
+};
+
+/**
+ * Send an event to one user's socket (if any) and keep it for them alone,
+ * so a lock applied while they were reconnecting still reaches them.
+ * The payload names the target so a replayed event is unambiguous.
+ */
+const sendUserEvent = (
+  roomId: string,
+  userId: string,
+  socketId: string | undefined,
+  event: string,
+  payload: any
+) => {
+  const snapshot = { ...payload, roomId, userId };
+  recordRoomEvent(roomId, event, snapshot, undefined, userId);
+  if (socketId) io.to(socketId).emit(event, snapshot);
+};
+
+// Remove a peer from a room for good and tell everyone else
+const finalizePeerDeparture = async (roomId: string, socketId: string, userId?: string) => {
+  try {
+    console.log(`👋 User ${socketId} (${userId}) left room ${roomId}`);
+
+    // Remove peer from mediasoup
+    removePeerFromRoom(roomId, socketId);
+    revokeSession(roomId, socketId);
+
+    // ✅ MARK AS DISCONNECTED (don't delete to preserve media state for rejoin)
+    if (userId) {
+      try {
+        await prisma.roomParticipant.update({
+          where: {
+            roomId_userId: {
+              roomId,
+              userId,
+            },
+          },
+          data: {
+            isConnected: false,
+            lastSeenAt: new Date(),
+          },
+        });
+        console.log(`🔌 Marked ${userId} as disconnected for room ${roomId} (media state preserved)`);
+      } catch (dbErr) {
+        console.error("Error updating participant disconnect status:", dbErr);
+      }
+    }
+
+    // Room might be gone if this was the last peer
+    const room = getRoom(roomId);
+    if (!room) {
+      forgetParticipants(roomId);
+      return;
+    }
+
+    // A freed last-N slot can un-pause someone else's camera
+    refreshLastN(roomId);
+
+    // participant-left for everyone still here
+    await syncParticipants(roomId);
+  } catch (err) {
+    console.error("Error during disconnect:", err);
+  }
+
+  // Nobody can be called on once they've left. Runs after the sync so a
+  // shared state outage can't hold back participant-left.
+  const room = getRoom(roomId);
+  const userStillHere = Array.from(room?.peers.values() || []).some((p) => p.userId === userId);
+  if (!room || !userId || userStillHere) return;
+  try {
+    if ((await lowerHands(roomId, [userId])).length > 0) await emitHandQueue(roomId);
+  } catch (err) {
+    console.error(`Error lowering the hand of departed ${userId} in ${roomId}:`, err);
+  }
+};
+
+// The ordered raise-hand queue, for everyone in the room
+const emitHandQueue = async (roomId: string) => {
+  broadcastRoomEvent(roomId, "hand-queue-updated", {
+    roomId,
+    queue: await getHandQueue(roomId),
+  });
+};
+
+/**
+ * Push the sorted Q&A list to every peer in the room. Each peer gets its own
+ * view: whoever holds MODERATE_QA (same check as get-questions) sees pending
+ * and dismissed questions too.
+ */
+const emitQuestions = async (roomId: string) => {
+  const room = getRoom(roomId);
+  if (!room) return;
+
+  const { moderated, questions } = await loadQuestions(roomId);
+
+  await Promise.all(
+    Array.from(room.peers.values()).map(async (peer) => {
+      if (!peer.userId) return;
+      const isModerator = (await checkPermission(peer.userId, roomId, "MODERATE_QA")).allowed;
+      io.to(peer.socketId).emit("qa-updated", {
+        roomId,
+        moderated,
+        questions: questionsFor(questions, peer.userId, isModerator),
+      });
+    })
+  );
+};
+
+/**
+ * Re-apply last-N video forwarding for every peer in the room (or just
+ * `socketId`) and tell peers whose forwarded set changed
+ */
+const refreshLastN = async (roomId: string, socketId?: string) => {
+  const room = getRoom(roomId);
+  if (!room) return;
+
+  const peers = socketId
+    ? [room.peers.get(socketId)].filter((p): p is NonNullable<typeof p> => Boolean(p))
+    : Array.from(room.peers.values());
+
+  for (const peer of peers) {
+    try {
+      const state = await applyLastN(roomId, room, peer);
+      if (state.changed) {
+        io.to(peer.socketId).emit("last-n-update", {
+          roomId,
+          forwarding: state.forwarding,
+          paused: state.paused,
+        });
+      }
+    } catch (err) {
+      console.error(`Error applying last-N for ${peer.socketId}:`, err);
+    }
+  }
+};
+
+/**
+ * Host mute: stop the targets' audio RTP at the server so a client that
+ * ignores force-mute is still silent
+ */
+const enforceAudioMute = async (roomId: string, userIds: string[]) => {
+  const paused = await pauseUserAudioProducers(roomId, userIds);
+
+  for (const { producer, peer } of paused) {
+    broadcastRoomEvent(roomId, "producer-paused", {
+      producerId: producer.id,
+      peerId: peer.socketId,
+      userId: peer.userId,
+      kind: producer.kind,
+      byHost: true,
+    });
+  }
+
+  if (paused.length > 0) {
+    console.log(`🔇 Paused ${paused.length} audio producer(s) in room ${roomId}`);
+  }
+};
+
+/* =========================
+   BREAKOUT ROOM HELPERS
+========================= */
+
+// Session changes go to the meeting and every breakout, so hosts see them wherever they are
+const broadcastBreakoutEvent = (session: BreakoutSession, event: string, payload: any) => {
+  for (const roomId of [session.roomId, ...session.breakouts.map((b) => b.id)]) {
+    broadcastRoomEvent(roomId, event, payload);
+  }
+};
+
+/**
+ * Tell users where they belong now - their breakout, or the meeting if they
+ * were unassigned. Users already in the right room are skipped.
+ */
+const sendBreakoutAssignments = async (session: BreakoutSession) => {
+  const sockets = await io
+    .in([session.roomId, ...session.breakouts.map((b) => b.id)])
+    .fetchSockets();
+
+  for (const target of sockets) {
+    const userId = target.data?.userId;
+    if (!userId) continue;
+
+    const assignment = session.assignments.find((a) => a.userId === userId);
+    const breakout = session.breakouts.find((b) => b.id === assignment?.breakoutRoomId);
+    if (target.rooms.has(breakout?.id ?? session.roomId)) continue;
+
+    target.emit("breakout-assigned", {
+      roomId: session.roomId,
+      sessionId: session.id,
+      breakoutRoomId: breakout?.id ?? null,
+      name: breakout?.name ?? null,
+      endsAt: session.endsAt,
+    });
+  }
+};
+
+/**
+ * The session is over: send everyone back to the meeting and tear down what
+ * is left of the breakout rooms. When the meeting itself ended there is
+ * nothing to go back to, so breakouts-closed isn't sent.
+ */
+const returnFromBreakouts = async (session: BreakoutSession, reason: BreakoutCloseReason) => {
+  if (reason !== "meeting-ended") {
+    broadcastBreakoutEvent(session, "breakouts-closed", {
+      roomId: session.roomId,
+      sessionId: session.id,
+    });
+  }
+
+  for (const breakout of session.breakouts) {
+    const sockets = await io.in(breakout.id).fetchSockets();
+    for (const target of sockets) {
+      target.leave(breakout.id);
+      if (getRoom(breakout.id)?.peers.has(target.id)) {
+        await finalizePeerDeparture(breakout.id, target.id, target.data?.userId);
+      }
+    }
+  }
+
+  console.log(
+    reason === "meeting-ended"
+      ? `🧩 Breakout session ${session.id} closed with meeting ${session.roomId}`
+      : `🧩 Breakout session ${session.id} closed - everyone back in ${session.roomId}`
+  );
+};
+
+/**
+ * The user came back on a new socket before the grace period ended -
+ * drop the stale peer now so they don't appear twice
+ */
+const flushPendingDepartures = async (roomId: string, userId: string) => {
+  for (const [socketId, pending] of pendingDepartures) {
+    if (pending.userId !== userId || !pending.roomIds.includes(roomId)) continue;
+
+    pending.roomIds = pending.roomIds.filter((id) => id !== roomId);
+    if (pending.roomIds.length === 0) {
+      clearTimeout(pending.timer);
+      pendingDepartures.delete(socketId);
+    }
+    await finalizePeerDeparture(roomId, socketId, userId);
+  }
+};
+
+/* =========================
+   MEETING LIFECYCLE
+   SCHEDULED -> LIVE on the first media join -> ENDED by end-meeting.
+   An ended recurring meeting goes LIVE again at its next occurrence.
+========================= */
+
+const markMeetingLive = async (roomId: string) => {
+  const { count } = await prisma.room.updateMany({
+    where: { id: roomId, status: { not: "LIVE" } },
+    data: { status: "LIVE", startedAt: new Date(), endedAt: null, endedBy: null },
+  });
+  if (count > 0) console.log(`🟢 Meeting ${roomId} is live`);
+};
+
+/**
+ * Send everyone out of an ended meeting: breakouts and recording stop,
+ * lobby waiters are turned away and every peer's media is torn down. The
+ * routers close with the last peer.
+ */
+const closeMeeting = async (roomId: string, notice: { endedBy: string; endedAt: Date }) => {
+  const payload = { roomId, ...notice };
+
+  // 1. Breakout rooms - told first so nobody heads back to the meeting
+  const session = await getActiveBreakoutSession(roomId);
+  if (session) {
+    broadcastBreakoutEvent(session, "meeting-ended", payload);
+    await finishBreakoutSession(session.id, "meeting-ended");
+  } else {
+    broadcastRoomEvent(roomId, "meeting-ended", payload);
+  }
+
+  // 2. Recording
+  if (getRecordingSession(roomId)) {
+    try {
+      const result = await stopRecording(roomId);
+      if (result) {
+        broadcastRoomEvent(roomId, "recording-stopped", {
+          roomId,
+          recordingId: result.recordingId,
+          duration: result.duration,
+        });
+      }
+    } catch (err) {
+      console.error(`Error stopping recording of ended meeting ${roomId}:`, err);
+    }
+  }
+
+  // 3. Lobby
+  getLobby(roomId).waiting.forEach((entry) => {
+    io.to(entry.socketId).emit("join-denied", {
+      roomId,
+      reason: "This meeting has ended",
+      ended: true,
+    });
+  });
+  clearLobby(roomId);
+
+  // 4. Peers still in their reconnect grace period
+  for (const [socketId, pending] of pendingDepartures) {
+    if (!pending.roomIds.includes(roomId)) continue;
+
+    pending.roomIds = pending.roomIds.filter((id) => id !== roomId);
+    if (pending.roomIds.length === 0) {
+      clearTimeout(pending.timer);
+      pendingDepartures.delete(socketId);
+    }
+    await finalizePeerDeparture(roomId, socketId, pending.userId);
+  }
+
+  // 5. Everyone else
+  const sockets = await io.in(roomId).fetchSockets();
+  for (const target of sockets) {
+    target.leave(roomId);
+    if (getRoom(roomId)?.peers.has(target.id)) {
+      await finalizePeerDeparture(roomId, target.id, target.data?.userId);
+    }
+  }
+
+  await prisma.roomParticipant.updateMany({
+    where: { roomId, isConnected: true },
+    data: { isConnected: false, lastSeenAt: new Date() },
+  });
+
+  console.log(`🔚 Meeting ${roomId} ended by ${notice.endedBy}`);
+};
+
+/* =========================
+   ROOM LOCK & LOBBY HELPERS
+========================= */
+
+// Push the current waiting list to every host/co-host connected to the room
+const emitLobbyUpdate = (roomId: string) => {
+  const room = getRoom(roomId);
+  if (!room) return;
+
+  const waiting = Array.from(getLobby(roomId).waiting.values()).map((entry) => ({
+    userId: entry.userId,
+    name: entry.name,
+    imageUrl: entry.imageUrl,
+    requestedAt: entry.requestedAt,
+  }));
+
+  room.peers.forEach((peer) => {
+    if (peer.isHost || peer.isCoHost) {
+      io.to(peer.socketId).emit("lobby-update", { roomId, waiting });
+    }
+  });
+};
+
+/**
+ * If the room is locked and this user hasn't been let in, park them in the
+ * lobby and notify hosts. Returns true when the join must stop here.
+ *
+ * Let through: the creator, hosts and co-hosts, anyone still connected to
+ * the meeting (a reconnect or a second tab), sockets moving between the
+ * main room and its breakouts, and admitted users. A leftover row of
+ * someone who left or was removed doesn't count.
+ */
+const holdInLobbyIfLocked = async (
+  socket: Socket,
+  roomId: string,
+  userId: string,
+  userName: string,
+  userImageUrl?: string | null
+): Promise<boolean> => {
+  const dbRoom = await prisma.room.findUnique({ where: { id: roomId } });
+  if (!dbRoom) return false;
+
+  const room = getRoom(roomId);
+  if (room) room.locked = dbRoom.isLocked;
+
+  if (!dbRoom.isLocked || dbRoom.creatorId === userId) return false;
+
+  const existingParticipant = await prisma.roomParticipant.findUnique({
+    where: { roomId_userId: { roomId, userId } },
+  });
+  if (
+    existingParticipant &&
+    (existingParticipant.isConnected ||
+      existingParticipant.role === "HOST" ||
+      existingParticipant.role === "COHOST")
+  ) {
+    return false;
+  }
+
+  const family = await getBreakoutFamily(roomId);
+  if (family.some((id) => id !== roomId && getRoom(id)?.peers.has(socket.id))) return false;
+
+  const lobby = getLobby(roomId);
+  if (lobby.admitted.has(userId)) return false;
+
+  const existingEntry = lobby.waiting.get(userId);
+  lobby.waiting.set(userId, {
+    userId,
+    socketId: socket.id,
+    name: userName || "Guest",
+    imageUrl: userImageUrl,
+    requestedAt: existingEntry?.requestedAt ?? Date.now(),
+  });
+
+  socket.emit("lobby-waiting", {
+    roomId,
+    position: Array.from(lobby.waiting.keys()).indexOf(userId) + 1,
+  });
+  emitLobbyUpdate(roomId);
+
+  console.log(`🚪 ${userName} (${userId}) is waiting in the lobby of locked room ${roomId}`);
+  return true;
+};
+
+io.on("connection", (socket) => {
+  console.log(`✅ user connected: ${socket.id} (${socket.data.userId})`);
+
+  // 🔁 Reconnected within the grace period - keep the existing peer
+  const pending = pendingDepartures.get(socket.id);
+  if (socket.recovered && pending) {
+    clearTimeout(pending.timer);
+    pendingDepartures.delete(socket.id);
+    pending.roomIds.forEach((roomId) => {
+      broadcastRoomEvent(roomId, "participant-reconnected", {
+        peerId: socket.id,
+        userId: socket.data.userId,
+      });
+    });
+    console.log(`🔁 ${socket.id} recovered its session`);
+  }
+
+  // Legacy: identity now comes from the handshake token, payload is ignored
+  socket.on("set-user-id", (claimedUserId: string) => {
+    if (claimedUserId !== socket.data.userId) {
+      console.warn(
+        `⚠️ Socket ${socket.id} claimed userId ${claimedUserId} but is authenticated as ${socket.data.userId} - ignoring`
+      );
+    }
+  });
+
+  /* =========================
+     CHAT
+  ========================= */
+
+  socket.on(
+    "join-room",
+    async ({ roomId, userName, userImageUrl }: any) => {
+      const userId = socket.data.userId;
+
+      console.log("📥 join-room received:", {
+        roomId,
+        userId,
+        userName,
+        userImageUrl,
+      });
+
+      // Validate required fields
+      if (!roomId || !userId || !userName) {
+        console.error("❌ Missing required fields for join-room");
+        socket.emit("error", {
+          message: "Missing required fields: roomId and userName are required",
+        });
+        return;
+      }
+
+      // 🚫 Banned users never get in; 🔒 locked rooms send new joiners to the lobby
+      try {
+        const ban = await checkBan(userId, roomId);
+        if (ban.banned) {
+          console.warn(`🚫 Banned user ${userId} tried to join ${roomId}`);
+          socket.emit("join-denied", {
+            roomId,
+            reason: ban.reason || "You have been banned from this meeting",
+            banned: true,
+            expiresAt: ban.expiresAt,
+          });
+          return;
+        }
+
+        const joinable = await checkMeetingJoinable(roomId, userId);
+        if (!joinable.ok) {
+          socket.emit("join-denied", {
+            roomId,
+            reason: joinable.error,
+            cancelled: joinable.cancelled,
+            ended: joinable.ended,
+            joinWindowOpensAt: joinable.opensAt,
+          });
+          return;
+        }
+
+        const remoteOwner = await getRemoteRoomOwner(roomId);
+        if (remoteOwner) {
+          console.log(`↪️ Room ${roomId} lives on ${remoteOwner.nodeId}, redirecting ${userId}`);
+          socket.emit("room-redirect", { roomId, ...remoteOwner });
+          return;
+        }
+
+        if (await holdInLobbyIfLocked(socket, roomId, userId, userName, userImageUrl)) {
+          return;
+        }
+      } catch (err) {
+        console.error("Error checking room lock in join-room:", err);
+        socket.emit("error", { message: "Failed to join room" });
+        return;
+      }
+
+      socket.join(roomId);
+
+      try {
+        // Check if room exists, if not create it
+        let room = await prisma.room.findUnique({ where: { id: roomId } });
+
+        if (!room) {
+          room = await prisma.room.create({
+            data: {
+              id: roomId,
+              creatorId: userId,
+            },
+          });
+          console.log(`🏠 Created new room ${roomId} with creator ${userId}`);
+        }
+
+        // Check if user is already a participant
+        let participant = await prisma.roomParticipant.findUnique({
+          where: {
+            roomId_userId: {
+              roomId,
+              userId,
+            },
+          },
+        });
+
+        // If not, create participant entry (breakouts inherit the meeting role)
+        if (!participant) {
+          const role = room.parentRoomId
+            ? await getInheritedRole(room.parentRoomId, userId)
+            : userId === room.creatorId ? "HOST" : "PARTICIPANT";
+          participant = await prisma.roomParticipant.create({
+            data: {
+              roomId,
+              userId,
               name: userName,
               imageUrl: userImageUrl,
               role,
             },
           });
-          console.log(`✅ ${userName} joined as ${role} (NEW)`);
-        } else {
-          // Update existing participant info (in case name or image changed)
-          participant = await prisma.roomParticipant.update({
+          console.log(`✅ ${userName} joined as ${role} (NEW)`);
+        } else {
+          // Update existing participant info (in case name or image changed)
+          participant = await prisma.roomParticipant.update({
+            where: {
+              roomId_userId: {
+                roomId,
+                userId,
+              },
+            },
+            data: {
+              name: userName,
+              imageUrl: userImageUrl,
+            },
+          });
+          console.log(`♻️ ${userName} rejoined (EXISTING)`);
+        }
+
+        // ✅ Create or update in-memory peer with host status
+        const mediasoupRoom = await getOrCreateRoom(roomId);
+        const existingPeer = mediasoupRoom.peers.get(socket.id);
+        const peer = {
+          socketId: socket.id,
+          userId: userId,
+          name: userName,
+          imageUrl: userImageUrl,
+          isHost: participant.role === "HOST",
+          isCoHost: participant.role === "COHOST",
+          router: existingPeer?.router ?? (await placePeer(mediasoupRoom)),
+          producers: new Map(),
+          consumers: new Map(),
+          transports: new Map(),
+        };
+
+        mediasoupRoom.peers.set(socket.id, peer);
+
+        console.log(`👤 Peer added to room.peers:`, {
+          socketId: socket.id,
+          userId,
+          name: userName,
+          role: participant.role,
+          isHost: peer.isHost,
+          isCoHost: peer.isCoHost,
+        });
+
+        // Broadcast the join (participant-joined/updated) to all in room
+        await syncParticipants(roomId);
+
+        // Send chat history (last 150 messages to prevent memory issues)
+        const history = await prisma.message.findMany({
+          where: { roomId },
+          orderBy: { createdAt: "desc" },
+          take: 150,
+          include: {
+            reactions: true,
+            replyTo: {
+              select: {
+                id: true,
+                text: true,
+                senderName: true,
+              },
+            },
+          },
+        });
+
+        // Reverse to get chronological order (oldest first)
+        const chronologicalHistory = history.reverse();
+
+        socket.emit(
+          "chat-history",
+          chronologicalHistory.map((msg: any) => ({
+            socketId: "system",
+            message: {
+              id: msg.id,
+              text: msg.text,
+              createdAt: msg.createdAt.getTime(),
+              sender: {
+                id: msg.senderId,
+                name: msg.senderName,
+                avatarUrl: msg.senderAvatar,
+              },
+              pinned: msg.pinned,
+              replyTo: msg.replyTo
+                ? {
+                    id: msg.replyTo.id,
+                    text: msg.replyTo.text,
+                    senderName: msg.replyTo.senderName,
+                  }
+                : undefined,
+              reactions: msg.reactions.reduce((acc: any, r: any) => {
+                acc[r.emoji] ??= [];
+                acc[r.emoji].push(r.userId);
+                return acc;
+              }, {}),
+            },
+          }))
+        );
+
+        console.log(
+          `💬 Sent ${chronologicalHistory.length} chat messages to ${userName}`
+        );
+      } catch (err) {
+        console.error("Error in join-room:", err);
+        socket.emit("chat-history", []);
+      }
+    }
+  );
+
+  /* =========================
+     EXPLICIT CHAT HISTORY REQUEST
+     (For late joins, refreshes, or when initial join-room was missed)
+  ========================= */
+
+  socket.on("request-chat-history", async ({ roomId }: { roomId: string }) => {
+    try {
+      console.log(`💬 Explicit chat history request for room ${roomId}`);
+
+      if (!roomId) {
+        console.error("❌ No roomId provided for chat history request");
+        socket.emit("chat-history", []);
+        return;
+      }
+
+      if (!socket.rooms.has(roomId)) {
+        console.warn(`⚠️ ${socket.id} asked for chat history of ${roomId} without joining it`);
+        socket.emit("chat-history", []);
+        return;
+      }
+
+      // Fetch last 150 messages
+      const history = await prisma.message.findMany({
+        where: { roomId },
+        orderBy: { createdAt: "desc" },
+        take: 150,
+        include: {
+          reactions: true,
+          replyTo: {
+            select: {
+              id: true,
+              text: true,
+              senderName: true,
+            },
+          },
+        },
+      });
+
+      // Reverse to get chronological order (oldest first)
+      const chronologicalHistory = history.reverse();
+
+      socket.emit(
+        "chat-history",
+        chronologicalHistory.map((msg: any) => ({
+          socketId: "system",
+          message: {
+            id: msg.id,
+            text: msg.text,
+            createdAt: msg.createdAt.getTime(),
+            sender: {
+              id: msg.senderId,
+              name: msg.senderName,
+              avatarUrl: msg.senderAvatar,
+            },
+            pinned: msg.pinned,
+            replyTo: msg.replyTo
+              ? {
+                  id: msg.replyTo.id,
+                  text: msg.replyTo.text,
+                  senderName: msg.replyTo.senderName,
+                }
+              : undefined,
+            reactions: msg.reactions.reduce((acc: any, r: any) => {
+              acc[r.emoji] ??= [];
+              acc[r.emoji].push(r.userId);
+              return acc;
+            }, {}),
+          },
+        }))
+      );
+
+      console.log(
+        `✅ Sent ${chronologicalHistory.length} chat messages via explicit request`
+      );
+    } catch (err) {
+      console.error("Error fetching chat history:", err);
+      socket.emit("chat-history", []);
+    }
+  });
+
+  socket.on("send-message", async ({ roomId, message }) => {
+    try {
+      // Chat is scoped to the rooms this socket has joined - each breakout has its own
+      if (!socket.rooms.has(roomId)) {
+        socket.emit("message-error", {
+          messageId: message?.id,
+          error: "Join the room before sending messages",
+        });
+        return;
+      }
+
+      // Sender is always the authenticated user, whatever the client claims
+      message.sender = { ...message.sender, id: socket.data.userId };
+
+      // Save to database FIRST to ensure persistence
+      await prisma.message.create({
+        data: {
+          id: message.id,
+          roomId,
+          text: message.text,
+          senderId: message.sender.id,
+          senderName: message.sender.name,
+          senderAvatar: message.sender.avatarUrl,
+          createdAt: new Date(message.createdAt),
+          replyToId: message.replyTo?.id,
+        },
+      });
+
+      // Broadcast to room AFTER successful save
+      broadcastRoomEvent(roomId, "receive-message", {
+        socketId: socket.id,
+        message,
+      });
+
+      console.log(`💬 Message saved and broadcast in room ${roomId}`);
+    } catch (error) {
+      console.error("❌ Failed to save message:", error);
+
+      // Notify sender of failure
+      socket.emit("message-error", {
+        messageId: message.id,
+        error: "Failed to save message. Please try again.",
+      });
+    }
+  });
+
+  /* =========================
+     CHAT TYPING INDICATORS
+  ========================= */
+
+  socket.on("typing-start", ({ roomId, name }) => {
+    socket.to(roomId).emit("typing-start", {
+      socketId: socket.id,
+      name,
+    });
+  });
+
+  socket.on("typing-stop", ({ roomId }) => {
+    socket.to(roomId).emit("typing-stop", {
+      socketId: socket.id,
+    });
+  });
+
+  /* =========================
+     CHAT MESSAGE REACTIONS
+  ========================= */
+
+  socket.on("message-react", async ({ roomId, messageId, emoji }) => {
+    const userId = socket.data.userId;
+
+    try {
+      // Check if reaction already exists
+      const existing = await prisma.reaction.findUnique({
+        where: {
+          messageId_userId: {
+            messageId,
+            userId,
+          },
+        },
+      });
+
+      if (existing) {
+        // Update to new emoji if different, or remove if same
+        if (existing.emoji === emoji) {
+          await prisma.reaction.delete({
+            where: { id: existing.id },
+          });
+          broadcastRoomEvent(roomId, "message-react-update", {
+            messageId,
+            userId,
+            emoji,
+            action: "removed",
+          });
+        } else {
+          await prisma.reaction.update({
+            where: { id: existing.id },
+            data: { emoji },
+          });
+          broadcastRoomEvent(roomId, "message-react-update", {
+            messageId,
+            userId,
+            emoji,
+            action: "updated",
+          });
+        }
+      } else {
+        // Create new reaction
+        await prisma.reaction.create({
+          data: {
+            messageId,
+            userId,
+            emoji,
+          },
+        });
+        broadcastRoomEvent(roomId, "message-react-update", {
+          messageId,
+          userId,
+          emoji,
+          action: "added",
+        });
+      }
+    } catch (err) {
+      console.error("Error in message-react:", err);
+    }
+  });
+
+  /* =========================
+     PIN MESSAGE
+  ========================= */
+
+  socket.on("pin-message", async ({ roomId, messageId, pinned }) => {
+    try {
+      // Unpin all other messages in this room first
+      await prisma.message.updateMany({
+        where: { roomId },
+        data: { pinned: false },
+      });
+
+      // Pin/unpin the target message
+      await prisma.message.update({
+        where: { id: messageId },
+        data: { pinned },
+      });
+
+      // Broadcast to all participants
+      broadcastRoomEvent(roomId, "pin-message-update", {
+        messageId,
+        pinned,
+      });
+    } catch (err) {
+      console.error("Error in pin-message:", err);
+    }
+  });
+
+  /* =========================
+     VIDEO CALL REACTIONS (Synchronized Floating Particles)
+  ========================= */
+
+  socket.on("video-reaction", ({ roomId, emoji, sessionId, userName }) => {
+    const userId = socket.data.userId;
+    console.log(`🎉 Video reaction from ${userName}:`, { emoji, sessionId });
+
+    // Broadcast to all OTHER participants in the room
+    socket.to(roomId).emit("receive-video-reaction", {
+      emoji,
+      sessionId,
+      userId,
+      userName,
+    });
+  });
+
+  /* =========================
+     RAISE HAND
+     An ordered speaking queue per room. Anyone in the room can raise or
+     lower their own hand; hosts and co-hosts lower others' and call on them.
+  ========================= */
+
+  socket.on("raise-hand", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      if (getRoom(roomId)?.peers.get(socket.id)?.userId !== userId) {
+        return cb?.({ error: "Join the room first" });
+      }
+
+      if (await raiseHand(roomId, userId)) {
+        await syncParticipants(roomId);
+        await emitHandQueue(roomId);
+        console.log(`✋ ${userId} raised their hand in ${roomId}`);
+      }
+
+      const queue = await getHandQueue(roomId);
+      cb?.({ success: true, position: queue.findIndex((h) => h.userId === userId) + 1, queue });
+    } catch (err: any) {
+      console.error("Error in raise-hand:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  // Without participantId (or with your own) this lowers your hand; otherwise
+  // it's a host action on someone else's
+  socket.on("lower-hand", async ({ roomId, participantId }, cb) => {
+    const userId = socket.data.userId;
+    const targetUserId = participantId || userId;
+
+    try {
+      if (targetUserId !== userId) {
+        // 1. Rate limiting
+        if (!(await checkRateLimit(userId))) {
+          await auditLog({
+            action: "LOWER_HAND",
+            actor: userId,
+            target: targetUserId,
+            roomId,
+            result: "DENIED",
+            reason: "RATE_LIMIT_EXCEEDED",
+            timestamp: new Date(),
+          });
+          return cb?.({ error: "Too many actions. Please wait." });
+        }
+
+        // 2. Permission check (actor + target)
+        const permissionResult = await checkPermission(userId, roomId, "LOWER_HAND", targetUserId);
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditLog({
+              action: "LOWER_HAND",
+              actor: userId,
+              target: targetUserId,
+              roomId,
+              result: "DENIED",
+              reason: permissionResult.reason || "UNAUTHORIZED",
+              timestamp: new Date(),
+            });
+          }
+          return cb?.({ error: "Only hosts and co-hosts can lower someone else's hand" });
+        }
+      }
+
+      // 3. Lower it
+      if ((await lowerHands(roomId, [targetUserId])).length === 0) {
+        return cb?.({ success: true, changed: false });
+      }
+
+      // 4. Broadcast
+      await syncParticipants(roomId);
+      await emitHandQueue(roomId);
+
+      if (targetUserId !== userId) {
+        const requester = await prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId } },
+        });
+        const targetSockets = await io.in(roomId).fetchSockets();
+        targetSockets
+          .filter((s: any) => s.data?.userId === targetUserId)
+          .forEach((s) => s.emit("hand-lowered", { roomId, by: requester?.name }));
+
+        // 5. Audit log success
+        await auditLog({
+          action: "LOWER_HAND",
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "ALLOWED",
+          timestamp: new Date(),
+        });
+      }
+
+      cb?.({ success: true, changed: true });
+    } catch (err: any) {
+      console.error("Error in lower-hand:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  socket.on("lower-all-hands", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "LOWER_ALL_HANDS",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return cb?.({ error: "Too many actions. Please wait." });
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "LOWER_ALL_HANDS");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "LOWER_ALL_HANDS",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        return cb?.({ error: "Only hosts and co-hosts can lower all hands" });
+      }
+
+      // 3. Clear the queue
+      const lowered = await lowerHands(roomId);
+
+      // 4. Broadcast
+      if (lowered.length > 0) {
+        await syncParticipants(roomId);
+        await emitHandQueue(roomId);
+      }
+
+      // 5. Audit log success
+      await auditLog({
+        action: "LOWER_ALL_HANDS",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`✋ ${userId} lowered ${lowered.length} hand(s) in ${roomId}`);
+      cb?.({ success: true, lowered });
+    } catch (err: any) {
+      console.error("Error in lower-all-hands:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  // Give the floor to the head of the queue (or participantId). Their hand
+  // goes down; with unlockAudio their host audio lock is lifted too, so they
+  // can unmute themselves.
+  socket.on("call-on-hand", async ({ roomId, participantId, unlockAudio }, cb) => {
+    const userId = socket.data.userId;
+
+    // Audit a denial under the action that was actually refused
+    const auditDenied = (action: ControlAction, reason: string, targetUserId?: string) =>
+      auditLog({
+        action,
+        actor: userId,
+        target: targetUserId,
+        roomId,
+        result: "DENIED",
+        reason,
+        timestamp: new Date(),
+      });
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditDenied("LOWER_HAND", "RATE_LIMIT_EXCEEDED", participantId);
+        return cb?.({ error: "Too many actions. Please wait." });
+      }
+
+      // 2a. Picking from the queue is managing the queue - check that before
+      // looking at who is in it
+      if (!participantId) {
+        const permissionResult = await checkPermission(userId, roomId, "LOWER_ALL_HANDS");
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditDenied("LOWER_ALL_HANDS", permissionResult.reason || "UNAUTHORIZED");
+          }
+          return cb?.({ error: "Only hosts and co-hosts can call on raised hands" });
+        }
+      }
+
+      const targetUserId: string | undefined =
+        participantId || (await getHandQueue(roomId))[0]?.userId;
+      if (!targetUserId) return cb?.({ error: "No hands are raised" });
+
+      // 2b. Permission check on the target - calling on someone lowers their
+      // hand, and unlocking their audio is an unmute
+      const actions: ControlAction[] = unlockAudio
+        ? ["LOWER_HAND", "UNMUTE_INDIVIDUAL"]
+        : ["LOWER_HAND"];
+
+      for (const action of actions) {
+        const permissionResult = await checkPermission(userId, roomId, action, targetUserId);
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditDenied(action, permissionResult.reason || "UNAUTHORIZED", targetUserId);
+          }
+          return cb?.({ error: "You don't have permission to call on this participant" });
+        }
+      }
+
+      if (!(await isHandRaised(roomId, targetUserId))) {
+        return cb?.({ error: "That participant's hand isn't raised" });
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return cb?.({ error: "Requester not found" });
+
+      // 4. Lower their hand and, if asked, lift the audio lock
+      await lowerHands(roomId, [targetUserId]);
+
+      if (unlockAudio) {
+        await prisma.roomParticipant.update({
+          where: { roomId_userId: { roomId, userId: targetUserId } },
+          data: { audioLocked: false },
+        });
+      }
+
+      // 5. Tell the participant, then everyone
+      const targetSockets = await io.in(roomId).fetchSockets();
+      targetSockets
+        .filter((s: any) => s.data?.userId === targetUserId)
+        .forEach((s) => {
+          s.emit("called-on", { roomId, by: requester.name, audioUnlocked: Boolean(unlockAudio) });
+          if (unlockAudio) s.emit("allow-unmute", { by: requester.name, locked: false });
+        });
+
+      broadcastRoomEvent(roomId, "hand-called-on", {
+        roomId,
+        userId: targetUserId,
+        by: requester.name,
+        audioUnlocked: Boolean(unlockAudio),
+      });
+
+      await syncParticipants(roomId);
+      await emitHandQueue(roomId);
+
+      // 6. Audit log success - one entry per action taken
+      for (const action of actions) {
+        await auditLog({
+          action,
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "ALLOWED",
+          reason: "CALLED_ON",
+          timestamp: new Date(),
+        });
+      }
+
+      console.log(`🎤 ${requester.name} called on ${targetUserId} in ${roomId}`);
+      cb?.({ success: true, userId: targetUserId, audioUnlocked: Boolean(unlockAudio) });
+    } catch (err: any) {
+      console.error("Error in call-on-hand:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  /* =========================
+     PARTICIPANT STATE SYNC
+  ========================= */
+
+  // Full participant list + version, for clients that missed a diff
+  socket.on("get-participants", async ({ roomId }, cb) => {
+    try {
+      const userId = socket.data.userId;
+      if (!roomId || !socket.rooms.has(roomId)) {
+        return cb?.({ error: "Not in this room" });
+      }
+
+      const snapshot = await getParticipantSnapshot(roomId);
+      console.log(`📋 Participant snapshot v${snapshot.version} sent to ${userId}`);
+      cb?.(snapshot);
+    } catch (err: any) {
+      console.error("❌ Error getting participants:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  socket.on(
+    "update-my-state",
+    async ({ roomId, isAudioMuted, isVideoPaused }: any) => {
+      const userId = socket.data.userId;
+
+      try {
+        if (!roomId || !userId) {
+          console.error("❌ Missing roomId or userId in update-my-state:", {
+            roomId,
+            userId,
+            isAudioMuted,
+            isVideoPaused,
+            socketId: socket.id,
+          });
+          return;
+        }
+
+        console.log(`🔄 State update from ${userId}:`, {
+          isAudioMuted,
+          isVideoPaused,
+        });
+
+        // Build update data object with only defined values
+        const updateData: any = {};
+        if (isAudioMuted !== undefined && isAudioMuted !== null) {
+          updateData.isAudioMuted = isAudioMuted;
+        }
+
+        // 🔒 Don't let a locked participant advertise themselves as unmuted
+        if (updateData.isAudioMuted === false) {
+          const canUnmuteResult = await canUnmute(userId, roomId);
+          if (!canUnmuteResult.allowed) {
+            delete updateData.isAudioMuted;
+            isAudioMuted = undefined;
+            socket.emit("audio-locked", {
+              reason: "You have been muted by the host and cannot unmute yourself",
+            });
+          }
+        }
+        if (isVideoPaused !== undefined && isVideoPaused !== null) {
+          updateData.isVideoPaused = isVideoPaused;
+        }
+
+        // Only update if there's data to update
+        if (Object.keys(updateData).length > 0) {
+          await prisma.roomParticipant.update({
+            where: {
+              roomId_userId: {
+                roomId,
+                userId,
+              },
+            },
+            data: updateData,
+          });
+
+          // Broadcast to all OTHER participants in the room
+          broadcastRoomEvent(
+            roomId,
+            "participant-state-changed",
+            { userId, isAudioMuted, isVideoPaused },
+            socket.id
+          );
+
+          console.log(`✅ State broadcast to room ${roomId}:`, {
+            userId,
+            isAudioMuted,
+            isVideoPaused,
+          });
+
+          await syncParticipants(roomId);
+        }
+      } catch (err) {
+        console.error("Error in update-my-state:", err);
+      }
+    }
+  );
+
+  /* =========================
+     ROOM CONTROLS (HOST ONLY)
+  ========================= */
+
+  socket.on("mute-all-participants", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_MUTE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_MUTE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_MUTE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global mute: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts 🔥 CRITICAL FIX
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, set audioLocked = true
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES }, // 🔥 Never hosts or co-hosts
+        },
+        data: {
+          isAudioMuted: true,
+          audioLocked: true, // 🔒 Lock so they cannot unmute themselves
+        },
+      });
+
+      // 5b. Pause their audio producers - don't rely on clients honouring force-mute
+      await enforceAudioMute(
+        roomId,
+        participants.map((p) => p.userId)
+      );
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit force-mute to each target only (kept for replay if they're reconnecting)
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        sendUserEvent(roomId, participant.userId, targetSocket?.id, "force-mute", {
+          audio: true,
+          by: requester.name,
+          locked: true,
+        });
+      }
+
+      // 8. Send participant-updated diffs to all
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_MUTE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`🔇 ${requester.name} (${requester.role}) muted all PARTICIPANTS in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in mute-all-participants:", err);
+    }
+  });
+
+  socket.on("unmute-all-participants", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_UNMUTE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_UNMUTE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_UNMUTE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global unmute: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, clear audioLocked
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES },
+        },
+        data: {
+          isAudioMuted: false,
+          audioLocked: false, // 🔓 Unlock so they can control their audio
+        },
+      });
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit allow-unmute to each target only (kept for replay like force-mute)
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        sendUserEvent(roomId, participant.userId, targetSocket?.id, "allow-unmute", {
+          by: requester.name,
+          locked: false,
+        });
+      }
+
+      // 8. Send updated participant list to all
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_UNMUTE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`🔊 ${requester.name} (${requester.role}) unmuted all PARTICIPANTS in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in unmute-all-participants:", err);
+    }
+  });
+
+  socket.on("disable-all-cameras", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_CAMERA_DISABLE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_CAMERA_DISABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_CAMERA_DISABLE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global camera disable: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, set screenShareLocked
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES },
+        },
+        data: {
+          isVideoPaused: true,
+          screenShareLocked: true, // Lock screen share when disabling cameras
+        },
+      });
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit force-video-pause to each target only
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        if (targetSocket) {
+          targetSocket.emit("force-video-pause", {
+            video: true,
+            by: requester.name,
+          });
+        }
+      }
+
+      // 8. Send updated participant list to all
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_CAMERA_DISABLE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`📹 ${requester.name} (${requester.role}) disabled all PARTICIPANTS cameras in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in disable-all-cameras:", err);
+    }
+  });
+
+  socket.on("enable-all-cameras", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_CAMERA_ENABLE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_CAMERA_ENABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_CAMERA_ENABLE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global camera enable: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, clear screenShareLocked
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES },
+        },
+        data: {
+          isVideoPaused: false,
+          screenShareLocked: false, // Unlock screen share when enabling cameras
+        },
+      });
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit allow-unpause to each target only
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        if (targetSocket) {
+          targetSocket.emit("allow-unpause", {
+            by: requester.name,
+          });
+        }
+      }
+
+      // 8. Send updated participant list to all
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_CAMERA_ENABLE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`📹 ${requester.name} (${requester.role}) enabled all PARTICIPANTS cameras in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in enable-all-cameras:", err);
+    }
+  });
+
+  // ✅ Disable screen sharing for all participants
+  socket.on("disable-all-screen-sharing", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_SCREENSHARE_DISABLE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_SCREENSHARE_DISABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_SCREENSHARE_DISABLE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global screenshare disable: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, set screenShareLocked
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES },
+        },
+        data: {
+          screenShareLocked: true, // Lock screen share
+        },
+      });
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit screenshare-control to each target only
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        if (targetSocket) {
+          targetSocket.emit("screenshare-control", {
+            enabled: false,
+            by: requester.name,
+          });
+        }
+      }
+
+      // 8. Refresh participant list
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_SCREENSHARE_DISABLE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`🖥️ ${requester.name} (${requester.role}) disabled all PARTICIPANTS screen sharing in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in disable-all-screen-sharing:", err);
+    }
+  });
+
+  // ✅ Enable screen sharing for all participants
+  socket.on("enable-all-screen-sharing", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "GLOBAL_SCREENSHARE_ENABLE",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_SCREENSHARE_ENABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "GLOBAL_SCREENSHARE_ENABLE",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized for global screenshare enable: ${permissionResult.reason}`);
+        return;
+      }
+
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+
+      if (!requester) return;
+
+      // 4. Get everyone but hosts and co-hosts
+      const participants = await getGlobalActionTargets(roomId);
+
+      // 5. Update database - ONLY those targets, clear screenShareLocked
+      await prisma.roomParticipant.updateMany({
+        where: {
+          roomId,
+          role: { in: GLOBAL_CONTROL_ROLES },
+        },
+        data: {
+          screenShareLocked: false, // Unlock screen share
+        },
+      });
+
+      // 6. Get active sockets
+      const targetSockets = await io.in(roomId).fetchSockets();
+
+      // 7. Emit screenshare-control to each target only
+      for (const participant of participants) {
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === participant.userId
+        );
+
+        if (targetSocket) {
+          targetSocket.emit("screenshare-control", {
+            enabled: true,
+            by: requester.name,
+          });
+        }
+      }
+
+      // 8. Refresh participant list
+      await syncParticipants(roomId);
+
+      // 9. Audit log success
+      await auditLog({
+        action: "GLOBAL_SCREENSHARE_ENABLE",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`🖥️ ${requester.name} (${requester.role}) enabled all PARTICIPANTS screen sharing in room ${roomId}`);
+    } catch (err) {
+      console.error("Error in enable-all-screen-sharing:", err);
+    }
+  });
+
+  socket.on(
+    "toggle-remote-audio",
+    async ({ roomId, targetUserId, force }: any) => {
+      const userId = socket.data.userId;
+
+      try {
+        // 1. Rate limiting
+        if (!(await checkRateLimit(userId))) {
+          await auditLog({
+            action: force === "mute" ? "MUTE_INDIVIDUAL" : "UNMUTE_INDIVIDUAL",
+            actor: userId,
+            target: targetUserId,
+            roomId,
+            result: "DENIED",
+            reason: "RATE_LIMIT_EXCEEDED",
+            timestamp: new Date(),
+          });
+          return;
+        }
+
+        // 2. Permission check (actor + target)
+        const action = force === "mute" ? "MUTE_INDIVIDUAL" : "UNMUTE_INDIVIDUAL";
+        const permissionResult = await checkPermission(
+          userId,
+          roomId,
+          action,
+          targetUserId
+        );
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditLog({
+              action,
+              actor: userId,
+              target: targetUserId,
+              roomId,
+              result: "DENIED",
+              reason: permissionResult.reason || "UNAUTHORIZED",
+              timestamp: new Date(),
+            });
+          }
+          console.log(
+            `❌ ${userId} unauthorized to ${force} ${targetUserId}: ${permissionResult.reason}`
+          );
+          return;
+        }
+
+        // 3. Get requester info
+        const requester = await prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId } },
+        });
+
+        if (!requester) return;
+
+        // 4. Update target user's audio state
+        await prisma.roomParticipant.update({
+          where: {
+            roomId_userId: {
+              roomId,
+              userId: targetUserId,
+            },
+          },
+          data: {
+            isAudioMuted: force === "mute",
+            audioLocked: force === "mute", // Set lock when muting, clear when unmuting
+          },
+        });
+
+        // 4b. Muting pauses their audio producer server-side; unmuting leaves
+        // it to the user (resume-producer is allowed again now the lock is off)
+        if (force === "mute") {
+          await enforceAudioMute(roomId, [targetUserId]);
+        }
+
+        // 5. Find target's socket and emit control event
+        const targetSockets = await io.in(roomId).fetchSockets();
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === targetUserId
+        );
+
+        if (force === "mute") {
+          sendUserEvent(roomId, targetUserId, targetSocket?.id, "force-mute", {
+            audio: true,
+            by: requester.name,
+            locked: true,
+          });
+        } else {
+          sendUserEvent(roomId, targetUserId, targetSocket?.id, "allow-unmute", {
+            by: requester.name,
+            locked: false,
+          });
+        }
+
+        if (targetSocket) {
+          console.log(
+            `🔇 ${requester.name} (${requester.role}) ${
+              force === "mute" ? "muted" : "unmuted"
+            } ${targetUserId}`
+          );
+        }
+
+        // 6. Send updated participant list to ensure lock state is synced
+        await syncParticipants(roomId);
+
+        // 7. Audit log success
+        await auditLog({
+          action,
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "ALLOWED",
+          timestamp: new Date(),
+        });
+      } catch (err) {
+        console.error("Error in toggle-remote-audio:", err);
+      }
+    }
+  );
+
+  socket.on(
+    "toggle-remote-video",
+    async ({ roomId, targetUserId, force }: any) => {
+      const userId = socket.data.userId;
+
+      try {
+        // 1. Rate limiting
+        if (!(await checkRateLimit(userId))) {
+          await auditLog({
+            action: force === "disable" ? "DISABLE_CAMERA" : "ENABLE_CAMERA",
+            actor: userId,
+            target: targetUserId,
+            roomId,
+            result: "DENIED",
+            reason: "RATE_LIMIT_EXCEEDED",
+            timestamp: new Date(),
+          });
+          return;
+        }
+
+        // 2. Permission check (actor + target)
+        const action = force === "disable" ? "DISABLE_CAMERA" : "ENABLE_CAMERA";
+        const permissionResult = await checkPermission(
+          userId,
+          roomId,
+          action,
+          targetUserId
+        );
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditLog({
+              action,
+              actor: userId,
+              target: targetUserId,
+              roomId,
+              result: "DENIED",
+              reason: permissionResult.reason || "UNAUTHORIZED",
+              timestamp: new Date(),
+            });
+          }
+          console.log(
+            `❌ ${userId} unauthorized to ${force} camera for ${targetUserId}: ${permissionResult.reason}`
+          );
+          return;
+        }
+
+        // 3. Get requester info
+        const requester = await prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId } },
+        });
+
+        if (!requester) return;
+
+        // 4. Update target user's video state
+        await prisma.roomParticipant.update({
+          where: {
+            roomId_userId: {
+              roomId,
+              userId: targetUserId,
+            },
+          },
+          data: {
+            isVideoPaused: force === "disable" || force === "pause",
+          },
+        });
+
+        // 5. Find target's socket and emit control event
+        const targetSockets = await io.in(roomId).fetchSockets();
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === targetUserId
+        );
+
+        if (targetSocket) {
+          if (force === "disable" || force === "pause") {
+            // Pause video and disable control
+            targetSocket.emit("force-video-pause", {
+              video: true,
+              by: requester.name,
+            });
+          } else {
+            // Allow user to unpause video themselves
+            targetSocket.emit("allow-unpause", {
+              by: requester.name,
+            });
+          }
+
+          // Broadcast state change to everyone
+          broadcastRoomEvent(roomId, "participant-state-changed", {
+            userId: targetUserId,
+            isVideoPaused: force === "disable" || force === "pause",
+          });
+
+          console.log(
+            `📹 ${requester.name} (${requester.role}) ${
+              force === "disable" || force === "pause" ? "disabled" : "enabled"
+            } camera of ${targetUserId}`
+          );
+        }
+
+        await syncParticipants(roomId);
+
+        // 6. Audit log success
+        await auditLog({
+          action,
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "ALLOWED",
+          timestamp: new Date(),
+        });
+      } catch (err) {
+        console.error("Error in toggle-remote-video:", err);
+      }
+    }
+  );
+
+  socket.on(
+    "remove-participant",
+    async ({ roomId, targetUserId, mode, reason, banMinutes }: any) => {
+      const userId = socket.data.userId;
+      // "kick" (default) only removes; "ban" also blocks rejoining
+      const isBan = mode === "ban";
+      const action = isBan ? "BAN_FROM_ROOM" : "REMOVE_FROM_ROOM";
+
+      try {
+        // 1. Rate limiting
+        if (!(await checkRateLimit(userId))) {
+          await auditLog({
+            action,
+            actor: userId,
+            target: targetUserId,
+            roomId,
+            result: "DENIED",
+            reason: "RATE_LIMIT_EXCEEDED",
+            timestamp: new Date(),
+          });
+          return;
+        }
+
+        // 2. Permission check (actor + target)
+        const permissionResult = await checkPermission(
+          userId,
+          roomId,
+          action,
+          targetUserId
+        );
+
+        if (!permissionResult.allowed) {
+          if (permissionResult.shouldAuditLog) {
+            await auditLog({
+              action,
+              actor: userId,
+              target: targetUserId,
+              roomId,
+              result: "DENIED",
+              reason: permissionResult.reason || "UNAUTHORIZED",
+              timestamp: new Date(),
+            });
+          }
+          console.log(
+            `❌ ${userId} unauthorized to ${isBan ? "ban" : "remove"} ${targetUserId}: ${permissionResult.reason}`
+          );
+          return;
+        }
+
+        // 3. Get requester info
+        const requester = await prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId } },
+        });
+
+        if (!requester) return;
+
+        // 4. Record the ban BEFORE removal so an instant rejoin is already blocked
+        let expiresAt: Date | null = null;
+        if (isBan) {
+          expiresAt =
+            Number(banMinutes) > 0
+              ? new Date(Date.now() + Number(banMinutes) * 60 * 1000)
+              : null;
+
+          await prisma.roomBan.upsert({
+            where: { roomId_userId: { roomId, userId: targetUserId } },
+            create: {
+              roomId,
+              userId: targetUserId,
+              bannedBy: userId,
+              reason: reason || null,
+              expiresAt,
+            },
+            update: {
+              bannedBy: userId,
+              reason: reason || null,
+              expiresAt,
+              createdAt: new Date(),
+            },
+          });
+        }
+
+        // 5. Delete participant from DB
+        await prisma.roomParticipant.delete({
+          where: {
+            roomId_userId: {
+              roomId,
+              userId: targetUserId,
+            },
+          },
+        });
+
+        // 6. Find target's socket and force disconnect
+        const targetSockets = await io.in(roomId).fetchSockets();
+        const targetSocket = targetSockets.find(
+          (s: any) => s.data?.userId === targetUserId
+        );
+
+        if (targetSocket) {
+          targetSocket.emit("kicked-from-room", {
+            by: requester.name,
+            reason: reason || (isBan ? "Banned by host" : "Removed by host"),
+            banned: isBan,
+            expiresAt,
+          });
+          targetSocket.leave(roomId);
+
+          // Tear down their media - once they've left the socket room the
+          // disconnect cleanup would no longer find this peer
+          removePeerFromRoom(roomId, targetSocket.id);
+
+          console.log(
+            `🚫 ${requester.name} (${requester.role}) ${isBan ? "banned" : "removed"} ${targetUserId} from room`
+          );
+        }
+
+        // 7. Broadcast updated participant list
+        await syncParticipants(roomId);
+
+        // 8. Audit log success
+        await auditLog({
+          action,
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "ALLOWED",
+          reason: isBan ? reason : undefined,
+          timestamp: new Date(),
+        });
+      } catch (err) {
+        console.error("Error in remove-participant:", err);
+      }
+    }
+  );
+
+  /* =========================
+     BAN LIST
+  ========================= */
+
+  socket.on("list-bans", async ({ roomId }, cb) => {
+    try {
+      const permissionResult = await checkPermission(
+        socket.data.userId,
+        roomId,
+        "LIFT_BAN"
+      );
+
+      if (!permissionResult.allowed) {
+        return cb?.({ error: "Only hosts can view the ban list" });
+      }
+
+      const bans = await prisma.roomBan.findMany({
+        where: {
+          roomId,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      cb?.({
+        success: true,
+        bans: bans.map((b) => ({
+          userId: b.userId,
+          bannedBy: b.bannedBy,
+          reason: b.reason,
+          expiresAt: b.expiresAt,
+          createdAt: b.createdAt,
+        })),
+      });
+    } catch (err: any) {
+      console.error("Error in list-bans:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  socket.on("lift-ban", async ({ roomId, targetUserId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "LIFT_BAN",
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return cb?.({ error: "Too many actions. Please wait." });
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "LIFT_BAN");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "LIFT_BAN",
+            actor: userId,
+            target: targetUserId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(`❌ ${userId} unauthorized to lift ban on ${targetUserId}: ${permissionResult.reason}`);
+        return cb?.({ error: "Only hosts can lift bans" });
+      }
+
+      // 3. Remove the ban
+      const { count } = await prisma.roomBan.deleteMany({
+        where: { roomId, userId: targetUserId },
+      });
+
+      if (count === 0) {
+        return cb?.({ error: "User is not banned" });
+      }
+
+      // 4. Audit log success
+      await auditLog({
+        action: "LIFT_BAN",
+        actor: userId,
+        target: targetUserId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      console.log(`✅ ${userId} lifted the ban on ${targetUserId} in room ${roomId}`);
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("Error in lift-ban:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  /* =========================
+     MEDIASOUP
+  ========================= */
+
+  /* =========================
+     SESSION RESUMPTION
+     A new socket presenting the resume token from join-mediasoup-room takes
+     over the peer held during the disconnect grace period
+  ========================= */
+
+  socket.on("resume-session", async ({ roomId, resumeToken }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      const session = getResumableSession(resumeToken);
+      if (!session || session.roomId !== roomId || session.userId !== userId) {
+        return cb({ error: "Session expired - join the room again", expired: true });
+      }
+
+      const oldSocketId = session.socketId;
+      const pending = pendingDepartures.get(oldSocketId);
+      if (!pending?.roomIds.includes(roomId)) {
+        return cb({
+          error: "Session is still active on another connection",
+          expired: oldSocketId !== socket.id,
+        });
+      }
+
+      // 1. Stop the departure timer for this room
+      pending.roomIds = pending.roomIds.filter((id) => id !== roomId);
+      if (pending.roomIds.length === 0) {
+        clearTimeout(pending.timer);
+        pendingDepartures.delete(oldSocketId);
+      }
+
+      // 2. Move the held peer (transports, producers, consumers) to this socket
+      const peer = rebindPeer(roomId, oldSocketId, socket.id);
+      if (!peer) {
+        return cb({ error: "Session expired - join the room again", expired: true });
+      }
+
+      socket.join(roomId);
+      const newToken = rebindSession(resumeToken, socket.id);
+
+      // 3. Replay what happened while we were away
+      const missedEvents = getRoomEventsSince(roomId, pending.since, oldSocketId, userId);
+      missedEvents.forEach(({ event, payload }) => socket.emit(event, payload));
+
+      broadcastRoomEvent(
+        roomId,
+        "participant-reconnected",
+        { peerId: socket.id, previousPeerId: oldSocketId, userId },
+        socket.id
+      );
+
+      // Their peerId changed - participant-updated for everyone
+      await syncParticipants(roomId);
+
+      console.log(
+        `🔁 ${userId} resumed ${roomId} on ${socket.id} (was ${oldSocketId}), replayed ${missedEvents.length} events`
+      );
+
+      cb({
+        success: true,
+        resumeToken: newToken,
+        peerId: socket.id,
+        replayedEvents: missedEvents.length,
+        // Transports survived server-side; restart ICE on them or recreate if the page reloaded
+        transports: Array.from(peer.transports.values()).map((t) => ({
+          id: t.id,
+          direction: t.appData.direction,
+          iceState: t.iceState,
+          dtlsState: t.dtlsState,
+        })),
+        producers: Array.from(peer.producers.values()).map((p) => ({
+          id: p.id,
+          kind: p.kind,
+          paused: p.paused,
+          isScreenShare: p.appData?.share || p.appData?.isScreenShare || false,
+        })),
+        consumers: Array.from(peer.consumers.values()).map((c) => ({
+          id: c.id,
+          producerId: c.producerId,
+          kind: c.kind,
+          paused: c.paused,
+        })),
+      });
+    } catch (err: any) {
+      console.error("Error resuming session:", err);
+      cb({ error: err.message });
+    }
+  });
+
+  socket.on("get-rtp-capabilities", async ({ roomId }, cb) => {
+    try {
+      const remoteOwner = await getRemoteRoomOwner(roomId);
+      if (remoteOwner) {
+        return cb({ error: "Room is hosted on another server", redirect: remoteOwner });
+      }
+
+      const room = await getOrCreateRoom(roomId);
+      cb({ rtpCapabilities: room.router.rtpCapabilities });
+    } catch (err: any) {
+      console.error("Error getting RTP capabilities:", err);
+      cb({ error: err.message });
+    }
+  });
+
+  socket.on(
+    "join-mediasoup-room",
+    async (
+      { roomId, rtpCapabilities, userName, userImageUrl },
+      cb
+    ) => {
+      const userId = socket.data.userId;
+
+      try {
+        console.log(
+          `🔍 JOIN REQUEST - User: ${userName}, UserId: ${userId}, Image: ${userImageUrl}`
+        );
+
+        // ====== BAN ENFORCEMENT ======
+        const ban = await checkBan(userId, roomId);
+        if (ban.banned) {
+          console.warn(`🚫 Banned user ${userId} tried to join mediasoup room ${roomId}`);
+          return cb({
+            error: ban.reason || "You have been banned from this meeting",
+            banned: true,
+            expiresAt: ban.expiresAt,
+          });
+        }
+
+        // ====== SCHEDULE / JOIN WINDOW ======
+        const joinable = await checkMeetingJoinable(roomId, userId);
+        if (!joinable.ok) {
+          console.warn(`📅 ${userId} refused from ${roomId}: ${joinable.error}`);
+          return cb({
+            error: joinable.error,
+            cancelled: joinable.cancelled,
+            ended: joinable.ended,
+            joinWindowOpensAt: joinable.opensAt,
+          });
+        }
+
+        // ====== ROOM → NODE AFFINITY ======
+        const remoteOwner = await getRemoteRoomOwner(roomId);
+        if (remoteOwner) {
+          return cb({ error: "Room is hosted on another server", redirect: remoteOwner });
+        }
+
+        // Rejoining on a new socket while the old one is still in its grace period
+        await flushPendingDepartures(roomId, userId);
+
+        // ====== PREVENT DUPLICATE JOINS ======
+        const room = await getOrCreateRoom(roomId);
+        const existingPeer = room.peers.get(socket.id);
+
+        if (existingPeer) {
+          console.log(
+            `⚠️ ${userName} already joined - ignoring duplicate call`
+          );
+
+          // ✅ FIXED: Still return existing producers with full details including userId
+          const existingProducers: Array<{
+            producerId: string;
+            peerId: string;
+            userId: string;
+            userName: string;
+            kind: string;
+            isScreenShare: boolean;
+          }> = [];
+          for (const [peerId, peer] of room.peers) {
+            if (peerId !== socket.id && peer.userId) {
+              peer.producers.forEach((producer) => {
+                existingProducers.push({
+                  producerId: producer.id,
+                  peerId: peerId,
+                  userId: peer.userId!, // userId is guaranteed to exist
+                  userName: peer.name || "Unknown",
+                  kind: producer.kind,
+                  isScreenShare:
+                    producer.appData?.share ||
+                    producer.appData?.isScreenShare ||
+                    false,
+                });
+              });
+            }
+          }
+          console.log(`📡 Returning existing producers for duplicate join:`, existingProducers.length);
+          return cb({ success: true, existingProducers, alreadyJoined: true });
+        }
+
+        // ====== ROOM LOCK / LOBBY ======
+        if (await holdInLobbyIfLocked(socket, roomId, userId, userName, userImageUrl)) {
+          return cb({ success: false, waitingInLobby: true });
+        }
+
+        // ====== BREAKOUT HAND-OFF ======
+        // A socket is in one room of a meeting at a time: entering a breakout
+        // leaves the main room (or another breakout), returning does the reverse
+        for (const otherRoomId of await getBreakoutFamily(roomId)) {
+          if (otherRoomId === roomId || !getRoom(otherRoomId)?.peers.has(socket.id)) continue;
+          socket.leave(otherRoomId);
+          await finalizePeerDeparture(otherRoomId, socket.id, userId);
+        }
+
+        // ====== DATABASE PARTICIPANT STORAGE ======
+        if (userId && userName) {
+          try {
+            // Check if room exists in DB, if not create it
+            let dbRoom = await prisma.room.findUnique({
+              where: { id: roomId },
+            });
+
+            if (!dbRoom) {
+              // Room doesn't exist - create it
+              dbRoom = await prisma.room.create({
+                data: {
+                  id: roomId,
+                  creatorId: userId,
+                },
+              });
+              console.log(`🏠 Created DB room ${roomId} with creator ${userId}`);
+            }
+
+            // Check if user is already a participant in DB
+            let dbParticipant = await prisma.roomParticipant.findUnique({
+              where: {
+                roomId_userId: {
+                  roomId,
+                  userId,
+                },
+              },
+            });
+
+            // Breakouts take the user's role from the meeting, every time they join
+            const inheritedRole = dbRoom.parentRoomId
+              ? await getInheritedRole(dbRoom.parentRoomId, userId)
+              : null;
+
+            // Create or update participant in DB
+            if (!dbParticipant) {
+              const role =
+                inheritedRole ?? (userId === dbRoom.creatorId ? "HOST" : "PARTICIPANT");
+              dbParticipant = await prisma.roomParticipant.create({
+                data: {
+                  roomId,
+                  userId,
+                  name: userName,
+                  imageUrl: userImageUrl,
+                  role,
+                  isConnected: true,
+                  lastSeenAt: new Date(),
+                },
+              });
+              console.log(`✅ ${userName} joined as ${role} (NEW in DB)`);
+            } else {
+              // Update existing participant info and mark as connected
+              dbParticipant = await prisma.roomParticipant.update({
+                where: {
+                  roomId_userId: {
+                    roomId,
+                    userId,
+                  },
+                },
+                data: {
+                  name: userName,
+                  imageUrl: userImageUrl,
+                  ...(inheritedRole ? { role: inheritedRole } : {}),
+                  isConnected: true,
+                  lastSeenAt: new Date(),
+                },
+              });
+              console.log(`♻️ ${userName} rejoined (EXISTING in DB) - media state preserved`);
+            }
+          } catch (dbError) {
+            console.error("❌ Database error:", dbError);
+            // Continue with mediasoup even if DB fails
+          }
+        }
+
+        // ====== MEDIASOUP SETUP ======
+        socket.join(roomId);
+
+        // ====== HOST OWNERSHIP ENFORCEMENT ======
+        // RULE: The meeting creator (room.creatorId) is always HOST
+        // RULE: Other hosts only via make-host (persisted RoomParticipant.role)
+        // RULE: Never assign host based on join order
+        let shouldBeHost = false;
+        let shouldBeCoHost = false;
+
+        if (!userId) {
+          console.error("❌ Cannot join without userId - host status requires authentication");
+          return cb({ error: "userId is required" });
+        }
+
+        try {
+          const dbRoom = await prisma.room.findUnique({
+            where: { id: roomId },
+          });
+
+          if (!dbRoom) {
+            console.error("❌ Room not found in database:", roomId);
+            return cb({ error: "Room not found" });
+          }
+
+          const dbParticipant = await prisma.roomParticipant.findUnique({
             where: {
               roomId_userId: {
                 roomId,
                 userId,
               },
             },
-            data: {
-              name: userName,
-              imageUrl: userImageUrl,
-            },
           });
-          console.log(`♻️ ${userName} rejoined (EXISTING)`);
-        }
 
-        // ✅ Create or update in-memory peer with host status
-        const mediasoupRoom = await getOrCreateRoom(roomId);
-        const peer = {
-          socketId: socket.id,
-          userId: userId,
-          name: userName,
-          imageUrl: userImageUrl,
-          isHost: participant.role === "HOST",
-          isCoHost: participant.role === "COHOST",
-          producers: new Map(),
-          consumers: new Map(),
-          transports: new Map(),
-        };
+          // User is HOST if they are the room creator or were promoted with make-host
+          shouldBeHost = dbRoom.creatorId === userId || dbParticipant?.role === "HOST";
 
-        mediasoupRoom.peers.set(socket.id, peer);
+          // User is co-host if marked in DB (but not if they're the creator)
+          shouldBeCoHost = !shouldBeHost && dbParticipant?.role === "COHOST";
 
-        console.log(`👤 Peer added to room.peers:`, {
-          socketId: socket.id,
-          userId,
-          name: userName,
-          role: participant.role,
-          isHost: peer.isHost,
-          isCoHost: peer.isCoHost,
-        });
+          console.log(`🔍 Host check for ${userName}:`, {
+            userId,
+            creatorId: dbRoom.creatorId,
+            dbRole: dbParticipant?.role,
+            isCreator: dbRoom.creatorId === userId,
+            shouldBeHost,
+            shouldBeCoHost,
+          });
 
-        // Fetch all active (connected) participants
-        const participants = await prisma.roomParticipant.findMany({
-          where: { roomId, isConnected: true },
-        });
+          // ✅ CRITICAL: If this user is the creator, ensure they are marked as HOST in DB
+          if (dbRoom.creatorId === userId) {
+            await prisma.roomParticipant.update({
+              where: {
+                roomId_userId: {
+                  roomId,
+                  userId,
+                },
+              },
+              data: {
+                role: "HOST",
+              },
+            });
 
-        console.log(
-          `📋 Room ${roomId} has ${participants.length} participants`
-        );
+            console.log(`👑 ${userName} is the meeting creator - enforcing HOST status`);
+          }
+        } catch (err) {
+          console.error("❌ Error checking host status:", err);
+          return cb({ error: "Failed to verify host status" });
+        }
 
-        // Broadcast participant list to all in room
-        io.to(roomId).emit(
-          "participant-list-update",
-          participants.map((p) => ({
-            id: p.userId,
-            name: p.name,
-            imageUrl: p.imageUrl,
-            isAudioMuted: p.isAudioMuted,
-            isVideoPaused: p.isVideoPaused,
-            isHost: p.role === "HOST",
-            isCoHost: p.role === "COHOST",
-            audioLocked: p.audioLocked ?? false,
-            screenShareLocked: p.screenShareLocked ?? false,
-          }))
+        console.log(
+          `🎯 Final status - shouldBeHost: ${shouldBeHost}, shouldBeCoHost: ${shouldBeCoHost}`
         );
 
-        // Send chat history (last 150 messages to prevent memory issues)
-        const history = await prisma.message.findMany({
-          where: { roomId },
-          orderBy: { createdAt: "desc" },
-          take: 150,
-          include: {
-            reactions: true,
-            replyTo: {
-              select: {
-                id: true,
-                text: true,
-                senderName: true,
-              },
-            },
-          },
+        // ✅ CRITICAL: Create peer with user info from client
+        room.peers.set(socket.id, {
+          socketId: socket.id,
+          userId: userId, // Store userId for proper mapping
+          name: userName || "User " + socket.id.slice(0, 4),
+          imageUrl: userImageUrl || null,
+          isHost: shouldBeHost,
+          isCoHost: shouldBeCoHost,
+          router: await placePeer(room),
+          transports: new Map(),
+          producers: new Map(),
+          consumers: new Map(),
+          rtpCapabilities,
         });
 
-        // Reverse to get chronological order (oldest first)
-        const chronologicalHistory = history.reverse();
+        // ====== MEETING STATUS ======
+        // Only now - lobby waiters and refused joins don't start the meeting,
+        // and an ad-hoc room's DB row exists by this point
+        markMeetingLive(roomId).catch((err) =>
+          console.error(`Error marking meeting ${roomId} live:`, err)
+        );
 
-        socket.emit(
-          "chat-history",
-          chronologicalHistory.map((msg: any) => ({
-            socketId: "system",
-            message: {
-              id: msg.id,
-              text: msg.text,
-              createdAt: msg.createdAt.getTime(),
-              sender: {
-                id: msg.senderId,
-                name: msg.senderName,
-                avatarUrl: msg.senderAvatar,
-              },
-              pinned: msg.pinned,
-              replyTo: msg.replyTo
-                ? {
-                    id: msg.replyTo.id,
-                    text: msg.replyTo.text,
-                    senderName: msg.replyTo.senderName,
-                  }
-                : undefined,
-              reactions: msg.reactions.reduce((acc: any, r: any) => {
-                acc[r.emoji] ??= [];
-                acc[r.emoji].push(r.userId);
-                return acc;
-              }, {}),
-            },
+        // ✅ FIXED: Include peerId, userId and producer details for existing producers
+        // CRITICAL: Only include producers from peers with valid userId
+        const existingProducers: Array<{
+          producerId: string;
+          peerId: string;
+          userId: string;
+          userName: string;
+          kind: string;
+          isScreenShare: boolean;
+        }> = [];
+        for (const [peerId, peer] of room.peers) {
+          if (peerId !== socket.id && peer.userId) {
+            peer.producers.forEach((producer) => {
+              existingProducers.push({
+                producerId: producer.id,
+                peerId: peerId,
+                userId: peer.userId!, // userId is guaranteed to exist
+                userName: peer.name || "Unknown",
+                kind: producer.kind,
+                isScreenShare:
+                  producer.appData?.share ||
+                  producer.appData?.isScreenShare ||
+                  false,
+              });
+            });
+          }
+        }
+
+        console.log(`📡 Sending ${existingProducers.length} existing producers to ${userName}:`,
+          existingProducers.map(p => ({
+            kind: p.kind,
+            userId: p.userId,
+            isScreenShare: p.isScreenShare
           }))
         );
 
-        console.log(
-          `💬 Sent ${chronologicalHistory.length} chat messages to ${userName}`
-        );
-      } catch (err) {
-        console.error("Error in join-room:", err);
-        socket.emit("chat-history", []);
-      }
-    }
-  );
+        // ✅ Diff events to the room; the joiner gets the full snapshot in cb
+        const participants = await getParticipantSnapshot(roomId);
+        console.log(
+          `📋 Room ${roomId} has ${participants.participants.length} participants (v${participants.version})`
+        );
+
+        // ✅ Notify other peers that a new consumer is ready
+        // They should prepare to send their producers to this new peer
+        socket.to(roomId).emit("new-peer-joined", {
+          peerId: socket.id,
+          userId: userId,
+          name: userName,
+          imageUrl: userImageUrl,
+          isHost: shouldBeHost,
+          isCoHost: shouldBeCoHost,
+        });
+
+        console.log(`📢 Notified existing peers that ${userName} (${userId}) joined`);
 
-  /* =========================
-     EXPLICIT CHAT HISTORY REQUEST
-     (For late joins, refreshes, or when initial join-room was missed)
-  ========================= */
+        console.log(`🎧 Mediasoup ready for ${socket.id} in ${roomId}`);
 
-  socket.on("request-chat-history", async ({ roomId }: { roomId: string }) => {
-    try {
-      console.log(`💬 Explicit chat history request for room ${roomId}`);
+        // ✅ Send current screen share permission state to joining participant
+        socket.emit("screenshare-global-update", {
+          enabled: room.screenShareEnabled,
+          by: "System",
+        });
 
-      if (!roomId) {
-        console.error("❌ No roomId provided for chat history request");
-        socket.emit("chat-history", []);
-        return;
-      }
+        // ✅ Hosts/co-hosts joining a locked room see who is already waiting
+        if ((shouldBeHost || shouldBeCoHost) && getLobby(roomId).waiting.size > 0) {
+          emitLobbyUpdate(roomId);
+        }
 
-      // Fetch last 150 messages
-      const history = await prisma.message.findMany({
-        where: { roomId },
-        orderBy: { createdAt: "desc" },
-        take: 150,
-        include: {
-          reactions: true,
-          replyTo: {
-            select: {
-              id: true,
-              text: true,
-              senderName: true,
-            },
-          },
-        },
-      });
+        // ✅ Send current user's status in callback
+        const currentPeer = room.peers.get(socket.id);
+        console.log(`📤 Sending join response with status:`, {
+          userId: currentPeer?.userId,
+          isHost: currentPeer?.isHost,
+          isCoHost: currentPeer?.isCoHost,
+        });
 
-      // Reverse to get chronological order (oldest first)
-      const chronologicalHistory = history.reverse();
+        // ✅ CRITICAL FIX: Only send media state for REJOINS, not first-time joins
+        // This respects user's current choice to join with media off
+        let mediaState = undefined;
 
-      socket.emit(
-        "chat-history",
-        chronologicalHistory.map((msg: any) => ({
-          socketId: "system",
-          message: {
-            id: msg.id,
-            text: msg.text,
-            createdAt: msg.createdAt.getTime(),
-            sender: {
-              id: msg.senderId,
-              name: msg.senderName,
-              avatarUrl: msg.senderAvatar,
+        try {
+          const dbParticipant = await prisma.roomParticipant.findUnique({
+            where: {
+              roomId_userId: {
+                roomId,
+                userId,
+              },
             },
-            pinned: msg.pinned,
-            replyTo: msg.replyTo
-              ? {
-                  id: msg.replyTo.id,
-                  text: msg.replyTo.text,
-                  senderName: msg.replyTo.senderName,
-                }
-              : undefined,
-            reactions: msg.reactions.reduce((acc: any, r: any) => {
-              acc[r.emoji] ??= [];
-              acc[r.emoji].push(r.userId);
-              return acc;
-            }, {}),
-          },
-        }))
-      );
+          });
 
-      console.log(
-        `✅ Sent ${chronologicalHistory.length} chat messages via explicit request`
-      );
-    } catch (err) {
-      console.error("Error fetching chat history:", err);
-      socket.emit("chat-history", []);
+          // ONLY send media state if participant exists AND was previously connected
+          // This means they're REJOINING after a disconnect, so restore their state
+          if (dbParticipant && dbParticipant.isConnected === false) {
+            mediaState = {
+              isAudioMuted: dbParticipant.isAudioMuted,
+              isVideoPaused: dbParticipant.isVideoPaused,
+              audioLocked: dbParticipant.audioLocked ?? false,
+              screenShareLocked: dbParticipant.screenShareLocked ?? false,
+            };
+            console.log(`📊 Rejoining user - sending persisted media state to ${userName}:`, mediaState);
+          } else {
+            console.log(`🆕 First-time join - letting ${userName} use their current preference (no backend state)`);
+          }
+        } catch (err) {
+          console.error("❌ Error fetching media state:", err);
+        }
+
+        cb({
+          success: true,
+          existingProducers,
+          isHost: currentPeer?.isHost || false,
+          isCoHost: currentPeer?.isCoHost || false,
+          isLocked: room.locked,
+          isRecording: Boolean(getRecordingSession(roomId)),
+          mediaState, // ✅ Only defined for rejoins, undefined for first joins
+          participants, // { version, participants } - apply participant-* events newer than this
+          resumeToken: issueResumeToken(roomId, userId, socket.id), // For resume-session after a drop
+        });
+      } catch (err: any) {
+        console.error("Error joining mediasoup room:", err);
+        cb({ error: err.message });
+      }
     }
-  });
+  );
 
-  socket.on("send-message", async ({ roomId, message }) => {
+  socket.on("create-webrtc-transport", async ({ roomId, direction }, cb) => {
     try {
-      // Save to database FIRST to ensure persistence
-      await prisma.message.create({
-        data: {
-          id: message.id,
-          roomId,
-          text: message.text,
-          senderId: message.sender.id,
-          senderName: message.sender.name,
-          senderAvatar: message.sender.avatarUrl,
-          createdAt: new Date(message.createdAt),
-          replyToId: message.replyTo?.id,
-        },
-      });
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
 
-      // Broadcast to room AFTER successful save
-      io.to(roomId).emit("receive-message", {
-        socketId: socket.id,
-        message,
-      });
+      if (!peer) {
+        console.error(
+          `❌ Peer not found for ${socket.id} - did you call join-mediasoup-room?`
+        );
+        return cb({ error: "Peer not found. Call join-mediasoup-room first." });
+      }
 
-      console.log(`💬 Message saved and broadcast in room ${roomId}`);
-    } catch (error) {
-      console.error("❌ Failed to save message:", error);
+      // 🎭 Viewers are receive-only - no send transport at all
+      if (direction === "send" && peer.userId) {
+        const role = await getParticipantRole(peer.userId, roomId);
+        if (role === "VIEWER") {
+          console.warn(`🎭 Send transport denied for viewer ${peer.userId}`);
+          return cb({ error: "Viewers cannot publish media", role });
+        }
+      }
 
-      // Notify sender of failure
-      socket.emit("message-error", {
-        messageId: message.id,
-        error: "Failed to save message. Please try again.",
-      });
-    }
-  });
+      const transport = await createWebRtcTransport(peer.router);
+      transport.appData.direction = direction;
+      transport.appData.socketId = socket.id;
+      peer.transports.set(transport.id, transport);
 
-  /* =========================
-     CHAT TYPING INDICATORS
-  ========================= */
+      // Track transport state changes - a transport stuck in "disconnected"
+      // (network change) gets a push suggesting the client restart ICE
+      let stallTimer: NodeJS.Timeout | undefined;
+      const reportStall = () => {
+        // appData.socketId follows the peer across resume-session
+        io.to(transport.appData.socketId as string).emit("transport-stalled", {
+          roomId,
+          transportId: transport.id,
+          direction,
+          iceState: transport.iceState,
+          dtlsState: transport.dtlsState,
+          suggestion: "restart-ice",
+        });
+      };
 
-  socket.on("typing-start", ({ roomId, name }) => {
-    socket.to(roomId).emit("typing-start", {
-      socketId: socket.id,
-      name,
-    });
-  });
+      transport.on("icestatechange", (iceState) => {
+        console.log(`🧊 Transport ${transport.id} ICE state: ${iceState}`);
+        clearTimeout(stallTimer);
+        if (iceState === "disconnected") {
+          stallTimer = setTimeout(() => {
+            if (!transport.closed && transport.iceState === "disconnected") {
+              console.warn(`⚠️ Transport ${transport.id} stalled, suggesting ICE restart`);
+              reportStall();
+            }
+          }, TRANSPORT_STALL_MS);
+        }
+      });
 
-  socket.on("typing-stop", ({ roomId }) => {
-    socket.to(roomId).emit("typing-stop", {
-      socketId: socket.id,
-    });
-  });
+      transport.on("dtlsstatechange", (dtlsState) => {
+        console.log(`🔐 Transport ${transport.id} DTLS state: ${dtlsState}`);
+        if (dtlsState === "failed") {
+          console.error(`❌ Transport ${transport.id} connection failed!`);
+          reportStall();
+        }
+      });
 
-  /* =========================
-     CHAT MESSAGE REACTIONS
-  ========================= */
+      transport.observer.once("close", () => clearTimeout(stallTimer));
 
-  socket.on("message-react", async ({ roomId, messageId, emoji, userId }) => {
-    try {
-      // Check if reaction already exists
-      const existing = await prisma.reaction.findUnique({
-        where: {
-          messageId_userId: {
-            messageId,
-            userId,
-          },
-        },
-      });
+      console.log(
+        `✅ ${direction} transport created: ${transport.id} for ${socket.id}`
+      );
 
-      if (existing) {
-        // Update to new emoji if different, or remove if same
-        if (existing.emoji === emoji) {
-          await prisma.reaction.delete({
-            where: { id: existing.id },
-          });
-          io.to(roomId).emit("message-react-update", {
-            messageId,
-            userId,
-            emoji,
-            action: "removed",
-          });
-        } else {
-          await prisma.reaction.update({
-            where: { id: existing.id },
-            data: { emoji },
-          });
-          io.to(roomId).emit("message-react-update", {
-            messageId,
-            userId,
-            emoji,
-            action: "updated",
-          });
-        }
-      } else {
-        // Create new reaction
-        await prisma.reaction.create({
-          data: {
-            messageId,
-            userId,
-            emoji,
-          },
-        });
-        io.to(roomId).emit("message-react-update", {
-          messageId,
-          userId,
-          emoji,
-          action: "added",
-        });
-      }
-    } catch (err) {
-      console.error("Error in message-react:", err);
+      cb({
+        params: {
+          id: transport.id,
+          iceParameters: transport.iceParameters,
+          iceCandidates: transport.iceCandidates,
+          dtlsParameters: transport.dtlsParameters,
+          // Pass to device.createSendTransport/createRecvTransport({ iceServers })
+          iceServers: issueTurnCredentials(socket.data.userId, roomId).iceServers,
+        },
+      });
+    } catch (err: any) {
+      console.error("Error creating transport:", err);
+      cb({ error: err.message });
     }
   });
 
-  /* =========================
-     PIN MESSAGE
-  ========================= */
-
-  socket.on("pin-message", async ({ roomId, messageId, pinned }) => {
+  // New ICE credentials after a network change; the client then calls
+  // transport.restartIce({ iceParameters })
+  socket.on("restart-ice", async ({ roomId, transportId }, cb) => {
     try {
-      // Unpin all other messages in this room first
-      await prisma.message.updateMany({
-        where: { roomId },
-        data: { pinned: false },
-      });
+      const transport = getRoom(roomId)?.peers.get(socket.id)?.transports.get(transportId);
 
-      // Pin/unpin the target message
-      await prisma.message.update({
-        where: { id: messageId },
-        data: { pinned },
-      });
+      if (!transport || transport.closed) {
+        return cb({ error: "Transport not found" });
+      }
 
-      // Broadcast to all participants
-      io.to(roomId).emit("pin-message-update", {
-        messageId,
-        pinned,
+      const iceParameters = await transport.restartIce();
+      console.log(`🧊 ICE restarted for transport ${transportId} (${socket.id})`);
+
+      cb({
+        iceParameters,
+        // Credentials may have expired since the transport was created
+        iceServers: issueTurnCredentials(socket.data.userId, roomId).iceServers,
       });
-    } catch (err) {
-      console.error("Error in pin-message:", err);
+    } catch (err: any) {
+      console.error("Error restarting ICE:", err);
+      cb({ error: err.message });
     }
   });
 
-  /* =========================
-     VIDEO CALL REACTIONS (Synchronized Floating Particles)
-  ========================= */
-
-  socket.on("video-reaction", ({ roomId, emoji, sessionId, userId, userName }) => {
-    console.log(`🎉 Video reaction from ${userName}:`, { emoji, sessionId });
+  // Refresh TURN credentials before they expire (ttl/expiresAt in the response)
+  socket.on("get-turn-credentials", async ({ roomId }, cb) => {
+    try {
+      const room = getRoom(roomId);
+      if (!room?.peers.has(socket.id)) {
+        return cb?.({ error: "Join the room before requesting TURN credentials" });
+      }
 
-    // Broadcast to all OTHER participants in the room
-    socket.to(roomId).emit("receive-video-reaction", {
-      emoji,
-      sessionId,
-      userId,
-      userName,
-    });
+      cb?.({ success: true, ...issueTurnCredentials(socket.data.userId, roomId) });
+    } catch (err: any) {
+      console.error("Error issuing TURN credentials:", err);
+      cb?.({ error: err.message });
+    }
   });
 
+  socket.on(
+    "connect-transport",
+    async ({ roomId, transportId, dtlsParameters }, cb) => {
+      try {
+        const room = await getOrCreateRoom(roomId);
+        const peer = room.peers.get(socket.id);
+        const transport = peer?.transports.get(transportId);
+
+        if (!transport) {
+          console.error(
+            `❌ Transport ${transportId} not found for ${socket.id}`
+          );
+          return cb({ error: "Transport not found" });
+        }
+        if (transport.closed) {
+          console.error(`❌ Transport ${transportId} already closed`);
+          return cb({ error: "Transport already closed" });
+        }
+
+        await transport.connect({ dtlsParameters });
+        console.log(
+          `✅ Transport ${transportId} connected (${transport.appData.direction})`
+        );
+        cb({ success: true });
+      } catch (err: any) {
+        console.error("Error connecting transport:", err);
+        cb({ error: err.message });
+      }
+    }
+  );
+
   /* =========================
-     PARTICIPANT STATE SYNC
+     PRODUCE
   ========================= */
 
   socket.on(
-    "update-my-state",
-    async ({ roomId, userId, isAudioMuted, isVideoPaused }: any) => {
+    "produce",
+    async ({ roomId, transportId, kind, rtpParameters, appData }, cb) => {
       try {
-        if (!roomId || !userId) {
-          console.error("❌ Missing roomId or userId in update-my-state:", {
-            roomId,
-            userId,
-            isAudioMuted,
-            isVideoPaused,
-            socketId: socket.id,
-          });
-          return;
+        const room = await getOrCreateRoom(roomId);
+        const peer = room.peers.get(socket.id);
+        const transport = peer?.transports.get(transportId);
+
+        if (kind !== "audio" && kind !== "video") {
+          console.error(`❌ Invalid kind: ${kind}`);
+          return cb({ error: "Only audio and video are allowed" });
         }
 
-        console.log(`🔄 State update from ${userId}:`, {
-          isAudioMuted,
-          isVideoPaused,
-        });
+        if (!transport) {
+          console.error(`❌ No transport found for ${transportId}`);
+          return cb({ error: "No transport" });
+        }
+        if (transport.closed) {
+          console.error(`❌ Transport ${transportId} is closed`);
+          return cb({ error: "Transport closed" });
+        }
+        if (!peer) {
+          console.error(`❌ Peer ${socket.id} not found`);
+          return cb({ error: "Peer not found" });
+        }
 
-        // Build update data object with only defined values
-        const updateData: any = {};
-        if (isAudioMuted !== undefined && isAudioMuted !== null) {
-          updateData.isAudioMuted = isAudioMuted;
+        // ✅ LOCK VALIDATION: Check if user is allowed to produce based on locks
+        const userId = socket.data.userId;
+        const requestingScreenShare = appData?.share || false;
+
+        // 🎭 Role check - viewers publish nothing, interpreters audio only
+        const role = userId ? await getParticipantRole(userId, roomId) : null;
+        const roleCheck = canProduceWithRole(role, kind, Boolean(requestingScreenShare));
+        if (!roleCheck.allowed) {
+          console.warn(`🎭 Producer denied for ${socket.id} (${role}) - ${roleCheck.reason}`);
+          socket.emit("produce-denied", { kind, reason: roleCheck.reason });
+          return cb({ error: `Your role (${role}) cannot publish this media` });
         }
-        if (isVideoPaused !== undefined && isVideoPaused !== null) {
-          updateData.isVideoPaused = isVideoPaused;
+
+        // Check audio lock
+        if (kind === "audio" && userId) {
+          const canUnmuteResult = await canUnmute(userId, roomId);
+          if (!canUnmuteResult.allowed) {
+            console.warn(
+              `🔒 Audio producer denied for ${socket.id} - ${canUnmuteResult.reason}`
+            );
+            socket.emit("audio-locked", {
+              reason: "You have been muted by the host and cannot unmute yourself",
+            });
+            return cb({ error: "Audio is locked by host" });
+          }
         }
 
-        // Only update if there's data to update
-        if (Object.keys(updateData).length > 0) {
-          await prisma.roomParticipant.update({
-            where: {
-              roomId_userId: {
-                roomId,
-                userId,
-              },
-            },
-            data: updateData,
-          });
+        // Check screen share lock
+        if (requestingScreenShare && userId) {
+          const canShareResult = await canStartScreenShare(userId, roomId);
+          if (!canShareResult.allowed) {
+            console.warn(
+              `🔒 Screen share denied for ${socket.id} - ${canShareResult.reason}`
+            );
+            socket.emit("screenshare-denied", {
+              reason: "Screen sharing has been disabled by the host",
+            });
+            return cb({ error: "Screen sharing is locked by host" });
+          }
+        }
 
-          // Broadcast to all OTHER participants in the room
-          socket.to(roomId).emit("participant-state-changed", {
-            userId,
-            isAudioMuted,
-            isVideoPaused,
+        // Check if screen sharing is globally disabled (presenters are exempt)
+        if (requestingScreenShare && !room.screenShareEnabled && role !== "PRESENTER") {
+          console.warn(
+            `⛔ Screen share denied for ${socket.id} - disabled by host`
+          );
+          socket.emit("screenshare-denied", {
+            reason: "Screen sharing is currently disabled by the host",
           });
+          return cb({ error: "Screen sharing is disabled" });
+        }
 
-          console.log(`✅ State broadcast to room ${roomId}:`, {
-            userId,
-            isAudioMuted,
-            isVideoPaused,
-          });
+        // ✅ Store screen share metadata in producer's appData
+        const producerAppData = {
+          ...appData,
+          media: kind,
+          share: appData?.share || false,
+          isScreenShare: appData?.share || false,
+          userId: peer.userId, // Lets speaker observers name who is talking
+          isInterpretation: role === "INTERPRETER", // Clients route this as an interpretation channel
+        };
+
+        const producer = await transport.produce({
+          kind,
+          rtpParameters,
+          appData: producerAppData,
+        });
+
+        peer.producers.set(producer.id, producer);
+
+        // ✅ Handle producer close event
+        producer.on("transportclose", () => {
+          console.log(`🔌 Producer ${producer.id} transport closed`);
+          peer.producers.delete(producer.id);
+        });
+
+        // Track producer lifecycle
+        producer.on("score", (score) => {
+          if (score.length > 0 && score[0].score < 5) {
+            console.warn(
+              `⚠️ Producer ${producer.id} low quality score:`,
+              score[0].score
+            );
+          }
+        });
+
+        // Track producer score (quality)
+        producer.on("score", (score) => {
+          console.log(`📊 Producer ${producer.id} score:`, score);
+        });
+
+        const isScreenShare =
+          producer.appData?.share || producer.appData?.isScreenShare || false;
+        const emoji = kind === "audio" ? "🎤" : isScreenShare ? "🖥️" : "📹";
+
+        console.log(
+          `${emoji} ${kind} producer ${producer.id} created by ${socket.id}${
+            isScreenShare ? " (screen share)" : ""
+          }`
+        );
+
+        // ✅ CRITICAL: Include peerId, userId and screen share info
+        // MUST have userId - cannot fallback to socket.id as it breaks client mapping
+        if (!peer.userId) {
+          console.error("❌ Cannot emit new-producer without userId");
+          return cb({ error: "User identification required" });
         }
-      } catch (err) {
-        console.error("Error in update-my-state:", err);
+
+        const producerEvent = {
+          producerId: producer.id,
+          peerId: socket.id,
+          userId: peer.userId,
+          userName: peer.name || "Unknown",
+          kind,
+          isScreenShare,
+          isInterpretation: role === "INTERPRETER",
+        };
+        console.log("📡 Emitting new-producer:", producerEvent);
+        broadcastRoomEvent(roomId, "new-producer", producerEvent, socket.id);
+
+        // 🗣️ Feed microphones to active speaker / audio level detection
+        if (kind === "audio") {
+          observeAudio(room, producer.id).catch((err) =>
+            console.error(`Error observing audio producer ${producer.id}:`, err)
+          );
+        }
+
+        // ⏺️ Joined mid-recording - add this track to the recording
+        if (getRecordingSession(roomId)) {
+          addProducerToRecording(roomId, producer, peer).catch((err) =>
+            console.error(`Error adding producer ${producer.id} to recording:`, err)
+          );
+        }
+
+        cb({ id: producer.id });
+      } catch (err: any) {
+        console.error("❌ Error producing:", err);
+        cb({ error: err.message });
       }
     }
   );
 
   /* =========================
-     ROOM CONTROLS (HOST ONLY)
+     CONSUME (ENHANCED WITH DEBUG)
   ========================= */
-
-  socket.on("mute-all-participants", async ({ roomId, userId }: any) => {
+  socket.on("consume", async ({ roomId, producerId, rtpCapabilities }, cb) => {
     try {
-      // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
-        await auditLog({
-          action: "GLOBAL_MUTE",
-          actor: userId,
-          roomId,
-          result: "DENIED",
-          reason: "RATE_LIMIT_EXCEEDED",
-          timestamp: new Date(),
-        });
-        return;
+      console.log("🔍 Consume request:", {
+        roomId,
+        producerId,
+        fromSocket: socket.id,
+        hasRtpCapabilities: !!rtpCapabilities,
+      });
+
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
+
+      if (!peer) {
+        console.error(`❌ Peer not found for socket ${socket.id}`);
+        return cb({ error: "Peer not found" });
       }
 
-      // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_MUTE");
+      // ✅ Find the transport meant for receiving
+      const transport = Array.from(peer.transports.values()).find(
+        (t) => t.appData.direction === "recv"
+      );
 
-      if (!permissionResult.allowed) {
-        if (permissionResult.shouldAuditLog) {
-          await auditLog({
-            action: "GLOBAL_MUTE",
-            actor: userId,
-            roomId,
-            result: "DENIED",
-            reason: permissionResult.reason || "UNAUTHORIZED",
-            timestamp: new Date(),
+      if (!transport) {
+        console.error(`❌ No receive transport found for ${socket.id}`);
+        console.log(
+          "Available transports:",
+          Array.from(peer.transports.values()).map((t) => ({
+            id: t.id,
+            direction: t.appData.direction,
+          }))
+        );
+        return cb({ error: "No receive transport found" });
+      }
+
+      // ✅ Ensure transport is connected (not closed)
+      if (transport.closed) {
+        console.error(`❌ Receive transport ${transport.id} is closed`);
+        return cb({ error: "Receive transport is closed" });
+      }
+
+      console.log(`✅ Using recv transport: ${transport.id} (connected: ${transport.dtlsState === 'connected' || transport.iceState === 'connected'})`);
+
+      // ✅ Find the producer's peer ID and producer details
+      let producerPeerId = "";
+      let producer = null;
+      for (const [peerId, p] of room.peers) {
+        if (p.producers.has(producerId)) {
+          producerPeerId = peerId;
+          producer = p.producers.get(producerId);
+          console.log("✅ Found producer:", {
+            producerId: producer.id,
+            kind: producer.kind,
+            peerId: producerPeerId,
           });
+          break;
         }
-        console.log(`❌ ${userId} unauthorized for global mute: ${permissionResult.reason}`);
-        return;
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
+      if (!producer) {
+        console.error(`❌ Producer ${producerId} not found`);
+        console.log(
+          "📋 Available producers:",
+          Array.from(room.peers.entries()).map(([pid, p]) => ({
+            peerId: pid,
+            producers: Array.from(p.producers.keys()),
+          }))
+        );
+        return cb({ error: "Producer not found" });
+      }
+
+      // Producer may live on another worker's router - pipe it over first
+      await ensureProducerOnRouter(room, producerId, peer.router);
+
+      // Check if router can consume
+      const canConsume = peer.router.canConsume({
+        producerId,
+        rtpCapabilities,
       });
 
-      if (!requester) return;
+      if (!canConsume) {
+        console.error(`❌ Cannot consume - RTP capabilities mismatch`);
+        console.log(
+          "Producer codec:",
+          producer.rtpParameters?.codecs?.[0]?.mimeType
+        );
+        return cb({ error: "Cannot consume - incompatible codecs" });
+      }
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts) 🔥 CRITICAL FIX
-      const participants = await getGlobalActionTargets(roomId);
+      console.log("✅ Can consume producer");
 
-      // 5. Update database - ONLY participants, set audioLocked = true
-      await prisma.roomParticipant.updateMany({
-        where: {
-          roomId,
-          role: "PARTICIPANT", // 🔥 Only target participants
-        },
-        data: {
-          isAudioMuted: true,
-          audioLocked: true, // 🔒 Lock so they cannot unmute themselves
+      // Create consumer (owner + screen share flag drive last-N forwarding)
+      const consumer = await transport.consume({
+        producerId,
+        rtpCapabilities,
+        paused: true,
+        appData: {
+          producerUserId: room.peers.get(producerPeerId)?.userId,
+          isScreenShare: Boolean(
+            producer.appData?.share || producer.appData?.isScreenShare
+          ),
         },
       });
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+      peer.consumers.set(consumer.id, consumer);
 
-      // 7. Emit force-mute to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+      // 📶 Simulcast/SVC: auto-cap layers on low score or tight bandwidth
+      manageConsumerQuality(consumer, transport, () =>
+        Array.from(peer.consumers.values())
+      );
 
-        if (targetSocket) {
-          targetSocket.emit("force-mute", {
-            audio: true,
-            by: requester.name,
-            locked: true,
-          });
-        }
-      }
+      // Track consumer events
+      consumer.on("transportclose", () => {
+        console.log(`🔌 Consumer ${consumer.id} transport closed`);
+        peer.consumers.delete(consumer.id);
+      });
 
-      // 8. Send updated participant list to all (more efficient than individual state-changed events)
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
+      consumer.on("producerclose", () => {
+        console.log(`❌ Consumer ${consumer.id} producer closed`);
+        peer.consumers.delete(consumer.id);
       });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
 
-      // 9. Audit log success
-      await auditLog({
-        action: "GLOBAL_MUTE",
-        actor: userId,
-        roomId,
-        result: "ALLOWED",
-        timestamp: new Date(),
+      consumer.on("score", (score) => {
+        console.log(`📊 Consumer ${consumer.id} score:`, score);
       });
 
-      console.log(`🔇 ${requester.name} (${requester.role}) muted all PARTICIPANTS in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in mute-all-participants:", err);
+      console.log(
+        `✅ Consumer created: ${consumer.id} for producer ${producerId} (${consumer.kind}) from peer ${producerPeerId}`
+      );
+
+      // ✅ CRITICAL: Include userId and screen share flag so client knows whose stream this is
+      const producerPeer = room.peers.get(producerPeerId);
+
+      if (!producerPeer?.userId) {
+        console.error(`❌ Cannot consume - producer peer ${producerPeerId} has no userId`);
+        return cb({ error: "Producer peer has no user identification" });
+      }
+
+      const response = {
+        producerId,
+        id: consumer.id,
+        kind: consumer.kind,
+        rtpParameters: consumer.rtpParameters,
+        type: consumer.type,
+        producerPaused: consumer.producerPaused,
+        peerId: producerPeerId,
+        userId: producerPeer.userId, // ALWAYS valid - no fallback
+        userName: producerPeer.name || "Unknown",
+        producerSocketId: producerPeerId,
+        isScreenShare:
+          producer.appData?.share || producer.appData?.isScreenShare || false,
+        appData: producer.appData,
+        // 🎞️ Outside this peer's last-N - resume-consumer will keep it paused
+        lastNPaused: !isForwardingAllowed(roomId, room, peer, consumer),
+      };
+
+      console.log("📤 Consumer response:", {
+        consumerId: response.id,
+        kind: response.kind,
+        userId: response.userId,
+        userName: response.userName,
+        peerId: response.peerId,
+        isScreenShare: response.isScreenShare,
+      });
+      cb(response);
+    } catch (err: any) {
+      console.error("❌ Error in consume:", err);
+      cb({ error: err.message });
     }
   });
 
-  socket.on("unmute-all-participants", async ({ roomId, userId }: any) => {
+  socket.on("resume-consumer", async ({ roomId, consumerId }, cb) => {
     try {
-      // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
-        await auditLog({
-          action: "GLOBAL_UNMUTE",
-          actor: userId,
-          roomId,
-          result: "DENIED",
-          reason: "RATE_LIMIT_EXCEEDED",
-          timestamp: new Date(),
-        });
-        return;
+      console.log(
+        `▶️ Resume consumer request for ${consumerId} from ${socket.id}`
+      );
+
+      const room = await getOrCreateRoom(roomId);
+      const consumer = room.peers.get(socket.id)?.consumers.get(consumerId);
+
+      if (!consumer) {
+        console.error(`❌ Consumer ${consumerId} not found for ${socket.id}`);
+        return cb?.({ error: "Consumer not found" });
+      }
+      if (consumer.closed) {
+        console.error(`❌ Consumer ${consumerId} already closed`);
+        return cb?.({ error: "Consumer closed" });
       }
 
-      // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_UNMUTE");
+      consumer.appData.clientResumed = true;
 
-      if (!permissionResult.allowed) {
-        if (permissionResult.shouldAuditLog) {
-          await auditLog({
-            action: "GLOBAL_UNMUTE",
-            actor: userId,
-            roomId,
-            result: "DENIED",
-            reason: permissionResult.reason || "UNAUTHORIZED",
-            timestamp: new Date(),
-          });
-        }
-        console.log(`❌ ${userId} unauthorized for global unmute: ${permissionResult.reason}`);
-        return;
+      // 🎞️ Held back by last-N - it resumes once the owner enters the last-N
+      const peer = room.peers.get(socket.id)!;
+      if (!isForwardingAllowed(roomId, room, peer, consumer)) {
+        consumer.appData.lastNPaused = true;
+        console.log(`🎞️ Consumer ${consumerId} held back by last-N`);
+        return cb?.({ success: true, lastNPaused: true });
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
-      });
+      await consumer.resume();
+      console.log(
+        `✅ Consumer ${consumerId} resumed successfully (kind: ${consumer.kind})`
+      );
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error resuming consumer:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      if (!requester) return;
+  /* =========================
+     LAST-N VIDEO
+  ========================= */
+
+  // Which participants are on screen (userIds) and which are pinned.
+  // Omit userIds to make everyone a candidate again.
+  socket.on(
+    "set-visible-peers",
+    async ({ roomId, userIds, pinnedUserIds }, cb) => {
+      try {
+        const room = getRoom(roomId);
+        const peer = room?.peers.get(socket.id);
+
+        if (!room || !peer) {
+          return cb?.({ error: "Not in this room" });
+        }
+        if (
+          (userIds !== undefined && !Array.isArray(userIds)) ||
+          (pinnedUserIds !== undefined && !Array.isArray(pinnedUserIds))
+        ) {
+          return cb?.({ error: "userIds and pinnedUserIds must be arrays" });
+        }
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts)
-      const participants = await getGlobalActionTargets(roomId);
+        peer.visibleUserIds = userIds ? new Set<string>(userIds) : undefined;
+        peer.pinnedUserIds = new Set<string>(pinnedUserIds || []);
 
-      // 5. Update database - ONLY participants, clear audioLocked
-      await prisma.roomParticipant.updateMany({
-        where: {
-          roomId,
-          role: "PARTICIPANT",
-        },
-        data: {
-          isAudioMuted: false,
-          audioLocked: false, // 🔓 Unlock so they can control their audio
-        },
-      });
+        const state = await applyLastN(roomId, room, peer);
+        cb?.({ success: true, forwarding: state.forwarding, paused: state.paused });
+      } catch (err: any) {
+        console.error("❌ Error setting visible peers:", err);
+        cb?.({ error: err.message });
+      }
+    }
+  );
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+  /* =========================
+     CONSUMER QUALITY
+  ========================= */
 
-      // 7. Emit allow-unmute to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+  // Preferred simulcast/SVC layers, e.g. spatialLayer 0 for a thumbnail
+  socket.on(
+    "set-consumer-preferred-layers",
+    async ({ roomId, consumerId, spatialLayer, temporalLayer }, cb) => {
+      try {
+        const consumer = getRoom(roomId)?.peers.get(socket.id)?.consumers.get(consumerId);
 
-        if (targetSocket) {
-          targetSocket.emit("allow-unmute", {
-            by: requester.name,
-            locked: false,
-          });
+        if (!consumer || consumer.closed) {
+          return cb?.({ error: "Consumer not found" });
         }
+
+        const layers = await setRequestedLayers(consumer, { spatialLayer, temporalLayer });
+        console.log(
+          `🎚️ Consumer ${consumerId} layers requested ${spatialLayer}/${temporalLayer}, effective ${layers.effective?.spatialLayer}/${layers.effective?.temporalLayer}`
+        );
+        cb?.({ success: true, ...layers });
+      } catch (err: any) {
+        console.error("Error setting preferred layers:", err);
+        cb?.({ error: err.message });
       }
+    }
+  );
 
-      // 8. Send updated participant list to all
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+  // Bandwidth share when the downlink is constrained (1-255, higher wins)
+  socket.on("set-consumer-priority", async ({ roomId, consumerId, priority }, cb) => {
+    try {
+      const consumer = getRoom(roomId)?.peers.get(socket.id)?.consumers.get(consumerId);
 
-      // 9. Audit log success
-      await auditLog({
-        action: "GLOBAL_UNMUTE",
-        actor: userId,
-        roomId,
-        result: "ALLOWED",
-        timestamp: new Date(),
-      });
+      if (!consumer || consumer.closed) {
+        return cb?.({ error: "Consumer not found" });
+      }
+      if (!Number.isInteger(priority) || priority < 1 || priority > 255) {
+        return cb?.({ error: "priority must be an integer between 1 and 255" });
+      }
 
-      console.log(`🔊 ${requester.name} (${requester.role}) unmuted all PARTICIPANTS in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in unmute-all-participants:", err);
+      await consumer.setPriority(priority);
+      cb?.({ success: true, priority: consumer.priority });
+    } catch (err: any) {
+      console.error("Error setting consumer priority:", err);
+      cb?.({ error: err.message });
     }
   });
 
-  socket.on("disable-all-cameras", async ({ roomId, userId }: any) => {
+  // Ask the sender for a keyframe, e.g. after a decoder error
+  socket.on("request-keyframe", async ({ roomId, consumerId }, cb) => {
     try {
-      // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
-        await auditLog({
-          action: "GLOBAL_CAMERA_DISABLE",
-          actor: userId,
-          roomId,
-          result: "DENIED",
-          reason: "RATE_LIMIT_EXCEEDED",
-          timestamp: new Date(),
-        });
-        return;
+      const consumer = getRoom(roomId)?.peers.get(socket.id)?.consumers.get(consumerId);
+
+      if (!consumer || consumer.closed) {
+        return cb?.({ error: "Consumer not found" });
+      }
+      if (consumer.kind !== "video") {
+        return cb?.({ error: "Keyframes only apply to video" });
       }
 
-      // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_CAMERA_DISABLE");
+      await consumer.requestKeyFrame();
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("Error requesting keyframe:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      if (!permissionResult.allowed) {
-        if (permissionResult.shouldAuditLog) {
-          await auditLog({
-            action: "GLOBAL_CAMERA_DISABLE",
-            actor: userId,
-            roomId,
-            result: "DENIED",
-            reason: permissionResult.reason || "UNAUTHORIZED",
-            timestamp: new Date(),
-          });
-        }
-        console.log(`❌ ${userId} unauthorized for global camera disable: ${permissionResult.reason}`);
-        return;
+  // ✅ NEW: Handle producer closing
+  socket.on("close-producer", async ({ roomId, producerId }, cb) => {
+    try {
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
+      const producer = peer?.producers.get(producerId);
+
+      if (!peer) {
+        console.error(`❌ Peer ${socket.id} not found`);
+        return cb?.({ error: "Peer not found" });
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
-      });
+      if (!producer) {
+        console.error(`❌ Producer ${producerId} not found`);
+        return cb?.({ error: "Producer not found" });
+      }
 
-      if (!requester) return;
+      // Extract metadata before closing
+      const isScreenShare =
+        producer.appData?.share || producer.appData?.isScreenShare || false;
+      const kind = producer.kind;
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts)
-      const participants = await getGlobalActionTargets(roomId);
+      // ✅ Close producer - mediasoup will automatically close all consumers
+      producer.close();
+      peer.producers.delete(producerId);
 
-      // 5. Update database - ONLY participants, set screenShareLocked
-      await prisma.roomParticipant.updateMany({
-        where: {
-          roomId,
-          role: "PARTICIPANT",
-        },
-        data: {
-          isVideoPaused: true,
-          screenShareLocked: true, // Lock screen share when disabling cameras
-        },
-      });
+      // ✅ Notify other peers with consistent event
+      // Include userId if available (should always be available)
+      const closeEvent: any = {
+        producerId,
+        peerId: socket.id,
+        isScreenShare,
+        kind,
+      };
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+      if (peer.userId) {
+        closeEvent.userId = peer.userId;
+      }
 
-      // 7. Emit force-video-pause to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+      broadcastRoomEvent(roomId, "producer-closed", closeEvent);
 
-        if (targetSocket) {
-          targetSocket.emit("force-video-pause", {
-            video: true,
-            by: requester.name,
-          });
-        }
+      const emoji = kind === "audio" ? "🎤" : isScreenShare ? "🖥️" : "📹";
+      console.log(
+        `${emoji} Producer ${producerId} closed by ${socket.id}${
+          isScreenShare ? " (screen share)" : ""
+        }`
+      );
+
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error closing producer:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  // ⏸️ Mute/camera-off at the server: paused producers stop forwarding RTP
+  socket.on("pause-producer", async ({ roomId, producerId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      const room = getRoom(roomId);
+      const peer = room?.peers.get(socket.id);
+      const producer = peer?.producers.get(producerId);
+
+      if (!peer) {
+        console.error(`❌ Peer ${socket.id} not found`);
+        return cb?.({ error: "Peer not found" });
+      }
+      if (!producer || producer.closed) {
+        console.error(`❌ Producer ${producerId} not found`);
+        return cb?.({ error: "Producer not found" });
       }
 
-      // 8. Send updated participant list to all
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+      await producer.pause();
 
-      // 9. Audit log success
-      await auditLog({
-        action: "GLOBAL_CAMERA_DISABLE",
-        actor: userId,
+      // Keep the persisted state in line with the media
+      const isScreenShare =
+        producer.appData?.share || producer.appData?.isScreenShare || false;
+      if (userId && !isScreenShare) {
+        const field = producer.kind === "audio" ? "isAudioMuted" : "isVideoPaused";
+        await prisma.roomParticipant.update({
+          where: { roomId_userId: { roomId, userId } },
+          data: { [field]: true },
+        });
+        broadcastRoomEvent(roomId, "participant-state-changed", { userId, [field]: true }, socket.id);
+        await syncParticipants(roomId);
+      }
+
+      broadcastRoomEvent(
         roomId,
-        result: "ALLOWED",
-        timestamp: new Date(),
-      });
+        "producer-paused",
+        {
+          producerId,
+          peerId: socket.id,
+          userId,
+          kind: producer.kind,
+          byHost: false,
+        },
+        socket.id
+      );
 
-      console.log(`📹 ${requester.name} (${requester.role}) disabled all PARTICIPANTS cameras in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in disable-all-cameras:", err);
+      console.log(`⏸️ Producer ${producerId} (${producer.kind}) paused by ${socket.id}`);
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error pausing producer:", err);
+      cb?.({ error: err.message });
     }
   });
 
-  socket.on("enable-all-cameras", async ({ roomId, userId }: any) => {
+  socket.on("resume-producer", async ({ roomId, producerId }, cb) => {
+    const userId = socket.data.userId;
+
     try {
-      // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
-        await auditLog({
-          action: "GLOBAL_CAMERA_ENABLE",
-          actor: userId,
-          roomId,
-          result: "DENIED",
-          reason: "RATE_LIMIT_EXCEEDED",
-          timestamp: new Date(),
-        });
-        return;
-      }
+      const room = getRoom(roomId);
+      const peer = room?.peers.get(socket.id);
+      const producer = peer?.producers.get(producerId);
 
-      // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_CAMERA_ENABLE");
+      if (!peer) {
+        console.error(`❌ Peer ${socket.id} not found`);
+        return cb?.({ error: "Peer not found" });
+      }
+      if (!producer || producer.closed) {
+        console.error(`❌ Producer ${producerId} not found`);
+        return cb?.({ error: "Producer not found" });
+      }
 
-      if (!permissionResult.allowed) {
-        if (permissionResult.shouldAuditLog) {
-          await auditLog({
-            action: "GLOBAL_CAMERA_ENABLE",
-            actor: userId,
-            roomId,
-            result: "DENIED",
-            reason: permissionResult.reason || "UNAUTHORIZED",
-            timestamp: new Date(),
+      // 🔒 A host-locked mic stays paused no matter what the client sends
+      if (producer.kind === "audio") {
+        const canUnmuteResult = await canUnmute(userId, roomId);
+        if (!canUnmuteResult.allowed) {
+          console.warn(
+            `🔒 Audio resume denied for ${socket.id} - ${canUnmuteResult.reason}`
+          );
+          socket.emit("audio-locked", {
+            reason: "You have been muted by the host and cannot unmute yourself",
           });
+          return cb?.({ error: "Audio is locked by host" });
         }
-        console.log(`❌ ${userId} unauthorized for global camera enable: ${permissionResult.reason}`);
-        return;
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
-      });
+      await producer.resume();
+
+      const isScreenShare =
+        producer.appData?.share || producer.appData?.isScreenShare || false;
+      if (userId && !isScreenShare) {
+        const field = producer.kind === "audio" ? "isAudioMuted" : "isVideoPaused";
+        await prisma.roomParticipant.update({
+          where: { roomId_userId: { roomId, userId } },
+          data: { [field]: false },
+        });
+        broadcastRoomEvent(roomId, "participant-state-changed", { userId, [field]: false }, socket.id);
+        await syncParticipants(roomId);
+      }
+
+      broadcastRoomEvent(
+        roomId,
+        "producer-resumed",
+        {
+          producerId,
+          peerId: socket.id,
+          userId,
+          kind: producer.kind,
+        },
+        socket.id
+      );
+
+      console.log(`▶️ Producer ${producerId} (${producer.kind}) resumed by ${socket.id}`);
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error resuming producer:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      if (!requester) return;
+  // ✅ Handle screen share stopped - follows mediasoup best practices
+  socket.on("screen-share-stopped", async ({ roomId, producerId }, cb) => {
+    try {
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
+      const producer = peer?.producers.get(producerId);
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts)
-      const participants = await getGlobalActionTargets(roomId);
+      if (!peer) {
+        console.error(`❌ Peer ${socket.id} not found`);
+        return cb?.({ error: "Peer not found" });
+      }
 
-      // 5. Update database - ONLY participants, clear screenShareLocked
-      await prisma.roomParticipant.updateMany({
-        where: {
-          roomId,
-          role: "PARTICIPANT",
-        },
-        data: {
-          isVideoPaused: false,
-          screenShareLocked: false, // Unlock screen share when enabling cameras
-        },
-      });
+      if (!producer) {
+        console.error(`❌ Screen share producer ${producerId} not found`);
+        return cb?.({ error: "Producer not found" });
+      }
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+      // Extract screen share flag before closing
+      const isScreenShare =
+        producer.appData?.share || producer.appData?.isScreenShare || false;
 
-      // 7. Emit allow-unpause to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+      // ✅ ONLY close the producer - DO NOT manually close consumers
+      // mediasoup will automatically trigger "producerclose" event on all consumers
+      producer.close();
+      peer.producers.delete(producerId);
 
-        if (targetSocket) {
-          targetSocket.emit("allow-unpause", {
-            by: requester.name,
-          });
-        }
+      // ✅ Emit consistent "producer-closed" event (same as camera)
+      // This ensures all media removal follows the same code path
+      const closeEvent: any = {
+        producerId,
+        peerId: socket.id,
+        isScreenShare, // Flag to differentiate screen share from camera
+      };
+
+      if (peer.userId) {
+        closeEvent.userId = peer.userId;
       }
 
-      // 8. Send updated participant list to all
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+      broadcastRoomEvent(roomId, "producer-closed", closeEvent);
 
-      // 9. Audit log success
-      await auditLog({
-        action: "GLOBAL_CAMERA_ENABLE",
-        actor: userId,
-        roomId,
-        result: "ALLOWED",
-        timestamp: new Date(),
-      });
+      const emoji = isScreenShare ? "🖥️" : "🔴";
+      console.log(
+        `${emoji} Producer ${producerId} closed by ${socket.id}${
+          isScreenShare ? " (screen share)" : ""
+        }`
+      );
 
-      console.log(`📹 ${requester.name} (${requester.role}) enabled all PARTICIPANTS cameras in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in enable-all-cameras:", err);
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error stopping screen share:", err);
+      cb?.({ error: err.message });
     }
   });
 
-  // ✅ Disable screen sharing for all participants
-  socket.on("disable-all-screen-sharing", async ({ roomId, userId }: any) => {
+  /* =========================
+     HOST CONTROLS
+  ========================= */
+
+  // ✅ Make participant a co-host
+  socket.on("make-cohost", async ({ roomId, participantId }) => {
     try {
+      const actorUserId = socket.data.userId;
+
+      console.log("📥 Received make-cohost:", {
+        roomId,
+        participantId,
+        actorUserId,
+        fromSocket: socket.id,
+      });
+
       // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
+      if (!(await checkRateLimit(actorUserId))) {
         await auditLog({
-          action: "GLOBAL_SCREENSHARE_DISABLE",
-          actor: userId,
+          action: "MAKE_COHOST",
+          actor: actorUserId,
+          target: participantId,
           roomId,
           result: "DENIED",
           reason: "RATE_LIMIT_EXCEEDED",
           timestamp: new Date(),
         });
+        socket.emit("error", { message: "Too many actions. Please wait." });
         return;
       }
 
       // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_SCREENSHARE_DISABLE");
+      const permissionResult = await checkPermission(
+        actorUserId,
+        roomId,
+        "MAKE_COHOST",
+        participantId
+      );
 
       if (!permissionResult.allowed) {
         if (permissionResult.shouldAuditLog) {
           await auditLog({
-            action: "GLOBAL_SCREENSHARE_DISABLE",
-            actor: userId,
+            action: "MAKE_COHOST",
+            actor: actorUserId,
+            target: participantId,
             roomId,
             result: "DENIED",
             reason: permissionResult.reason || "UNAUTHORIZED",
             timestamp: new Date(),
           });
         }
-        console.log(`❌ ${userId} unauthorized for global screenshare disable: ${permissionResult.reason}`);
+        console.log(
+          `❌ ${actorUserId} unauthorized to promote ${participantId}: ${permissionResult.reason}`
+        );
+        socket.emit("error", {
+          message: "You don't have permission to promote co-hosts",
+        });
         return;
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
+      // 3. Get requester and room
+      const room = await getOrCreateRoom(roomId);
+      const requester = room.peers.get(socket.id);
+
+      if (!requester) {
+        socket.emit("error", { message: "Requester not found" });
+        return;
+      }
+
+      // 4. Find target participant in database
+      const targetParticipant = await prisma.roomParticipant.findUnique({
+        where: {
+          roomId_userId: {
+            roomId,
+            userId: participantId,
+          },
+        },
       });
 
-      if (!requester) return;
+      if (!targetParticipant) {
+        socket.emit("error", { message: "Participant not found" });
+        return;
+      }
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts)
-      const participants = await getGlobalActionTargets(roomId);
+      // Cannot promote host to co-host
+      if (targetParticipant.role === "HOST") {
+        socket.emit("error", { message: "Cannot promote host to co-host" });
+        return;
+      }
 
-      // 5. Update database - ONLY participants, set screenShareLocked
-      await prisma.roomParticipant.updateMany({
+      // 5. Update participant role in database
+      await prisma.roomParticipant.update({
         where: {
-          roomId,
-          role: "PARTICIPANT",
+          roomId_userId: {
+            roomId,
+            userId: participantId,
+          },
         },
         data: {
-          screenShareLocked: true, // Lock screen share
+          role: "COHOST",
         },
       });
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+      // 6. Update in-memory peer if they're connected
+      for (const [peerId, peer] of room.peers) {
+        if (peer.userId === participantId) {
+          peer.isCoHost = true;
+          break;
+        }
+      }
 
-      // 7. Emit screenshare-control to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+      console.log(
+        `🤝 ${participantId} promoted to co-host by ${requester.name || socket.id}`
+      );
 
-        if (targetSocket) {
-          targetSocket.emit("screenshare-control", {
-            enabled: false,
-            by: requester.name,
+      // 7. Find target's socket ID
+      let targetSocketId = null;
+      for (const [peerId, peer] of room.peers) {
+        if (peer.userId === participantId) {
+          targetSocketId = peerId;
+          break;
+        }
+      }
+
+      // 8. 🔥 CRITICAL: Check for active global controls and immediately exempt
+      if (targetSocketId) {
+        // Check if participant was previously muted by global control
+        if (targetParticipant.isAudioMuted) {
+          // Check if there are other participants still muted (indicating global mute might be active)
+          const mutedCount = await prisma.roomParticipant.count({
+            where: { roomId, role: { in: GLOBAL_CONTROL_ROLES }, isAudioMuted: true },
+          });
+
+          if (mutedCount > 0) {
+            // Global mute likely active, exempt the new co-host
+            io.to(targetSocketId).emit("allow-unmute", {
+              audio: false,
+              reason: "Promoted to Co-Host",
+            });
+            console.log(
+              `🔓 Exempted ${participantId} from global audio mute (promoted to co-host)`
+            );
+          }
+        }
+
+        // Check if participant's video was paused by global control
+        if (targetParticipant.isVideoPaused) {
+          // Check if there are other participants with paused video (indicating global disable might be active)
+          const pausedCount = await prisma.roomParticipant.count({
+            where: { roomId, role: { in: GLOBAL_CONTROL_ROLES }, isVideoPaused: true },
           });
+
+          if (pausedCount > 0) {
+            // Global video disable likely active, exempt the new co-host
+            io.to(targetSocketId).emit("allow-video-enable", {
+              video: false,
+              reason: "Promoted to Co-Host",
+            });
+            console.log(
+              `🔓 Exempted ${participantId} from global video disable (promoted to co-host)`
+            );
+          }
         }
+
+        // Notify the promoted user
+        io.to(targetSocketId).emit("cohost-granted", {
+          by: requester.name || "Host",
+          roomId,
+        });
       }
 
-      // 8. Refresh participant list
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+      // 9. Confirm to host
+      socket.emit("success", { message: "Co-host status granted" });
 
-      // 9. Audit log success
+      // 10. Broadcast participant-updated to all
+      await syncParticipants(roomId);
+
+      // 11. Audit log success
       await auditLog({
-        action: "GLOBAL_SCREENSHARE_DISABLE",
-        actor: userId,
+        action: "MAKE_COHOST",
+        actor: actorUserId,
+        target: participantId,
         roomId,
         result: "ALLOWED",
         timestamp: new Date(),
       });
-
-      console.log(`🖥️ ${requester.name} (${requester.role}) disabled all PARTICIPANTS screen sharing in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in disable-all-screen-sharing:", err);
+    } catch (err: any) {
+      console.error("❌ Error in make-cohost:", err);
+      socket.emit("error", { message: err.message });
     }
   });
 
-  // ✅ Enable screen sharing for all participants
-  socket.on("enable-all-screen-sharing", async ({ roomId, userId }: any) => {
+  // ✅ Remove co-host status from participant
+  socket.on("remove-cohost", async ({ roomId, participantId }) => {
     try {
+      const actorUserId = socket.data.userId;
+
       // 1. Rate limiting
-      if (!checkRateLimit(userId)) {
+      if (!(await checkRateLimit(actorUserId))) {
         await auditLog({
-          action: "GLOBAL_SCREENSHARE_ENABLE",
-          actor: userId,
+          action: "REMOVE_COHOST",
+          actor: actorUserId,
+          target: participantId,
           roomId,
           result: "DENIED",
           reason: "RATE_LIMIT_EXCEEDED",
           timestamp: new Date(),
         });
+        socket.emit("error", { message: "Too many actions. Please wait." });
         return;
       }
 
-      // 2. Permission check
-      const permissionResult = await checkPermission(userId, roomId, "GLOBAL_SCREENSHARE_ENABLE");
+      // 2. Permission check - only host can remove co-hosts
+      const permissionResult = await checkPermission(
+        actorUserId,
+        roomId,
+        "REMOVE_COHOST",
+        participantId
+      );
 
       if (!permissionResult.allowed) {
         if (permissionResult.shouldAuditLog) {
-          await auditLog({
-            action: "GLOBAL_SCREENSHARE_ENABLE",
-            actor: userId,
+          await auditLog({
+            action: "REMOVE_COHOST",
+            actor: actorUserId,
+            target: participantId,
             roomId,
             result: "DENIED",
             reason: permissionResult.reason || "UNAUTHORIZED",
             timestamp: new Date(),
           });
         }
-        console.log(`❌ ${userId} unauthorized for global screenshare enable: ${permissionResult.reason}`);
+        console.warn(
+          `⛔ ${actorUserId} unauthorized to remove co-host ${participantId}: ${permissionResult.reason}`
+        );
+        socket.emit("error", { message: "Only hosts can remove co-hosts" });
         return;
       }
 
-      // 3. Get requester info
-      const requester = await prisma.roomParticipant.findUnique({
-        where: { roomId_userId: { roomId, userId } },
-      });
+      const room = await getOrCreateRoom(roomId);
+      const requester = room.peers.get(socket.id);
 
-      if (!requester) return;
+      if (!requester) {
+        socket.emit("error", { message: "Requester not found" });
+        return;
+      }
 
-      // 4. Get only PARTICIPANTS (not hosts or co-hosts)
-      const participants = await getGlobalActionTargets(roomId);
+      // Find target participant in database
+      const targetParticipant = await prisma.roomParticipant.findUnique({
+        where: {
+          roomId_userId: {
+            roomId,
+            userId: participantId,
+          },
+        },
+      });
 
-      // 5. Update database - ONLY participants, clear screenShareLocked
-      await prisma.roomParticipant.updateMany({
+      if (!targetParticipant) {
+        socket.emit("error", { message: "Participant not found" });
+        return;
+      }
+
+      // Check if global locks are active before demotion
+      const globalLockStatus = await prisma.roomParticipant.findFirst({
         where: {
           roomId,
-          role: "PARTICIPANT",
+          role: { in: GLOBAL_CONTROL_ROLES },
+          OR: [{ audioLocked: true }, { screenShareLocked: true }],
         },
-        data: {
-          screenShareLocked: false, // Unlock screen share
+        select: {
+          audioLocked: true,
+          screenShareLocked: true,
         },
       });
 
-      // 6. Get active sockets
-      const targetSockets = await io.in(roomId).fetchSockets();
+      const shouldApplyAudioLock = globalLockStatus?.audioLocked ?? false;
+      const shouldApplyScreenShareLock = globalLockStatus?.screenShareLocked ?? false;
 
-      // 7. Emit screenshare-control to each PARTICIPANT only
-      for (const participant of participants) {
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === participant.userId
-        );
+      // Update participant role in database and re-apply locks if needed
+      await prisma.roomParticipant.update({
+        where: {
+          roomId_userId: {
+            roomId,
+            userId: participantId,
+          },
+        },
+        data: {
+          role: "PARTICIPANT",
+          audioLocked: shouldApplyAudioLock,
+          screenShareLocked: shouldApplyScreenShareLock,
+        },
+      });
 
-        if (targetSocket) {
-          targetSocket.emit("screenshare-control", {
-            enabled: true,
-            by: requester.name,
-          });
+      // Update in-memory peer if they're connected
+      for (const [peerId, peer] of room.peers) {
+        if (peer.userId === participantId) {
+          peer.isCoHost = false;
+          break;
         }
       }
 
-      // 8. Refresh participant list
-      const allParticipants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        allParticipants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
+      console.log(
+        `👥 ${participantId} demoted from co-host by ${
+          requester.name || socket.id
+        }`,
+        shouldApplyAudioLock ? "🔒 Audio locked" : "",
+        shouldApplyScreenShareLock ? "🔒 Screen share locked" : ""
       );
 
-      // 9. Audit log success
-      await auditLog({
-        action: "GLOBAL_SCREENSHARE_ENABLE",
-        actor: userId,
-        roomId,
-        result: "ALLOWED",
-        timestamp: new Date(),
-      });
+      // Find target's socket ID to notify them directly
+      let targetSocketId = null;
+      for (const [peerId, peer] of room.peers) {
+        if (peer.userId === participantId) {
+          targetSocketId = peerId;
+          break;
+        }
+      }
 
-      console.log(`🖥️ ${requester.name} (${requester.role}) enabled all PARTICIPANTS screen sharing in room ${roomId}`);
-    } catch (err) {
-      console.error("Error in enable-all-screen-sharing:", err);
-    }
-  });
+      // Notify the demoted user and re-apply locks if needed
+      if (targetSocketId) {
+        io.to(targetSocketId).emit("cohost-revoked", {
+          by: requester.name || "Host",
+        });
 
-  socket.on(
-    "toggle-remote-audio",
-    async ({ roomId, userId, targetUserId, force }: any) => {
-      try {
-        // 1. Rate limiting
-        if (!checkRateLimit(userId)) {
-          await auditLog({
-            action: force === "mute" ? "MUTE_INDIVIDUAL" : "UNMUTE_INDIVIDUAL",
-            actor: userId,
-            target: targetUserId,
-            roomId,
-            result: "DENIED",
-            reason: "RATE_LIMIT_EXCEEDED",
-            timestamp: new Date(),
+        // Re-apply audio lock if global mute is active
+        if (shouldApplyAudioLock) {
+          sendUserEvent(roomId, participantId, targetSocketId, "force-mute", {
+            audio: true,
+            by: "Host",
+            locked: true,
           });
-          return;
+          console.log(`🔒 Re-applied audio lock to demoted user ${participantId}`);
         }
 
-        // 2. Permission check (actor + target)
-        const action = force === "mute" ? "MUTE_INDIVIDUAL" : "UNMUTE_INDIVIDUAL";
-        const permissionResult = await checkPermission(
-          userId,
-          roomId,
-          action,
-          targetUserId
-        );
-
-        if (!permissionResult.allowed) {
-          if (permissionResult.shouldAuditLog) {
-            await auditLog({
-              action,
-              actor: userId,
-              target: targetUserId,
-              roomId,
-              result: "DENIED",
-              reason: permissionResult.reason || "UNAUTHORIZED",
-              timestamp: new Date(),
-            });
-          }
-          console.log(
-            `❌ ${userId} unauthorized to ${force} ${targetUserId}: ${permissionResult.reason}`
-          );
-          return;
+        // Re-apply screen share lock if global disable is active
+        if (shouldApplyScreenShareLock) {
+          io.to(targetSocketId).emit("screenshare-control", {
+            enabled: false,
+            by: "Host",
+          });
+          console.log(`🔒 Re-applied screen share lock to demoted user ${participantId}`);
         }
+      }
 
-        // 3. Get requester info
-        const requester = await prisma.roomParticipant.findUnique({
-          where: { roomId_userId: { roomId, userId } },
-        });
-
-        if (!requester) return;
-
-        // 4. Update target user's audio state
-        await prisma.roomParticipant.update({
-          where: {
-            roomId_userId: {
-              roomId,
-              userId: targetUserId,
-            },
-          },
-          data: {
-            isAudioMuted: force === "mute",
-            audioLocked: force === "mute", // Set lock when muting, clear when unmuting
-          },
-        });
-
-        // 5. Find target's socket and emit control event
-        const targetSockets = await io.in(roomId).fetchSockets();
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === targetUserId
-        );
+      // Confirm to host
+      socket.emit("success", { message: "Co-host status removed" });
 
-        if (targetSocket) {
-          if (force === "mute") {
-            targetSocket.emit("force-mute", {
-              audio: true,
-              by: requester.name,
-              locked: true,
-            });
-          } else {
-            targetSocket.emit("allow-unmute", {
-              by: requester.name,
-              locked: false,
-            });
-          }
+      // Audit log success
+      await auditLog({
+        action: "REMOVE_COHOST",
+        actor: actorUserId,
+        target: participantId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
 
-          console.log(
-            `🔇 ${requester.name} (${requester.role}) ${
-              force === "mute" ? "muted" : "unmuted"
-            } ${targetUserId}`
-          );
-        }
+      // Refresh participant list for all
+      await syncParticipants(roomId);
+    } catch (err: any) {
+      console.error("❌ Error in remove-cohost:", err);
+      socket.emit("error", { message: err.message });
+    }
+  });
 
-        // 6. Send updated participant list to ensure lock state is synced
-        const allParticipants = await prisma.roomParticipant.findMany({
-          where: { roomId, isConnected: true },
-        });
-        io.to(roomId).emit(
-          "participant-list-update",
-          allParticipants.map((p) => ({
-            id: p.userId,
-            name: p.name,
-            imageUrl: p.imageUrl,
-            isAudioMuted: p.isAudioMuted,
-            isVideoPaused: p.isVideoPaused,
-            isHost: p.role === "HOST",
-            isCoHost: p.role === "COHOST",
-            audioLocked: p.audioLocked ?? false,
-            screenShareLocked: p.screenShareLocked ?? false,
-          }))
-        );
+  // ✅ Host disables screen sharing for everyone
+  socket.on("host-disable-screenshare", async ({ roomId }) => {
+    try {
+      const actorUserId = socket.data.userId;
 
-        // 7. Audit log success
+      // Rate limiting
+      if (!(await checkRateLimit(actorUserId))) {
         await auditLog({
-          action,
-          actor: userId,
-          target: targetUserId,
+          action: "GLOBAL_SCREENSHARE_DISABLE",
+          actor: actorUserId,
           roomId,
-          result: "ALLOWED",
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
           timestamp: new Date(),
         });
-      } catch (err) {
-        console.error("Error in toggle-remote-audio:", err);
+        socket.emit("error", { message: "Too many actions. Please wait." });
+        return;
       }
-    }
-  );
 
-  socket.on(
-    "toggle-remote-video",
-    async ({ roomId, userId, targetUserId, force }: any) => {
-      try {
-        // 1. Rate limiting
-        if (!checkRateLimit(userId)) {
+      // Verify authorization - only hosts or co-hosts can disable
+      const permissionResult = await checkPermission(actorUserId, roomId, "GLOBAL_SCREENSHARE_DISABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
           await auditLog({
-            action: force === "disable" ? "DISABLE_CAMERA" : "ENABLE_CAMERA",
-            actor: userId,
-            target: targetUserId,
+            action: "GLOBAL_SCREENSHARE_DISABLE",
+            actor: actorUserId,
             roomId,
             result: "DENIED",
-            reason: "RATE_LIMIT_EXCEEDED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
             timestamp: new Date(),
           });
-          return;
-        }
-
-        // 2. Permission check (actor + target)
-        const action = force === "disable" ? "DISABLE_CAMERA" : "ENABLE_CAMERA";
-        const permissionResult = await checkPermission(
-          userId,
-          roomId,
-          action,
-          targetUserId
+        }
+        console.warn(
+          `⛔ Non-host/co-host ${socket.id} attempted to disable screen sharing`
         );
+        socket.emit("error", {
+          message: "Only hosts and co-hosts can control screen sharing",
+        });
+        return;
+      }
 
-        if (!permissionResult.allowed) {
-          if (permissionResult.shouldAuditLog) {
-            await auditLog({
-              action,
-              actor: userId,
-              target: targetUserId,
-              roomId,
-              result: "DENIED",
-              reason: permissionResult.reason || "UNAUTHORIZED",
-              timestamp: new Date(),
-            });
-          }
-          console.log(
-            `❌ ${userId} unauthorized to ${force} camera for ${targetUserId}: ${permissionResult.reason}`
-          );
-          return;
-        }
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
 
-        // 3. Get requester info
-        const requester = await prisma.roomParticipant.findUnique({
-          where: { roomId_userId: { roomId, userId } },
-        });
+      if (!peer) {
+        socket.emit("error", { message: "Requester not found" });
+        return;
+      }
 
-        if (!requester) return;
+      if (!room) {
+        socket.emit("error", { message: "Room not found" });
+        return;
+      }
 
-        // 4. Update target user's video state
-        await prisma.roomParticipant.update({
-          where: {
-            roomId_userId: {
-              roomId,
-              userId: targetUserId,
-            },
-          },
-          data: {
-            isVideoPaused: force === "disable" || force === "pause",
-          },
-        });
+      // Update room state
+      room.screenShareEnabled = false;
 
-        // 5. Find target's socket and emit control event
-        const targetSockets = await io.in(roomId).fetchSockets();
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === targetUserId
-        );
+      console.log(
+        `🚫 Host ${peer.name || socket.id} disabled screen sharing in ${roomId}`
+      );
 
-        if (targetSocket) {
-          if (force === "disable" || force === "pause") {
-            // Pause video and disable control
-            targetSocket.emit("force-video-pause", {
-              video: true,
-              by: requester.name,
-            });
-          } else {
-            // Allow user to unpause video themselves
-            targetSocket.emit("allow-unpause", {
-              by: requester.name,
+      // Close all active screen share producers
+      let closedCount = 0;
+      for (const [peerId, p] of room.peers) {
+        for (const [producerId, producer] of p.producers) {
+          const isScreenShare =
+            producer.appData?.share || producer.appData?.isScreenShare || false;
+
+          if (isScreenShare) {
+            console.log(
+              `🚫 Force closing screen share producer ${producerId} from ${peerId}`
+            );
+
+            // Close the producer - mediasoup will handle consumer cleanup
+            producer.close();
+            p.producers.delete(producerId);
+            closedCount++;
+
+            // Broadcast producer closed
+            broadcastRoomEvent(roomId, "producer-closed", {
+              producerId,
+              peerId,
+              userId: p.userId || peerId,
+              isScreenShare: true,
+              kind: producer.kind,
             });
           }
+        }
+      }
 
-          // Broadcast state change to everyone
-          io.to(roomId).emit("participant-state-changed", {
-            userId: targetUserId,
-            isVideoPaused: force === "disable" || force === "pause",
-          });
+      if (closedCount > 0) {
+        console.log(
+          `✅ Closed ${closedCount} screen share producer(s) in ${roomId}`
+        );
+      }
 
-          console.log(
-            `📹 ${requester.name} (${requester.role}) ${
-              force === "disable" || force === "pause" ? "disabled" : "enabled"
-            } camera of ${targetUserId}`
-          );
-        }
+      // Broadcast permission change to ALL participants
+      broadcastRoomEvent(roomId, "screenshare-global-update", {
+        enabled: false,
+        by: peer.name || "Host",
+      });
 
-        // 6. Audit log success
+      // Confirm to host
+      socket.emit("success", { message: "Screen sharing disabled" });
+
+      // Audit log success
+      await auditLog({
+        action: "GLOBAL_SCREENSHARE_DISABLE",
+        actor: actorUserId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+    } catch (err: any) {
+      console.error("❌ Error in host-disable-screenshare:", err);
+      socket.emit("error", { message: err.message });
+    }
+  });
+
+  // ✅ Host enables screen sharing for everyone
+  socket.on("host-enable-screenshare", async ({ roomId }) => {
+    try {
+      const actorUserId = socket.data.userId;
+
+      // Rate limiting
+      if (!(await checkRateLimit(actorUserId))) {
         await auditLog({
-          action,
-          actor: userId,
-          target: targetUserId,
+          action: "GLOBAL_SCREENSHARE_ENABLE",
+          actor: actorUserId,
           roomId,
-          result: "ALLOWED",
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
           timestamp: new Date(),
         });
-      } catch (err) {
-        console.error("Error in toggle-remote-video:", err);
+        socket.emit("error", { message: "Too many actions. Please wait." });
+        return;
       }
-    }
-  );
 
-  socket.on(
-    "remove-participant",
-    async ({ roomId, userId, targetUserId }: any) => {
-      try {
-        // 1. Rate limiting
-        if (!checkRateLimit(userId)) {
+      // Verify authorization - only hosts or co-hosts can enable
+      const permissionResult = await checkPermission(actorUserId, roomId, "GLOBAL_SCREENSHARE_ENABLE");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
           await auditLog({
-            action: "REMOVE_FROM_ROOM",
-            actor: userId,
-            target: targetUserId,
+            action: "GLOBAL_SCREENSHARE_ENABLE",
+            actor: actorUserId,
             roomId,
             result: "DENIED",
-            reason: "RATE_LIMIT_EXCEEDED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
             timestamp: new Date(),
           });
-          return;
         }
-
-        // 2. Permission check (actor + target)
-        const permissionResult = await checkPermission(
-          userId,
-          roomId,
-          "REMOVE_FROM_ROOM",
-          targetUserId
+        console.warn(
+          `⛔ Non-host/co-host ${socket.id} attempted to enable screen sharing`
         );
+        socket.emit("error", {
+          message: "Only hosts and co-hosts can control screen sharing",
+        });
+        return;
+      }
 
-        if (!permissionResult.allowed) {
-          if (permissionResult.shouldAuditLog) {
-            await auditLog({
-              action: "REMOVE_FROM_ROOM",
-              actor: userId,
-              target: targetUserId,
-              roomId,
-              result: "DENIED",
-              reason: permissionResult.reason || "UNAUTHORIZED",
-              timestamp: new Date(),
-            });
-          }
-          console.log(
-            `❌ ${userId} unauthorized to remove ${targetUserId}: ${permissionResult.reason}`
-          );
-          return;
-        }
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
 
-        // 3. Get requester info
-        const requester = await prisma.roomParticipant.findUnique({
-          where: { roomId_userId: { roomId, userId } },
-        });
+      if (!peer) {
+        socket.emit("error", { message: "Requester not found" });
+        return;
+      }
 
-        if (!requester) return;
+      if (!room) {
+        socket.emit("error", { message: "Room not found" });
+        return;
+      }
 
-        // 4. Delete participant from DB
-        await prisma.roomParticipant.delete({
-          where: {
-            roomId_userId: {
-              roomId,
-              userId: targetUserId,
-            },
-          },
-        });
+      // Update room state
+      room.screenShareEnabled = true;
 
-        // 5. Find target's socket and force disconnect
-        const targetSockets = await io.in(roomId).fetchSockets();
-        const targetSocket = targetSockets.find(
-          (s: any) => s.data?.userId === targetUserId
-        );
+      console.log(
+        `✅ Host ${peer.name || socket.id} enabled screen sharing in ${roomId}`
+      );
 
-        if (targetSocket) {
-          targetSocket.emit("kicked-from-room", {
-            by: requester.name,
-            reason: "Removed by host",
-          });
-          targetSocket.leave(roomId);
-          console.log(
-            `🚫 ${requester.name} (${requester.role}) removed ${targetUserId} from room`
-          );
-        }
+      // Broadcast permission change to ALL participants
+      broadcastRoomEvent(roomId, "screenshare-global-update", {
+        enabled: true,
+        by: peer.name || "Host",
+      });
 
-        // 6. Broadcast updated participant list
-        const participants = await prisma.roomParticipant.findMany({
-          where: { roomId, isConnected: true },
-        });
+      // Confirm to host
+      socket.emit("success", { message: "Screen sharing enabled" });
 
-        io.to(roomId).emit(
-          "participant-list-update",
-          participants.map((p) => ({
-            id: p.userId,
-            name: p.name,
-            imageUrl: p.imageUrl,
-            isAudioMuted: p.isAudioMuted,
-            isVideoPaused: p.isVideoPaused,
-            isHost: p.role === "HOST",
-            isCoHost: p.role === "COHOST",
-            audioLocked: p.audioLocked ?? false,
-            screenShareLocked: p.screenShareLocked ?? false,
-          }))
-        );
+      // Audit log success
+      await auditLog({
+        action: "GLOBAL_SCREENSHARE_ENABLE",
+        actor: actorUserId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+    } catch (err: any) {
+      console.error("❌ Error in host-enable-screenshare:", err);
+      socket.emit("error", { message: err.message });
+    }
+  });
+
+  // ✅ Legacy bulk action handler (kept for backwards compatibility)
+  socket.on("host-bulk-action", async ({ roomId, type, grant }, cb) => {
+    try {
+      const room = await getOrCreateRoom(roomId);
+      const peer = room.peers.get(socket.id);
+      const action = grant ? "GLOBAL_SCREENSHARE_ENABLE" : "GLOBAL_SCREENSHARE_DISABLE";
 
-        // 7. Audit log success
+      // Verify the user is a host
+      if (!peer?.isHost) {
+        console.warn(`⛔ Non-host ${socket.id} attempted host-bulk-action`);
         await auditLog({
-          action: "REMOVE_FROM_ROOM",
-          actor: userId,
-          target: targetUserId,
+          action,
+          actor: socket.data.userId,
           roomId,
-          result: "ALLOWED",
+          result: "DENIED",
+          reason: "NOT_HOST",
           timestamp: new Date(),
         });
-      } catch (err) {
-        console.error("Error in remove-participant:", err);
+        return cb?.({ error: "Only hosts can perform bulk actions" });
       }
-    }
-  );
-
-  /* =========================
-     MEDIASOUP
-  ========================= */
 
-  socket.on("get-rtp-capabilities", async ({ roomId }, cb) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      cb({ rtpCapabilities: room.router.rtpCapabilities });
-    } catch (err: any) {
-      console.error("Error getting RTP capabilities:", err);
-      cb({ error: err.message });
-    }
-  });
+      // Handle screen share permission toggle
+      if (type === "screenshare") {
+        const wasEnabled = room.screenShareEnabled;
+        room.screenShareEnabled = grant;
 
-  socket.on(
-    "join-mediasoup-room",
-    async (
-      { roomId, rtpCapabilities, userName, userImageUrl, isCreator, userId },
-      cb
-    ) => {
-      try {
         console.log(
-          `🔍 JOIN REQUEST - User: ${userName}, UserId: ${userId}, Image: ${userImageUrl}, Creator: ${isCreator}`
+          `🖥️ Host ${socket.id} ${
+            grant ? "enabled" : "disabled"
+          } screen sharing in ${roomId}`
         );
 
-        // ====== PREVENT DUPLICATE JOINS ======
-        const room = await getOrCreateRoom(roomId);
-        const existingPeer = room.peers.get(socket.id);
+        // If disabling screen sharing, force close all active screen-share producers
+        if (!grant && wasEnabled) {
+          let closedCount = 0;
 
-        if (existingPeer) {
-          console.log(
-            `⚠️ ${userName} already joined - ignoring duplicate call`
-          );
+          for (const [peerId, p] of room.peers) {
+            for (const [producerId, producer] of p.producers) {
+              const isScreenShare =
+                producer.appData?.share ||
+                producer.appData?.isScreenShare ||
+                false;
 
-          // ✅ FIXED: Still return existing producers with full details including userId
-          const existingProducers: Array<{
-            producerId: string;
-            peerId: string;
-            userId: string;
-            userName: string;
-            kind: string;
-            isScreenShare: boolean;
-          }> = [];
-          for (const [peerId, peer] of room.peers) {
-            if (peerId !== socket.id && peer.userId) {
-              peer.producers.forEach((producer) => {
-                existingProducers.push({
-                  producerId: producer.id,
-                  peerId: peerId,
-                  userId: peer.userId!, // userId is guaranteed to exist
-                  userName: peer.name || "Unknown",
+              if (isScreenShare) {
+                console.log(
+                  `🚫 Force closing screen share producer ${producerId} from ${peerId}`
+                );
+
+                // Close the producer - mediasoup will handle consumer cleanup
+                producer.close();
+                p.producers.delete(producerId);
+                closedCount++;
+
+                // Notify all participants that this producer was closed
+                broadcastRoomEvent(roomId, "producer-closed", {
+                  producerId,
+                  peerId,
+                  userId: p.userId || peerId,
+                  isScreenShare: true,
                   kind: producer.kind,
-                  isScreenShare:
-                    producer.appData?.share ||
-                    producer.appData?.isScreenShare ||
-                    false,
+                  reason: "disabled-by-host",
                 });
-              });
+              }
             }
           }
-          console.log(`📡 Returning existing producers for duplicate join:`, existingProducers.length);
-          return cb({ success: true, existingProducers, alreadyJoined: true });
-        }
 
-        // ====== MAP USERID EARLY ======
-        if (userId) {
-          socket.data.userId = userId;
-          console.log(`🆔 Socket ${socket.id} mapped to user ${userId}`);
+          if (closedCount > 0) {
+            console.log(
+              `✅ Closed ${closedCount} screen share producer(s) in ${roomId}`
+            );
+          }
         }
 
-        // ====== DATABASE PARTICIPANT STORAGE ======
-        if (userId && userName) {
-          try {
-            // Check if room exists in DB, if not create it
-            let dbRoom = await prisma.room.findUnique({
-              where: { id: roomId },
-            });
+        // Broadcast state change to all participants
+        broadcastRoomEvent(roomId, "screenshare-global-update", {
+          enabled: grant,
+          by: peer.name || "Host",
+        });
 
-            if (!dbRoom) {
-              // Room doesn't exist - create it
-              dbRoom = await prisma.room.create({
-                data: {
-                  id: roomId,
-                  creatorId: userId,
-                },
-              });
-              console.log(
-                `🏠 Created DB room ${roomId} with creator ${userId} (isCreator flag: ${isCreator})`
-              );
-            } else if (isCreator && dbRoom.creatorId !== userId) {
-              // ✅ NEW: Room exists but this user claims to be the creator
-              // This handles the case where someone joined before the actual creator
-              // Update the room to have the correct creator
-              const oldCreatorId = dbRoom.creatorId;
-              console.log(
-                `🔄 Updating room ${roomId} creator from ${oldCreatorId} to ${userId} (actual creator joined)`
-              );
-              dbRoom = await prisma.room.update({
-                where: { id: roomId },
-                data: { creatorId: userId },
-              });
+        await auditLog({
+          action,
+          actor: socket.data.userId,
+          roomId,
+          result: "ALLOWED",
+          timestamp: new Date(),
+        });
 
-              // Demote the previous "creator" to participant
-              await prisma.roomParticipant.updateMany({
-                where: {
-                  roomId,
-                  userId: oldCreatorId,
-                  role: "HOST",
-                },
-                data: { role: "PARTICIPANT" },
-              });
+        cb?.({ success: true, enabled: grant });
+      } else {
+        // Handle other bulk action types if needed
+        cb?.({ error: `Unknown bulk action type: ${type}` });
+      }
+    } catch (err: any) {
+      console.error("❌ Error in host-bulk-action:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-              console.log(`⬇️ Demoted ${oldCreatorId} from HOST to PARTICIPANT`);
-            }
+  /* =========================
+     ROOM LOCK & LOBBY
+  ========================= */
 
-            // Check if user is already a participant in DB
-            let dbParticipant = await prisma.roomParticipant.findUnique({
-              where: {
-                roomId_userId: {
-                  roomId,
-                  userId,
-                },
-              },
-            });
+  socket.on("lock-room", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
 
-            // Create or update participant in DB
-            if (!dbParticipant) {
-              const role = userId === dbRoom.creatorId ? "HOST" : "PARTICIPANT";
-              dbParticipant = await prisma.roomParticipant.create({
-                data: {
-                  roomId,
-                  userId,
-                  name: userName,
-                  imageUrl: userImageUrl,
-                  role,
-                  isConnected: true,
-                  lastSeenAt: new Date(),
-                },
-              });
-              console.log(`✅ ${userName} joined as ${role} (NEW in DB)`);
-            } else {
-              // Update existing participant info and mark as connected
-              dbParticipant = await prisma.roomParticipant.update({
-                where: {
-                  roomId_userId: {
-                    roomId,
-                    userId,
-                  },
-                },
-                data: {
-                  name: userName,
-                  imageUrl: userImageUrl,
-                  isConnected: true,
-                  lastSeenAt: new Date(),
-                },
-              });
-              console.log(`♻️ ${userName} rejoined (EXISTING in DB) - media state preserved`);
-            }
-          } catch (dbError) {
-            console.error("❌ Database error:", dbError);
-            // Continue with mediasoup even if DB fails
-          }
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "LOCK_ROOM",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "LOCK_ROOM");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "LOCK_ROOM",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
         }
+        console.log(`❌ ${userId} unauthorized to lock room: ${permissionResult.reason}`);
+        socket.emit("error", { message: "You don't have permission to lock this room" });
+        return;
+      }
 
-        // ====== MEDIASOUP SETUP ======
-        socket.join(roomId);
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
 
-        // ====== HOST OWNERSHIP ENFORCEMENT ======
-        // RULE: Only the meeting creator (room.creatorId) can be HOST
-        // RULE: Never assign host based on join order
-        let shouldBeHost = false;
-        let shouldBeCoHost = false;
+      if (!requester) return;
 
-        if (!userId) {
-          console.error("❌ Cannot join without userId - host status requires authentication");
-          return cb({ error: "userId is required" });
-        }
+      // 4. Persist lock so it survives a restart
+      await prisma.room.update({
+        where: { id: roomId },
+        data: { isLocked: true, lockedAt: new Date(), lockedBy: userId },
+      });
 
-        try {
-          const dbRoom = await prisma.room.findUnique({
-            where: { id: roomId },
-          });
+      const room = getRoom(roomId);
+      if (room) room.locked = true;
 
-          if (!dbRoom) {
-            console.error("❌ Room not found in database:", roomId);
-            return cb({ error: "Room not found" });
-          }
+      // 5. Broadcast to everyone in the room
+      broadcastRoomEvent(roomId, "room-locked", { roomId, by: requester.name });
 
-          const dbParticipant = await prisma.roomParticipant.findUnique({
-            where: {
-              roomId_userId: {
-                roomId,
-                userId,
-              },
-            },
-          });
+      // 6. Audit log success
+      await auditLog({
+        action: "LOCK_ROOM",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
 
-          // User is HOST if and only if they are the room creator
-          shouldBeHost = dbRoom.creatorId === userId;
+      console.log(`🔒 ${requester.name} (${requester.role}) locked room ${roomId}`);
+    } catch (err) {
+      console.error("Error in lock-room:", err);
+    }
+  });
 
-          // User is co-host if marked in DB (but not if they're the creator)
-          shouldBeCoHost = !shouldBeHost && dbParticipant?.role === "COHOST";
+  socket.on("unlock-room", async ({ roomId }: any) => {
+    const userId = socket.data.userId;
 
-          console.log(`🔍 Host check for ${userName}:`, {
-            userId,
-            creatorId: dbRoom.creatorId,
-            dbRole: dbParticipant?.role,
-            isCreator: dbRoom.creatorId === userId,
-            shouldBeHost,
-            shouldBeCoHost,
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "UNLOCK_ROOM",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "UNLOCK_ROOM");
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "UNLOCK_ROOM",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
           });
+        }
+        console.log(`❌ ${userId} unauthorized to unlock room: ${permissionResult.reason}`);
+        socket.emit("error", { message: "You don't have permission to unlock this room" });
+        return;
+      }
 
-          // ✅ CRITICAL: If this user is the creator, ensure they are marked as HOST in DB
-          // and demote any other users who may have been incorrectly marked as HOST
-          if (shouldBeHost) {
-            // Update this user to be HOST
-            await prisma.roomParticipant.update({
-              where: {
-                roomId_userId: {
-                  roomId,
-                  userId,
-                },
-              },
-              data: {
-                role: "HOST",
-              },
-            });
+      // 3. Get requester info
+      const requester = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
 
-            // Demote any other users who are marked as HOST (they shouldn't be)
-            await prisma.roomParticipant.updateMany({
-              where: {
-                roomId,
-                userId: {
-                  not: userId,
-                },
-                role: "HOST",
-              },
-              data: {
-                role: "PARTICIPANT",
-              },
-            });
+      if (!requester) return;
 
-            // Update in-memory peers - demote any other hosts
-            for (const [peerId, peer] of room.peers) {
-              if (peer.userId !== userId && peer.isHost) {
-                peer.isHost = false;
-                console.log(`⬇️ Demoted ${peer.name} from HOST (creator joined)`);
-
-                // Notify the demoted user
-                const demotedSocket = await io.in(peerId).fetchSockets();
-                if (demotedSocket.length > 0) {
-                  demotedSocket[0].emit("role-changed", {
-                    role: "PARTICIPANT",
-                    reason: "Meeting owner joined",
-                  });
-                }
-              }
-            }
+      // 4. Persist unlock
+      await prisma.room.update({
+        where: { id: roomId },
+        data: { isLocked: false, lockedAt: null, lockedBy: null },
+      });
 
-            console.log(`👑 ${userName} is the meeting creator - enforcing HOST status`);
-          }
-        } catch (err) {
-          console.error("❌ Error checking host status:", err);
-          return cb({ error: "Failed to verify host status" });
-        }
+      const room = getRoom(roomId);
+      if (room) room.locked = false;
 
-        console.log(
-          `🎯 Final status - shouldBeHost: ${shouldBeHost}, shouldBeCoHost: ${shouldBeCoHost}`
-        );
+      // 5. Everyone still waiting can come in now
+      const lobby = getLobby(roomId);
+      for (const entry of lobby.waiting.values()) {
+        io.to(entry.socketId).emit("lobby-admitted", { roomId, by: requester.name });
+      }
+      const releasedCount = lobby.waiting.size;
+      clearLobby(roomId);
+      emitLobbyUpdate(roomId);
 
-        // ✅ CRITICAL: Create peer with user info from client
-        room.peers.set(socket.id, {
-          socketId: socket.id,
-          userId: userId, // Store userId for proper mapping
-          name: userName || "User " + socket.id.slice(0, 4),
-          imageUrl: userImageUrl || null,
-          isHost: shouldBeHost,
-          isCoHost: shouldBeCoHost,
-          transports: new Map(),
-          producers: new Map(),
-          consumers: new Map(),
-          rtpCapabilities,
-        });
+      // 6. Broadcast to everyone in the room
+      broadcastRoomEvent(roomId, "room-unlocked", { roomId, by: requester.name });
 
-        // ✅ FIXED: Include peerId, userId and producer details for existing producers
-        // CRITICAL: Only include producers from peers with valid userId
-        const existingProducers: Array<{
-          producerId: string;
-          peerId: string;
-          userId: string;
-          userName: string;
-          kind: string;
-          isScreenShare: boolean;
-        }> = [];
-        for (const [peerId, peer] of room.peers) {
-          if (peerId !== socket.id && peer.userId) {
-            peer.producers.forEach((producer) => {
-              existingProducers.push({
-                producerId: producer.id,
-                peerId: peerId,
-                userId: peer.userId!, // userId is guaranteed to exist
-                userName: peer.name || "Unknown",
-                kind: producer.kind,
-                isScreenShare:
-                  producer.appData?.share ||
-                  producer.appData?.isScreenShare ||
-                  false,
-              });
-            });
-          }
-        }
+      // 7. Audit log success
+      await auditLog({
+        action: "UNLOCK_ROOM",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
 
-        console.log(`📡 Sending ${existingProducers.length} existing producers to ${userName}:`,
-          existingProducers.map(p => ({
-            kind: p.kind,
-            userId: p.userId,
-            isScreenShare: p.isScreenShare
-          }))
-        );
+      console.log(
+        `🔓 ${requester.name} (${requester.role}) unlocked room ${roomId} (${releasedCount} admitted from lobby)`
+      );
+    } catch (err) {
+      console.error("Error in unlock-room:", err);
+    }
+  });
 
-        // ✅ CRITICAL: Get participant list from DATABASE if available
-        let participants;
-        try {
-          const dbParticipants = await prisma.roomParticipant.findMany({
-            where: { roomId, isConnected: true },
-          });
-
-          if (dbParticipants.length > 0) {
-            // Use DB data with accurate audio/video states
-            const participantMap = new Map();
-
-            dbParticipants.forEach((p) => {
-              // Deduplicate by userId - keep only one entry per user
-              if (!participantMap.has(p.userId)) {
-                participantMap.set(p.userId, {
-                  id: p.userId,
-                  name: p.name,
-                  imageUrl: p.imageUrl,
-                  isAudioMuted: p.isAudioMuted,
-                  isVideoPaused: p.isVideoPaused,
-                  isHost: p.role === "HOST",
-                  isCoHost: p.role === "COHOST",
-                  audioLocked: p.audioLocked ?? false,
-                  screenShareLocked: p.screenShareLocked ?? false,
-                });
-              }
-            });
+  // Hosts/co-hosts fetch the current waiting list (e.g. after a refresh)
+  socket.on("get-lobby", async ({ roomId }, cb) => {
+    try {
+      const permissionResult = await checkPermission(
+        socket.data.userId,
+        roomId,
+        "ADMIT_FROM_LOBBY"
+      );
 
-            participants = Array.from(participantMap.values());
-            console.log(
-              `📋 Using DB participant list (${participants.length} unique participants from ${dbParticipants.length} DB entries)`
-            );
-          } else {
-            // Fallback to in-memory peers if DB is empty
-            participants = Array.from(room.peers.values()).map((p) => ({
-              id: p.userId || p.socketId, // Use userId if available, fallback to socketId
-              name: p.name,
-              imageUrl: p.imageUrl,
-              isAudioMuted: false,
-              isVideoPaused: false,
-              isHost: p.isHost || false,
-              isCoHost: p.isCoHost || false,
-              audioLocked: false,
-              screenShareLocked: false,
-            }));
-            console.log(
-              `📋 Using memory participant list (${participants.length} participants)`
-            );
-          }
-        } catch (dbError) {
-          console.error("❌ Error fetching participants from DB:", dbError);
-          // Fallback to in-memory peers
-          participants = Array.from(room.peers.values()).map((p) => ({
-            id: p.userId || p.socketId, // Use userId if available, fallback to socketId
-            name: p.name,
-            imageUrl: p.imageUrl,
-            isAudioMuted: false,
-            isVideoPaused: false,
-            isHost: p.isHost || false,
-            isCoHost: p.isCoHost || false,
-            audioLocked: false,
-            screenShareLocked: false,
-          }));
-        }
-
-        console.log(`📤 SENDING PARTICIPANT LIST:`, participants);
-
-        // ✅ MUST use io.to() not socket.to() - includes sender
-        io.to(roomId).emit("participant-list-update", participants);
+      if (!permissionResult.allowed) {
+        return cb?.({ error: "Only hosts and co-hosts can view the lobby" });
+      }
 
-        // ✅ Notify other peers that a new consumer is ready
-        // They should prepare to send their producers to this new peer
-        socket.to(roomId).emit("new-peer-joined", {
-          peerId: socket.id,
-          userId: userId,
-          name: userName,
-          imageUrl: userImageUrl,
-          isHost: shouldBeHost,
-          isCoHost: shouldBeCoHost,
-        });
+      const waiting = Array.from(getLobby(roomId).waiting.values()).map((entry) => ({
+        userId: entry.userId,
+        name: entry.name,
+        imageUrl: entry.imageUrl,
+        requestedAt: entry.requestedAt,
+      }));
 
-        console.log(`📢 Notified existing peers that ${userName} (${userId}) joined`);
+      cb?.({ success: true, locked: getRoom(roomId)?.locked ?? false, waiting });
+    } catch (err: any) {
+      console.error("Error in get-lobby:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-        console.log(`🎧 Mediasoup ready for ${socket.id} in ${roomId}`);
+  /**
+   * Admit or deny waiting users - one (`targetUserId`) or everyone (`all: true`)
+   */
+  const resolveLobbyRequest = async (
+    decision: "ADMIT" | "DENY",
+    { roomId, targetUserId, all, reason }: any
+  ) => {
+    const userId = socket.data.userId;
+    const action = decision === "ADMIT" ? "ADMIT_FROM_LOBBY" : "DENY_FROM_LOBBY";
+
+    // 1. Rate limiting
+    if (!(await checkRateLimit(userId))) {
+      await auditLog({
+        action,
+        actor: userId,
+        target: targetUserId,
+        roomId,
+        result: "DENIED",
+        reason: "RATE_LIMIT_EXCEEDED",
+        timestamp: new Date(),
+      });
+      return;
+    }
 
-        // ✅ Send current screen share permission state to joining participant
-        socket.emit("screenshare-global-update", {
-          enabled: room.screenShareEnabled,
-          by: "System",
-        });
+    // 2. Permission check
+    const permissionResult = await checkPermission(userId, roomId, action);
 
-        // ✅ Send current user's status in callback
-        const currentPeer = room.peers.get(socket.id);
-        console.log(`📤 Sending join response with status:`, {
-          userId: currentPeer?.userId,
-          isHost: currentPeer?.isHost,
-          isCoHost: currentPeer?.isCoHost,
+    if (!permissionResult.allowed) {
+      if (permissionResult.shouldAuditLog) {
+        await auditLog({
+          action,
+          actor: userId,
+          target: targetUserId,
+          roomId,
+          result: "DENIED",
+          reason: permissionResult.reason || "UNAUTHORIZED",
+          timestamp: new Date(),
         });
+      }
+      console.log(`❌ ${userId} unauthorized for ${action}: ${permissionResult.reason}`);
+      socket.emit("error", { message: "Only hosts and co-hosts can manage the lobby" });
+      return;
+    }
 
-        // ✅ CRITICAL FIX: Only send media state for REJOINS, not first-time joins
-        // This respects user's current choice to join with media off
-        let mediaState = undefined;
+    // 3. Get requester info
+    const requester = await prisma.roomParticipant.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+    });
 
-        try {
-          const dbParticipant = await prisma.roomParticipant.findUnique({
-            where: {
-              roomId_userId: {
-                roomId,
-                userId,
-              },
-            },
-          });
+    if (!requester) return;
 
-          // ONLY send media state if participant exists AND was previously connected
-          // This means they're REJOINING after a disconnect, so restore their state
-          if (dbParticipant && dbParticipant.isConnected === false) {
-            mediaState = {
-              isAudioMuted: dbParticipant.isAudioMuted,
-              isVideoPaused: dbParticipant.isVideoPaused,
-              audioLocked: dbParticipant.audioLocked ?? false,
-              screenShareLocked: dbParticipant.screenShareLocked ?? false,
-            };
-            console.log(`📊 Rejoining user - sending persisted media state to ${userName}:`, mediaState);
-          } else {
-            console.log(`🆕 First-time join - letting ${userName} use their current preference (no backend state)`);
-          }
-        } catch (err) {
-          console.error("❌ Error fetching media state:", err);
-        }
+    // 4. Resolve targets
+    const lobby = getLobby(roomId);
+    const targets = all
+      ? Array.from(lobby.waiting.values())
+      : [lobby.waiting.get(targetUserId)].filter((e) => e !== undefined);
 
-        cb({
-          success: true,
-          existingProducers,
-          isHost: currentPeer?.isHost || false,
-          isCoHost: currentPeer?.isCoHost || false,
-          mediaState, // ✅ Only defined for rejoins, undefined for first joins
-        });
-      } catch (err: any) {
-        console.error("Error joining mediasoup room:", err);
-        cb({ error: err.message });
-      }
+    if (targets.length === 0) {
+      socket.emit("error", { message: "No matching users waiting in the lobby" });
+      return;
     }
-  );
 
-  socket.on("create-webrtc-transport", async ({ roomId, direction }, cb) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
+    // 5. Notify each waiting user
+    for (const entry of targets) {
+      lobby.waiting.delete(entry.userId);
 
-      if (!peer) {
-        console.error(
-          `❌ Peer not found for ${socket.id} - did you call join-mediasoup-room?`
-        );
-        return cb({ error: "Peer not found. Call join-mediasoup-room first." });
+      if (decision === "ADMIT") {
+        lobby.admitted.add(entry.userId);
+        io.to(entry.socketId).emit("lobby-admitted", { roomId, by: requester.name });
+      } else {
+        io.to(entry.socketId).emit("lobby-denied", {
+          roomId,
+          by: requester.name,
+          reason: reason || "The host declined your request to join",
+        });
       }
 
-      const transport = await createWebRtcTransport(room.router);
-      transport.appData.direction = direction;
-      transport.appData.socketId = socket.id;
-      peer.transports.set(transport.id, transport);
-
-      // Track transport state changes
-      transport.on("icestatechange", (iceState) => {
-        console.log(`🧊 Transport ${transport.id} ICE state: ${iceState}`);
+      await auditLog({
+        action,
+        actor: userId,
+        target: entry.userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
       });
+    }
 
-      transport.on("dtlsstatechange", (dtlsState) => {
-        console.log(`🔐 Transport ${transport.id} DTLS state: ${dtlsState}`);
-        if (dtlsState === "failed" || dtlsState === "closed") {
-          console.error(`❌ Transport ${transport.id} connection failed!`);
-        }
-      });
+    // 6. Refresh the waiting list for hosts
+    emitLobbyUpdate(roomId);
 
-      console.log(
-        `✅ ${direction} transport created: ${transport.id} for ${socket.id}`
-      );
+    console.log(
+      `🚪 ${requester.name} (${requester.role}) ${
+        decision === "ADMIT" ? "admitted" : "denied"
+      } ${targets.length} user(s) from the lobby of ${roomId}`
+    );
+  };
 
-      cb({
-        params: {
-          id: transport.id,
-          iceParameters: transport.iceParameters,
-          iceCandidates: transport.iceCandidates,
-          dtlsParameters: transport.dtlsParameters,
-        },
-      });
-    } catch (err: any) {
-      console.error("Error creating transport:", err);
-      cb({ error: err.message });
+  socket.on("admit-from-lobby", async (payload: any) => {
+    try {
+      await resolveLobbyRequest("ADMIT", payload);
+    } catch (err) {
+      console.error("Error in admit-from-lobby:", err);
     }
   });
 
-  socket.on(
-    "connect-transport",
-    async ({ roomId, transportId, dtlsParameters }, cb) => {
-      try {
-        const room = await getOrCreateRoom(roomId, mediaRouter);
-        const peer = room.peers.get(socket.id);
-        const transport = peer?.transports.get(transportId);
-
-        if (!transport) {
-          console.error(
-            `❌ Transport ${transportId} not found for ${socket.id}`
-          );
-          return cb({ error: "Transport not found" });
-        }
-        if (transport.closed) {
-          console.error(`❌ Transport ${transportId} already closed`);
-          return cb({ error: "Transport already closed" });
-        }
-
-        await transport.connect({ dtlsParameters });
-        console.log(
-          `✅ Transport ${transportId} connected (${transport.appData.direction})`
-        );
-        cb({ success: true });
-      } catch (err: any) {
-        console.error("Error connecting transport:", err);
-        cb({ error: err.message });
-      }
+  socket.on("deny-from-lobby", async (payload: any) => {
+    try {
+      await resolveLobbyRequest("DENY", payload);
+    } catch (err) {
+      console.error("Error in deny-from-lobby:", err);
     }
-  );
+  });
 
   /* =========================
-     PRODUCE
+     RECORDING
   ========================= */
 
-  socket.on(
-    "produce",
-    async ({ roomId, transportId, kind, rtpParameters, appData }, cb) => {
-      try {
-        const room = await getOrCreateRoom(roomId);
-        const peer = room.peers.get(socket.id);
-        const transport = peer?.transports.get(transportId);
-
-        if (kind !== "audio" && kind !== "video") {
-          console.error(`❌ Invalid kind: ${kind}`);
-          return cb({ error: "Only audio and video are allowed" });
-        }
+  socket.on("start-recording", async ({ roomId }, callback) => {
+    const userId = socket.data.userId;
 
-        if (!transport) {
-          console.error(`❌ No transport found for ${transportId}`);
-          return cb({ error: "No transport" });
-        }
-        if (transport.closed) {
-          console.error(`❌ Transport ${transportId} is closed`);
-          return cb({ error: "Transport closed" });
-        }
-        if (!peer) {
-          console.error(`❌ Peer ${socket.id} not found`);
-          return cb({ error: "Peer not found" });
-        }
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "START_RECORDING",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return callback?.({ error: "Too many actions. Please wait." });
+      }
 
-        // ✅ LOCK VALIDATION: Check if user is allowed to produce based on locks
-        const userId = peer.userId || (socket as any).data?.userId;
-        const requestingScreenShare = appData?.share || false;
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "START_RECORDING");
 
-        // Check audio lock
-        if (kind === "audio" && userId) {
-          const canUnmuteResult = await canUnmute(userId, roomId);
-          if (!canUnmuteResult.allowed) {
-            console.warn(
-              `🔒 Audio producer denied for ${socket.id} - ${canUnmuteResult.reason}`
-            );
-            socket.emit("audio-locked", {
-              reason: "You have been muted by the host and cannot unmute yourself",
-            });
-            return cb({ error: "Audio is locked by host" });
-          }
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "START_RECORDING",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
         }
+        return callback?.({ error: "Only hosts and co-hosts can record" });
+      }
 
-        // Check screen share lock
-        if (requestingScreenShare && userId) {
-          const canShareResult = await canStartScreenShare(userId, roomId);
-          if (!canShareResult.allowed) {
-            console.warn(
-              `🔒 Screen share denied for ${socket.id} - ${canShareResult.reason}`
-            );
-            socket.emit("screenshare-denied", {
-              reason: "Screen sharing has been disabled by the host",
-            });
-            return cb({ error: "Screen sharing is locked by host" });
-          }
-        }
+      if (getRecordingSession(roomId)) {
+        return callback?.({ error: "Recording already in progress" });
+      }
 
-        // Check if screen sharing is globally disabled
-        if (requestingScreenShare && !room.screenShareEnabled) {
-          console.warn(
-            `⛔ Screen share denied for ${socket.id} - disabled by host`
-          );
-          socket.emit("screenshare-denied", {
-            reason: "Screen sharing is currently disabled by the host",
-          });
-          return cb({ error: "Screen sharing is disabled" });
-        }
+      // 3. Start piping every producer into the recorder
+      const room = getRoom(roomId);
+      if (!room) return callback?.({ error: "Room not found" });
 
-        // ✅ Store screen share metadata in producer's appData
-        const producerAppData = {
-          ...appData,
-          media: kind,
-          share: appData?.share || false,
-          isScreenShare: appData?.share || false,
-        };
+      const session = await startRecording(roomId, room, userId);
 
-        const producer = await transport.produce({
-          kind,
-          rtpParameters,
-          appData: producerAppData,
-        });
+      broadcastRoomEvent(roomId, "recording-started", {
+        roomId,
+        recordingId: session.recordingId,
+        startTime: session.startTime,
+      });
 
-        peer.producers.set(producer.id, producer);
+      // 4. Audit log success
+      await auditLog({
+        action: "START_RECORDING",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
 
-        // ✅ Handle producer close event
-        producer.on("transportclose", () => {
-          console.log(`🔌 Producer ${producer.id} transport closed`);
-          peer.producers.delete(producer.id);
-        });
+      console.log(`🔴 Recording started: ${roomId} (${session.recordingId})`);
+      callback?.({ success: true, recordingId: session.recordingId });
+    } catch (err: any) {
+      console.error("Error starting recording:", err);
+      callback?.({ error: err.message });
+    }
+  });
 
-        // Track producer lifecycle
-        producer.on("score", (score) => {
-          if (score.length > 0 && score[0].score < 5) {
-            console.warn(
-              `⚠️ Producer ${producer.id} low quality score:`,
-              score[0].score
-            );
-          }
-        });
+  socket.on("stop-recording", async ({ roomId }, callback) => {
+    const userId = socket.data.userId;
 
-        // Track producer score (quality)
-        producer.on("score", (score) => {
-          console.log(`📊 Producer ${producer.id} score:`, score);
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "STOP_RECORDING",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
         });
+        return callback?.({ error: "Too many actions. Please wait." });
+      }
 
-        const isScreenShare =
-          producer.appData?.share || producer.appData?.isScreenShare || false;
-        const emoji = kind === "audio" ? "🎤" : isScreenShare ? "🖥️" : "📹";
-
-        console.log(
-          `${emoji} ${kind} producer ${producer.id} created by ${socket.id}${
-            isScreenShare ? " (screen share)" : ""
-          }`
-        );
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, roomId, "STOP_RECORDING");
 
-        // ✅ CRITICAL: Include peerId, userId and screen share info
-        // MUST have userId - cannot fallback to socket.id as it breaks client mapping
-        if (!peer.userId) {
-          console.error("❌ Cannot emit new-producer without userId");
-          return cb({ error: "User identification required" });
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "STOP_RECORDING",
+            actor: userId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
         }
-
-        const producerEvent = {
-          producerId: producer.id,
-          peerId: socket.id,
-          userId: peer.userId,
-          userName: peer.name || "Unknown",
-          kind,
-          isScreenShare,
-        };
-        console.log("📡 Emitting new-producer:", producerEvent);
-        socket.to(roomId).emit("new-producer", producerEvent);
-
-        cb({ id: producer.id });
-      } catch (err: any) {
-        console.error("❌ Error producing:", err);
-        cb({ error: err.message });
+        return callback?.({ error: "Only hosts and co-hosts can stop recording" });
       }
-    }
-  );
 
-  /* =========================
-     CONSUME (ENHANCED WITH DEBUG)
-  ========================= */
-  socket.on("consume", async ({ roomId, producerId, rtpCapabilities }, cb) => {
-    try {
-      console.log("🔍 Consume request:", {
+      // 3. Finalize all files
+      const result = await stopRecording(roomId);
+      if (!result) return callback?.({ error: "No recording found" });
+
+      broadcastRoomEvent(roomId, "recording-stopped", {
         roomId,
-        producerId,
-        fromSocket: socket.id,
-        hasRtpCapabilities: !!rtpCapabilities,
+        recordingId: result.recordingId,
+        duration: result.duration,
       });
 
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
+      // 4. Audit log success
+      await auditLog({
+        action: "STOP_RECORDING",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
 
-      if (!peer) {
-        console.error(`❌ Peer not found for socket ${socket.id}`);
-        return cb({ error: "Peer not found" });
-      }
+      console.log(`⏹️ Recording stopped: ${roomId}`);
+      callback?.({ success: true, recordingId: result.recordingId, duration: result.duration });
+    } catch (err: any) {
+      console.error("Error stopping recording:", err);
+      callback?.({ error: err.message });
+    }
+  });
 
-      // ✅ Find the transport meant for receiving
-      const transport = Array.from(peer.transports.values()).find(
-        (t) => t.appData.direction === "recv"
-      );
+  /* =========================
+     HOST MANAGEMENT
+  ========================= */
 
-      if (!transport) {
-        console.error(`❌ No receive transport found for ${socket.id}`);
-        console.log(
-          "Available transports:",
-          Array.from(peer.transports.values()).map((t) => ({
-            id: t.id,
-            direction: t.appData.direction,
-          }))
-        );
-        return cb({ error: "No receive transport found" });
-      }
+  // participantId is the target's userId. transferOwnership also hands them
+  // Room.creatorId so the current creator can leave without ending the meeting.
+  socket.on("make-host", async ({ roomId, participantId, transferOwnership }) => {
+    const actorUserId = socket.data.userId;
+    const action = transferOwnership ? "TRANSFER_OWNERSHIP" : "MAKE_HOST";
 
-      // ✅ Ensure transport is connected (not closed)
-      if (transport.closed) {
-        console.error(`❌ Receive transport ${transport.id} is closed`);
-        return cb({ error: "Receive transport is closed" });
+    try {
+      // 1. Rate limiting
+      if (!(await checkRateLimit(actorUserId))) {
+        await auditLog({
+          action,
+          actor: actorUserId,
+          target: participantId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        socket.emit("error", { message: "Too many actions. Please wait." });
+        return;
       }
 
-      console.log(`✅ Using recv transport: ${transport.id} (connected: ${transport.dtlsState === 'connected' || transport.iceState === 'connected'})`);
+      // 2. Permission check (creator-only for transfers)
+      const permissionResult = await checkPermission(
+        actorUserId,
+        roomId,
+        action,
+        participantId
+      );
 
-      // ✅ Find the producer's peer ID and producer details
-      let producerPeerId = "";
-      let producer = null;
-      for (const [peerId, p] of room.peers) {
-        if (p.producers.has(producerId)) {
-          producerPeerId = peerId;
-          producer = p.producers.get(producerId);
-          console.log("✅ Found producer:", {
-            producerId: producer.id,
-            kind: producer.kind,
-            peerId: producerPeerId,
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action,
+            actor: actorUserId,
+            target: participantId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
           });
-          break;
         }
-      }
-
-      if (!producer) {
-        console.error(`❌ Producer ${producerId} not found`);
         console.log(
-          "📋 Available producers:",
-          Array.from(room.peers.entries()).map(([pid, p]) => ({
-            peerId: pid,
-            producers: Array.from(p.producers.keys()),
-          }))
+          `❌ ${actorUserId} unauthorized to ${action} ${participantId}: ${permissionResult.reason}`
         );
-        return cb({ error: "Producer not found" });
+        socket.emit("error", {
+          message: transferOwnership
+            ? "Only the meeting owner can transfer ownership"
+            : "Only hosts can promote other hosts",
+        });
+        return;
       }
 
-      // Check if router can consume
-      const canConsume = room.router.canConsume({
-        producerId,
-        rtpCapabilities,
-      });
-
-      if (!canConsume) {
-        console.error(`❌ Cannot consume - RTP capabilities mismatch`);
-        console.log(
-          "Producer codec:",
-          producer.rtpParameters?.codecs?.[0]?.mimeType
-        );
-        return cb({ error: "Cannot consume - incompatible codecs" });
-      }
+      // 3. Role (+ ownership) change in one transaction - hosts are exempt from locks
+      const requester = await prisma.$transaction(async (tx) => {
+        await tx.roomParticipant.update({
+          where: { roomId_userId: { roomId, userId: participantId } },
+          data: { role: "HOST", audioLocked: false, screenShareLocked: false },
+        });
 
-      console.log("✅ Can consume producer");
+        if (transferOwnership) {
+          // Re-checked inside the transaction so two transfers can't race
+          const { count } = await tx.room.updateMany({
+            where: { id: roomId, creatorId: actorUserId },
+            data: { creatorId: participantId, ownerTransferredAt: new Date() },
+          });
+          if (count === 0) throw new Error("Ownership changed - try again");
+        }
 
-      // Create consumer
-      const consumer = await transport.consume({
-        producerId,
-        rtpCapabilities,
-        paused: true,
+        return tx.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId: actorUserId } },
+        });
       });
 
-      peer.consumers.set(consumer.id, consumer);
+      // 4. Update in-memory peer if they're connected
+      const room = getRoom(roomId);
+      const targetPeer = Array.from(room?.peers.values() || []).find(
+        (p) => p.userId === participantId
+      );
 
-      // Track consumer events
-      consumer.on("transportclose", () => {
-        console.log(`🔌 Consumer ${consumer.id} transport closed`);
-        peer.consumers.delete(consumer.id);
-      });
+      if (targetPeer) {
+        targetPeer.isHost = true;
+        targetPeer.isCoHost = false;
 
-      consumer.on("producerclose", () => {
-        console.log(`❌ Consumer ${consumer.id} producer closed`);
-        peer.consumers.delete(consumer.id);
-      });
+        // 5. Notify the promoted user
+        io.to(targetPeer.socketId).emit("role-changed", {
+          role: "HOST",
+          by: requester?.name || "Host",
+          reason: transferOwnership ? "Meeting ownership transferred to you" : "Promoted to Host",
+          isOwner: Boolean(transferOwnership),
+        });
+      }
 
-      consumer.on("score", (score) => {
-        console.log(`📊 Consumer ${consumer.id} score:`, score);
-      });
+      if (transferOwnership) {
+        broadcastRoomEvent(roomId, "ownership-transferred", {
+          roomId,
+          from: actorUserId,
+          to: participantId,
+        });
+      }
 
       console.log(
-        `✅ Consumer created: ${consumer.id} for producer ${producerId} (${consumer.kind}) from peer ${producerPeerId}`
+        `👑 ${participantId} made host by ${requester?.name || actorUserId}${
+          transferOwnership ? " (ownership transferred)" : ""
+        }`
       );
 
-      // ✅ CRITICAL: Include userId and screen share flag so client knows whose stream this is
-      const producerPeer = room.peers.get(producerPeerId);
-
-      if (!producerPeer?.userId) {
-        console.error(`❌ Cannot consume - producer peer ${producerPeerId} has no userId`);
-        return cb({ error: "Producer peer has no user identification" });
-      }
+      // 6. Confirm to host
+      socket.emit("success", {
+        message: transferOwnership ? "Meeting ownership transferred" : "Host status granted",
+      });
 
-      const response = {
-        producerId,
-        id: consumer.id,
-        kind: consumer.kind,
-        rtpParameters: consumer.rtpParameters,
-        type: consumer.type,
-        producerPaused: consumer.producerPaused,
-        peerId: producerPeerId,
-        userId: producerPeer.userId, // ALWAYS valid - no fallback
-        userName: producerPeer.name || "Unknown",
-        producerSocketId: producerPeerId,
-        isScreenShare:
-          producer.appData?.share || producer.appData?.isScreenShare || false,
-        appData: producer.appData,
-      };
+      // 7. Broadcast participant-updated to all
+      await syncParticipants(roomId);
 
-      console.log("📤 Consumer response:", {
-        consumerId: response.id,
-        kind: response.kind,
-        userId: response.userId,
-        userName: response.userName,
-        peerId: response.peerId,
-        isScreenShare: response.isScreenShare,
+      // 8. Audit log success
+      await auditLog({
+        action,
+        actor: actorUserId,
+        target: participantId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
       });
-      cb(response);
     } catch (err: any) {
-      console.error("❌ Error in consume:", err);
-      cb({ error: err.message });
+      console.error("❌ Error in make-host:", err);
+      socket.emit("error", { message: err.message });
     }
   });
 
-  socket.on("resume-consumer", async ({ roomId, consumerId }, cb) => {
+  // participantId is the target's userId. The creator can't be demoted -
+  // they transfer ownership first.
+  socket.on("remove-host", async ({ roomId, participantId }) => {
+    const actorUserId = socket.data.userId;
+
     try {
-      console.log(
-        `▶️ Resume consumer request for ${consumerId} from ${socket.id}`
-      );
+      // 1. Rate limiting
+      if (!(await checkRateLimit(actorUserId))) {
+        await auditLog({
+          action: "REMOVE_HOST",
+          actor: actorUserId,
+          target: participantId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        socket.emit("error", { message: "Too many actions. Please wait." });
+        return;
+      }
 
-      const room = await getOrCreateRoom(roomId);
-      const consumer = room.peers.get(socket.id)?.consumers.get(consumerId);
+      // 2. Permission check
+      const permissionResult = await checkPermission(
+        actorUserId,
+        roomId,
+        "REMOVE_HOST",
+        participantId
+      );
 
-      if (!consumer) {
-        console.error(`❌ Consumer ${consumerId} not found for ${socket.id}`);
-        return cb?.({ error: "Consumer not found" });
-      }
-      if (consumer.closed) {
-        console.error(`❌ Consumer ${consumerId} already closed`);
-        return cb?.({ error: "Consumer closed" });
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "REMOVE_HOST",
+            actor: actorUserId,
+            target: participantId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(
+          `❌ ${actorUserId} unauthorized to demote ${participantId}: ${permissionResult.reason}`
+        );
+        socket.emit("error", {
+          message:
+            permissionResult.reason === "CANNOT_DEMOTE_CREATOR"
+              ? "The meeting owner must transfer ownership before stepping down"
+              : "Only hosts can remove host status",
+        });
+        return;
       }
 
-      await consumer.resume();
-      console.log(
-        `✅ Consumer ${consumerId} resumed successfully (kind: ${consumer.kind})`
-      );
-      cb?.({ success: true });
-    } catch (err: any) {
-      console.error("❌ Error resuming consumer:", err);
-      cb?.({ error: err.message });
-    }
-  });
+      // 3. Demote and re-apply any global locks in one transaction
+      const { requester, shouldApplyAudioLock, shouldApplyScreenShareLock } =
+        await prisma.$transaction(async (tx) => {
+          const globalLockStatus = await tx.roomParticipant.findFirst({
+            where: {
+              roomId,
+              role: { in: GLOBAL_CONTROL_ROLES },
+              OR: [{ audioLocked: true }, { screenShareLocked: true }],
+            },
+            select: { audioLocked: true, screenShareLocked: true },
+          });
 
-  // ✅ NEW: Handle producer closing
-  socket.on("close-producer", async ({ roomId, producerId }, cb) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
-      const producer = peer?.producers.get(producerId);
+          const shouldApplyAudioLock = globalLockStatus?.audioLocked ?? false;
+          const shouldApplyScreenShareLock = globalLockStatus?.screenShareLocked ?? false;
 
-      if (!peer) {
-        console.error(`❌ Peer ${socket.id} not found`);
-        return cb?.({ error: "Peer not found" });
-      }
+          await tx.roomParticipant.update({
+            where: { roomId_userId: { roomId, userId: participantId } },
+            data: {
+              role: "PARTICIPANT",
+              audioLocked: shouldApplyAudioLock,
+              screenShareLocked: shouldApplyScreenShareLock,
+            },
+          });
 
-      if (!producer) {
-        console.error(`❌ Producer ${producerId} not found`);
-        return cb?.({ error: "Producer not found" });
-      }
+          const requester = await tx.roomParticipant.findUnique({
+            where: { roomId_userId: { roomId, userId: actorUserId } },
+          });
 
-      // Extract metadata before closing
-      const isScreenShare =
-        producer.appData?.share || producer.appData?.isScreenShare || false;
-      const kind = producer.kind;
+          return { requester, shouldApplyAudioLock, shouldApplyScreenShareLock };
+        });
 
-      // ✅ Close producer - mediasoup will automatically close all consumers
-      producer.close();
-      peer.producers.delete(producerId);
+      // 4. Update in-memory peer and notify them
+      const room = getRoom(roomId);
+      const targetPeer = Array.from(room?.peers.values() || []).find(
+        (p) => p.userId === participantId
+      );
 
-      // ✅ Notify other peers with consistent event
-      // Include userId if available (should always be available)
-      const closeEvent: any = {
-        producerId,
-        peerId: socket.id,
-        isScreenShare,
-        kind,
-      };
+      if (targetPeer) {
+        targetPeer.isHost = false;
+
+        io.to(targetPeer.socketId).emit("role-changed", {
+          role: "PARTICIPANT",
+          by: requester?.name || "Host",
+          reason: "Host status removed",
+        });
+
+        if (shouldApplyAudioLock) {
+          sendUserEvent(roomId, participantId, targetPeer.socketId, "force-mute", {
+            audio: true,
+            by: "Host",
+            locked: true,
+          });
+          await enforceAudioMute(roomId, [participantId]);
+        }
 
-      if (peer.userId) {
-        closeEvent.userId = peer.userId;
+        if (shouldApplyScreenShareLock) {
+          io.to(targetPeer.socketId).emit("screenshare-control", {
+            enabled: false,
+            by: "Host",
+          });
+        }
       }
 
-      io.to(roomId).emit("producer-closed", closeEvent);
-
-      const emoji = kind === "audio" ? "🎤" : isScreenShare ? "🖥️" : "📹";
       console.log(
-        `${emoji} Producer ${producerId} closed by ${socket.id}${
-          isScreenShare ? " (screen share)" : ""
-        }`
+        `👤 ${participantId} demoted from host by ${requester?.name || actorUserId}`,
+        shouldApplyAudioLock ? "🔒 Audio locked" : "",
+        shouldApplyScreenShareLock ? "🔒 Screen share locked" : ""
       );
 
-      cb?.({ success: true });
+      // 5. Confirm to host
+      socket.emit("success", { message: "Host status removed" });
+
+      // 6. Broadcast participant-updated to all
+      await syncParticipants(roomId);
+
+      // 7. Audit log success
+      await auditLog({
+        action: "REMOVE_HOST",
+        actor: actorUserId,
+        target: participantId,
+        roomId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
     } catch (err: any) {
-      console.error("❌ Error closing producer:", err);
-      cb?.({ error: err.message });
+      console.error("❌ Error in remove-host:", err);
+      socket.emit("error", { message: err.message });
     }
   });
 
-  // ✅ Handle screen share stopped - follows mediasoup best practices
-  socket.on("screen-share-stopped", async ({ roomId, producerId }, cb) => {
+  // Non-admin roles: PARTICIPANT, VIEWER, PRESENTER, INTERPRETER.
+  // participantId is the target's userId.
+  socket.on("assign-role", async ({ roomId, participantId, role }, cb) => {
+    const actorUserId = socket.data.userId;
+
     try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
-      const producer = peer?.producers.get(producerId);
+      if (!ASSIGNABLE_ROLES.includes(role)) {
+        return cb?.({ error: `role must be one of ${ASSIGNABLE_ROLES.join(", ")}` });
+      }
 
-      if (!peer) {
-        console.error(`❌ Peer ${socket.id} not found`);
-        return cb?.({ error: "Peer not found" });
+      // 1. Rate limiting
+      if (!(await checkRateLimit(actorUserId))) {
+        await auditLog({
+          action: "ASSIGN_ROLE",
+          actor: actorUserId,
+          target: participantId,
+          roomId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return cb?.({ error: "Too many actions. Please wait." });
       }
 
-      if (!producer) {
-        console.error(`❌ Screen share producer ${producerId} not found`);
-        return cb?.({ error: "Producer not found" });
+      // 2. Permission check
+      const permissionResult = await checkPermission(
+        actorUserId,
+        roomId,
+        "ASSIGN_ROLE",
+        participantId
+      );
+
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "ASSIGN_ROLE",
+            actor: actorUserId,
+            target: participantId,
+            roomId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        console.log(
+          `❌ ${actorUserId} unauthorized to assign ${role} to ${participantId}: ${permissionResult.reason}`
+        );
+        return cb?.({ error: "You don't have permission to change this participant's role" });
       }
 
-      // Extract screen share flag before closing
-      const isScreenShare =
-        producer.appData?.share || producer.appData?.isScreenShare || false;
+      // 3. Persist the new role
+      const [target, requester] = await Promise.all([
+        prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId: participantId } },
+        }),
+        prisma.roomParticipant.findUnique({
+          where: { roomId_userId: { roomId, userId: actorUserId } },
+        }),
+      ]);
+      const previousRole = (target?.role as Role | undefined) ?? "PARTICIPANT";
 
-      // ✅ ONLY close the producer - DO NOT manually close consumers
-      // mediasoup will automatically trigger "producerclose" event on all consumers
-      producer.close();
-      peer.producers.delete(producerId);
+      await prisma.roomParticipant.update({
+        where: { roomId_userId: { roomId, userId: participantId } },
+        data: { role },
+      });
 
-      // ✅ Emit consistent "producer-closed" event (same as camera)
-      // This ensures all media removal follows the same code path
-      const closeEvent: any = {
-        producerId,
-        peerId: socket.id,
-        isScreenShare, // Flag to differentiate screen share from camera
-      };
+      // 4. Update in-memory peer and take away media the new role can't publish
+      const room = getRoom(roomId);
+      const targetPeer = Array.from(room?.peers.values() || []).find(
+        (p) => p.userId === participantId
+      );
 
-      if (peer.userId) {
-        closeEvent.userId = peer.userId;
+      if (targetPeer) {
+        targetPeer.isHost = false;
+        targetPeer.isCoHost = false;
+
+        for (const producer of Array.from(targetPeer.producers.values())) {
+          const isScreenShare =
+            producer.appData?.share || producer.appData?.isScreenShare || false;
+          if (canProduceWithRole(role, producer.kind, isScreenShare).allowed) continue;
+
+          producer.close();
+          targetPeer.producers.delete(producer.id);
+          broadcastRoomEvent(roomId, "producer-closed", {
+            producerId: producer.id,
+            peerId: targetPeer.socketId,
+            userId: participantId,
+            kind: producer.kind,
+            isScreenShare,
+          });
+        }
+
+        // Viewers are receive-only
+        if (role === "VIEWER") {
+          for (const transport of Array.from(targetPeer.transports.values())) {
+            if (transport.appData.direction !== "send") continue;
+            transport.close();
+            targetPeer.transports.delete(transport.id);
+          }
+        }
+
+        // 5. Notify the target
+        io.to(targetPeer.socketId).emit("role-changed", {
+          role,
+          by: requester?.name || "Host",
+          reason: "Role assigned",
+        });
       }
 
-      io.to(roomId).emit("producer-closed", closeEvent);
+      broadcastRoomEvent(roomId, "role-assigned", {
+        roomId,
+        userId: participantId,
+        role,
+        previousRole,
+        by: actorUserId,
+      });
 
-      const emoji = isScreenShare ? "🖥️" : "🔴";
-      console.log(
-        `${emoji} Producer ${producerId} closed by ${socket.id}${
-          isScreenShare ? " (screen share)" : ""
-        }`
-      );
+      console.log(`🎭 ${participantId} is now ${role} (was ${previousRole}), set by ${actorUserId}`);
 
-      cb?.({ success: true });
+      // 6. Broadcast participant-updated to all
+      await syncParticipants(roomId);
+
+      // 7. Audit log success
+      await auditLog({
+        action: "ASSIGN_ROLE",
+        actor: actorUserId,
+        target: participantId,
+        roomId,
+        result: "ALLOWED",
+        reason: `${previousRole}->${role}`,
+        timestamp: new Date(),
+      });
+
+      cb?.({ success: true, role, previousRole });
     } catch (err: any) {
-      console.error("❌ Error stopping screen share:", err);
+      console.error("❌ Error in assign-role:", err);
       cb?.({ error: err.message });
     }
   });
 
   /* =========================
-     HOST CONTROLS
+     BREAKOUT ROOMS
+     roomId may be the meeting or one of its breakouts - a host visiting a
+     breakout manages the session from there. Roles are always the meeting's.
   ========================= */
 
-  // ✅ Make participant a co-host
-  socket.on("make-cohost", async ({ roomId, participantId }) => {
-    try {
-      const actorUserId = (socket as any).data?.userId;
+  // Rate limit + MANAGE_BREAKOUTS on the parent meeting
+  const authorizeBreakoutAction = async (
+    roomId: string
+  ): Promise<{ parentRoomId: string } | { error: string }> => {
+    const userId = socket.data.userId;
+    const parentRoomId = await getParentRoomId(roomId);
 
-      console.log("📥 Received make-cohost:", {
-        roomId,
-        participantId,
-        actorUserId,
-        fromSocket: socket.id,
+    // 1. Rate limiting
+    if (!(await checkRateLimit(userId))) {
+      await auditLog({
+        action: "MANAGE_BREAKOUTS",
+        actor: userId,
+        roomId: parentRoomId,
+        result: "DENIED",
+        reason: "RATE_LIMIT_EXCEEDED",
+        timestamp: new Date(),
       });
+      return { error: "Too many actions. Please wait." };
+    }
 
-      // 1. Rate limiting
-      if (actorUserId && !checkRateLimit(actorUserId)) {
+    // 2. Permission check
+    const permissionResult = await checkPermission(userId, parentRoomId, "MANAGE_BREAKOUTS");
+
+    if (!permissionResult.allowed) {
+      if (permissionResult.shouldAuditLog) {
         await auditLog({
-          action: "MAKE_COHOST",
-          actor: actorUserId,
-          target: participantId,
-          roomId,
+          action: "MANAGE_BREAKOUTS",
+          actor: userId,
+          roomId: parentRoomId,
           result: "DENIED",
-          reason: "RATE_LIMIT_EXCEEDED",
+          reason: permissionResult.reason || "UNAUTHORIZED",
           timestamp: new Date(),
         });
-        socket.emit("error", { message: "Too many actions. Please wait." });
-        return;
       }
+      return { error: "Only hosts and co-hosts can manage breakout rooms" };
+    }
 
-      // 2. Permission check
-      if (actorUserId) {
-        const permissionResult = await checkPermission(
-          actorUserId,
-          roomId,
-          "MAKE_COHOST",
-          participantId
-        );
+    return { parentRoomId };
+  };
+
+  // Audit a successful breakout action; reason says which one
+  const auditBreakoutAction = (parentRoomId: string, operation: string) =>
+    auditLog({
+      action: "MANAGE_BREAKOUTS",
+      actor: socket.data.userId,
+      roomId: parentRoomId,
+      result: "ALLOWED",
+      reason: operation,
+      timestamp: new Date(),
+    });
 
-        if (!permissionResult.allowed) {
-          if (permissionResult.shouldAuditLog) {
-            await auditLog({
-              action: "MAKE_COHOST",
-              actor: actorUserId,
-              target: participantId,
-              roomId,
-              result: "DENIED",
-              reason: permissionResult.reason || "UNAUTHORIZED",
-              timestamp: new Date(),
-            });
-          }
-          console.log(
-            `❌ ${actorUserId} unauthorized to promote ${participantId}: ${permissionResult.reason}`
-          );
-          socket.emit("error", {
-            message: "You don't have permission to promote co-hosts",
-          });
-          return;
-        }
+  socket.on("get-breakouts", async ({ roomId }, cb) => {
+    try {
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
       }
 
-      // 3. Get requester and room
-      const room = await getOrCreateRoom(roomId);
-      const requester = room.peers.get(socket.id);
+      const session = await getActiveBreakoutSession(await getParentRoomId(roomId));
+      cb?.({ success: true, session: session ? serializeBreakoutSession(session) : null });
+    } catch (err: any) {
+      console.error("Error in get-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      if (!requester) {
-        socket.emit("error", { message: "Requester not found" });
-        return;
-      }
+  // Body: { roomId, count, names?: string[], durationSeconds? }
+  socket.on("create-breakouts", async ({ roomId, count, names, durationSeconds }, cb) => {
+    const userId = socket.data.userId;
 
-      // 4. Find target participant in database
-      const targetParticipant = await prisma.roomParticipant.findUnique({
-        where: {
-          roomId_userId: {
-            roomId,
-            userId: participantId,
-          },
-        },
+    try {
+      // 1-2. Rate limit + permission
+      const auth = await authorizeBreakoutAction(roomId);
+      if ("error" in auth) return cb?.(auth);
+      const { parentRoomId } = auth;
+
+      // 3. Create the session; each breakout's router comes up with its first joiner
+      const session = await createBreakoutSession(parentRoomId, userId, {
+        count,
+        names,
+        durationSeconds,
       });
+      const serialized = serializeBreakoutSession(session);
 
-      if (!targetParticipant) {
-        socket.emit("error", { message: "Participant not found" });
-        return;
-      }
+      // 4. Broadcast
+      broadcastBreakoutEvent(session, "breakouts-updated", {
+        roomId: parentRoomId,
+        session: serialized,
+      });
 
-      // Cannot promote host to co-host
-      if (targetParticipant.role === "HOST") {
-        socket.emit("error", { message: "Cannot promote host to co-host" });
-        return;
-      }
+      // 5. Audit log success
+      await auditBreakoutAction(parentRoomId, "CREATE");
 
-      // 5. Update participant role in database
-      await prisma.roomParticipant.update({
-        where: {
-          roomId_userId: {
-            roomId,
-            userId: participantId,
-          },
-        },
-        data: {
-          role: "COHOST",
-        },
-      });
+      console.log(`🧩 ${userId} created ${session.breakouts.length} breakout rooms in ${parentRoomId}`);
+      cb?.({ success: true, session: serialized });
+    } catch (err: any) {
+      console.error("Error in create-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      // 6. Update in-memory peer if they're connected
-      for (const [peerId, peer] of room.peers) {
-        if (peer.userId === participantId) {
-          peer.isCoHost = true;
-          break;
+  // Body: { roomId, assignments: [{ userId, breakoutRoomId | null }] } or { roomId, random: true }
+  socket.on("assign-breakouts", async ({ roomId, assignments, random }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1-2. Rate limit + permission
+      const auth = await authorizeBreakoutAction(roomId);
+      if ("error" in auth) return cb?.(auth);
+      const { parentRoomId } = auth;
+
+      const session = await getActiveBreakoutSession(parentRoomId);
+      if (!session) return cb?.({ error: "Create breakout rooms first" });
+
+      // 3. Assign
+      let updated: BreakoutSession;
+      if (random) {
+        // Everyone connected to the meeting or a breakout, hosts and co-hosts aside
+        const rows = await prisma.roomParticipant.findMany({
+          where: {
+            roomId: { in: [parentRoomId, ...session.breakouts.map((b) => b.id)] },
+            isConnected: true,
+            role: { notIn: ["HOST", "COHOST"] },
+          },
+          select: { userId: true },
+        });
+        const userIds = Array.from(new Set(rows.map((row) => row.userId)));
+        updated = await assignBreakoutsRandomly(session.id, userIds, userId);
+      } else {
+        if (!Array.isArray(assignments)) {
+          return cb?.({ error: "assignments must be a list of { userId, breakoutRoomId }" });
         }
+        updated = await assignBreakouts(
+          session.id,
+          assignments.map((a: any) => ({
+            userId: a?.userId,
+            breakoutRoomId: a?.breakoutRoomId ?? null,
+          })),
+          userId
+        );
       }
+      const serialized = serializeBreakoutSession(updated);
 
-      console.log(
-        `🤝 ${participantId} promoted to co-host by ${requester.name || socket.id}`
-      );
+      // 4. Broadcast; once open, moved users are sent on their way
+      broadcastBreakoutEvent(updated, "breakouts-updated", {
+        roomId: parentRoomId,
+        session: serialized,
+      });
+      if (updated.status === "OPEN") await sendBreakoutAssignments(updated);
 
-      // 7. Find target's socket ID
-      let targetSocketId = null;
-      for (const [peerId, peer] of room.peers) {
-        if (peer.userId === participantId) {
-          targetSocketId = peerId;
-          break;
-        }
-      }
+      // 5. Audit log success
+      await auditBreakoutAction(parentRoomId, random ? "ASSIGN_RANDOM" : "ASSIGN");
 
-      // 8. 🔥 CRITICAL: Check for active global controls and immediately exempt
-      if (targetSocketId) {
-        // Check if participant was previously muted by global control
-        if (targetParticipant.isAudioMuted) {
-          // Check if there are other participants still muted (indicating global mute might be active)
-          const mutedCount = await prisma.roomParticipant.count({
-            where: { roomId, role: "PARTICIPANT", isAudioMuted: true },
-          });
+      cb?.({ success: true, session: serialized });
+    } catch (err: any) {
+      console.error("Error in assign-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  socket.on("open-breakouts", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1-2. Rate limit + permission
+      const auth = await authorizeBreakoutAction(roomId);
+      if ("error" in auth) return cb?.(auth);
+      const { parentRoomId } = auth;
+
+      const session = await getActiveBreakoutSession(parentRoomId);
+      if (!session) return cb?.({ error: "Create breakout rooms first" });
+
+      // 3. Open (starts the duration timer, if any)
+      const opened = await openBreakoutSession(session.id);
+      const serialized = serializeBreakoutSession(opened);
+
+      // 4. Broadcast, then send each assignee to their breakout
+      broadcastBreakoutEvent(opened, "breakouts-opened", {
+        roomId: parentRoomId,
+        endsAt: opened.endsAt,
+        session: serialized,
+      });
+      await sendBreakoutAssignments(opened);
+
+      // 5. Audit log success
+      await auditBreakoutAction(parentRoomId, "OPEN");
+
+      console.log(`🧩 ${userId} opened breakout rooms in ${parentRoomId}`);
+      cb?.({ success: true, session: serialized });
+    } catch (err: any) {
+      console.error("Error in open-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  // countdownSeconds: 0 pulls everyone back right away; omitted uses
+  // BREAKOUT_CLOSE_COUNTDOWN_SECONDS
+  socket.on("close-breakouts", async ({ roomId, countdownSeconds }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1-2. Rate limit + permission
+      const auth = await authorizeBreakoutAction(roomId);
+      if ("error" in auth) return cb?.(auth);
+      const { parentRoomId } = auth;
+
+      const session = await getActiveBreakoutSession(parentRoomId);
+      if (!session) return cb?.({ error: "No breakout rooms to close" });
 
-          if (mutedCount > 0) {
-            // Global mute likely active, exempt the new co-host
-            io.to(targetSocketId).emit("allow-unmute", {
-              audio: false,
-              reason: "Promoted to Co-Host",
-            });
-            console.log(
-              `🔓 Exempted ${participantId} from global audio mute (promoted to co-host)`
-            );
-          }
-        }
+      // 3. Close - breakouts-closing / breakouts-closed go out from the
+      // breakout handlers, since timers close sessions too
+      const closed = await closeBreakoutSession(session.id, countdownSeconds);
+      if (!closed) return cb?.({ error: "Breakout rooms are already closing" });
 
-        // Check if participant's video was paused by global control
-        if (targetParticipant.isVideoPaused) {
-          // Check if there are other participants with paused video (indicating global disable might be active)
-          const pausedCount = await prisma.roomParticipant.count({
-            where: { roomId, role: "PARTICIPANT", isVideoPaused: true },
-          });
+      // 4. Audit log success
+      await auditBreakoutAction(parentRoomId, closed.status === "CLOSED" ? "RETURN_ALL" : "CLOSE");
 
-          if (pausedCount > 0) {
-            // Global video disable likely active, exempt the new co-host
-            io.to(targetSocketId).emit("allow-video-enable", {
-              video: false,
-              reason: "Promoted to Co-Host",
-            });
-            console.log(
-              `🔓 Exempted ${participantId} from global video disable (promoted to co-host)`
-            );
-          }
-        }
+      console.log(`🧩 ${userId} closed breakout rooms in ${parentRoomId} (${closed.status})`);
+      cb?.({ success: true, session: serializeBreakoutSession(closed) });
+    } catch (err: any) {
+      console.error("Error in close-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-        // Notify the promoted user
-        io.to(targetSocketId).emit("cohost-granted", {
-          by: requester.name || "Host",
-          roomId,
-        });
+  socket.on("broadcast-to-breakouts", async ({ roomId, message }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      if (typeof message !== "string" || !message.trim() || message.length > 1000) {
+        return cb?.({ error: "message must be 1-1000 characters" });
       }
 
-      // 9. Broadcast to all participants in room
-      io.to(roomId).emit("participant-updated", {
-        participantId,
-        updates: {
-          isCoHost: true,
-        },
+      // 1-2. Rate limit + permission
+      const auth = await authorizeBreakoutAction(roomId);
+      if ("error" in auth) return cb?.(auth);
+      const { parentRoomId } = auth;
+
+      const session = await getActiveBreakoutSession(parentRoomId);
+      if (!session || session.status === "PENDING") {
+        return cb?.({ error: "No breakout rooms are open" });
+      }
+
+      const sender = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId: parentRoomId, userId } },
       });
 
-      // 10. Confirm to host
-      socket.emit("success", { message: "Co-host status granted" });
+      // 3. Broadcast to the meeting and every breakout
+      broadcastBreakoutEvent(session, "breakout-broadcast", {
+        roomId: parentRoomId,
+        sessionId: session.id,
+        message: message.trim(),
+        from: { id: userId, name: sender?.name || "Host" },
+        sentAt: Date.now(),
+      });
 
-      // 11. Refresh participant list for all
-      const participants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        participants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+      // 4. Audit log success
+      await auditBreakoutAction(parentRoomId, "BROADCAST");
+
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("Error in broadcast-to-breakouts:", err);
+      cb?.({ error: err.message });
+    }
+  });
+
+  /* =========================
+     POLLS & QUIZZES
+  ========================= */
+
+  // Rate limit + MANAGE_POLLS
+  const authorizePollAction = async (roomId: string): Promise<{ error: string } | null> => {
+    const userId = socket.data.userId;
+
+    // 1. Rate limiting
+    if (!(await checkRateLimit(userId))) {
+      await auditLog({
+        action: "MANAGE_POLLS",
+        actor: userId,
+        roomId,
+        result: "DENIED",
+        reason: "RATE_LIMIT_EXCEEDED",
+        timestamp: new Date(),
+      });
+      return { error: "Too many actions. Please wait." };
+    }
 
-      // 12. Audit log success
-      if (actorUserId) {
+    // 2. Permission check
+    const permissionResult = await checkPermission(userId, roomId, "MANAGE_POLLS");
+
+    if (!permissionResult.allowed) {
+      if (permissionResult.shouldAuditLog) {
         await auditLog({
-          action: "MAKE_COHOST",
-          actor: actorUserId,
-          target: participantId,
+          action: "MANAGE_POLLS",
+          actor: userId,
           roomId,
-          result: "ALLOWED",
+          result: "DENIED",
+          reason: permissionResult.reason || "UNAUTHORIZED",
           timestamp: new Date(),
         });
       }
+      return { error: "Only hosts and co-hosts can manage polls" };
+    }
+
+    return null;
+  };
+
+  // Audit a successful poll action; reason says which one
+  const auditPollAction = (roomId: string, operation: string) =>
+    auditLog({
+      action: "MANAGE_POLLS",
+      actor: socket.data.userId,
+      roomId,
+      result: "ALLOWED",
+      reason: operation,
+      timestamp: new Date(),
+    });
+
+  // Body: { roomId, question, type, options?, anonymous?, ratingMax? }
+  // Options are strings, or { text, isCorrect } for a quiz
+  socket.on("create-poll", async ({ roomId, ...input }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      // 1-2. Rate limit + permission
+      const denied = await authorizePollAction(roomId);
+      if (denied) return cb?.(denied);
+
+      // 3. Store as a draft - only launching shows it to the room
+      const poll = await createPoll(roomId, userId, input);
+
+      // 4. Audit log success
+      await auditPollAction(roomId, "CREATE");
+
+      console.log(`📊 ${userId} drafted a ${poll.type} poll in ${roomId}`);
+      cb?.({ success: true, poll: serializePoll(poll, true) });
     } catch (err: any) {
-      console.error("❌ Error in make-cohost:", err);
-      socket.emit("error", { message: err.message });
+      console.error("Error in create-poll:", err);
+      cb?.({ error: err.message });
     }
   });
 
-  // ✅ Remove co-host status from participant
-  socket.on("remove-cohost", async ({ roomId, participantId }) => {
+  socket.on("launch-poll", async ({ roomId, pollId }, cb) => {
     try {
-      const room = await getOrCreateRoom(roomId);
-      const requester = room.peers.get(socket.id);
+      // 1-2. Rate limit + permission
+      const denied = await authorizePollAction(roomId);
+      if (denied) return cb?.(denied);
 
-      // Verify authorization - only host can remove co-hosts
-      if (!requester?.isHost) {
-        console.warn(`⛔ Non-host ${socket.id} attempted to remove co-host`);
-        socket.emit("error", { message: "Only hosts can remove co-hosts" });
-        return;
-      }
+      // 3. Open voting
+      const poll = await launchPoll(roomId, pollId);
 
-      // Find target participant in database
-      const targetParticipant = await prisma.roomParticipant.findUnique({
-        where: {
-          roomId_userId: {
-            roomId,
-            userId: participantId,
-          },
-        },
-      });
+      // 4. Broadcast
+      broadcastRoomEvent(roomId, "poll-launched", { roomId, poll: serializePoll(poll) });
 
-      if (!targetParticipant) {
-        socket.emit("error", { message: "Participant not found" });
-        return;
-      }
+      // 5. Audit log success
+      await auditPollAction(roomId, "LAUNCH");
 
-      // Check if global locks are active before demotion
-      const globalLockStatus = await prisma.roomParticipant.findFirst({
-        where: {
-          roomId,
-          role: "PARTICIPANT",
-          OR: [{ audioLocked: true }, { screenShareLocked: true }],
-        },
-        select: {
-          audioLocked: true,
-          screenShareLocked: true,
-        },
-      });
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("Error in launch-poll:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      const shouldApplyAudioLock = globalLockStatus?.audioLocked ?? false;
-      const shouldApplyScreenShareLock = globalLockStatus?.screenShareLocked ?? false;
+  socket.on("close-poll", async ({ roomId, pollId }, cb) => {
+    try {
+      // 1-2. Rate limit + permission
+      const denied = await authorizePollAction(roomId);
+      if (denied) return cb?.(denied);
 
-      // Update participant role in database and re-apply locks if needed
-      await prisma.roomParticipant.update({
-        where: {
-          roomId_userId: {
-            roomId,
-            userId: participantId,
-          },
-        },
-        data: {
-          role: "PARTICIPANT",
-          audioLocked: shouldApplyAudioLock,
-          screenShareLocked: shouldApplyScreenShareLock,
-        },
+      // 3. Stop voting
+      const poll = await closePoll(roomId, pollId);
+      const results = await getPollResults(poll);
+
+      // 4. Broadcast final results (quiz answers included)
+      broadcastRoomEvent(roomId, "poll-closed", {
+        roomId,
+        poll: serializePoll(poll),
+        results,
       });
 
-      // Update in-memory peer if they're connected
-      for (const [peerId, peer] of room.peers) {
-        if (peer.userId === participantId) {
-          peer.isCoHost = false;
-          break;
-        }
-      }
+      // 5. Audit log success
+      await auditPollAction(roomId, "CLOSE");
 
-      console.log(
-        `👥 ${participantId} demoted from co-host by ${
-          requester.name || socket.id
-        }`,
-        shouldApplyAudioLock ? "🔒 Audio locked" : "",
-        shouldApplyScreenShareLock ? "🔒 Screen share locked" : ""
-      );
+      cb?.({ success: true, results });
+    } catch (err: any) {
+      console.error("Error in close-poll:", err);
+      cb?.({ error: err.message });
+    }
+  });
 
-      // Broadcast to all participants in room
-      io.to(roomId).emit("participant-updated", {
-        participantId,
-        updates: {
-          isCoHost: false,
-        },
-      });
+  // Body: { roomId, pollId, optionIds } | { ..., rating } | { ..., text }
+  socket.on("vote-poll", async ({ roomId, pollId, optionIds, rating, text }, cb) => {
+    const userId = socket.data.userId;
 
-      // Find target's socket ID to notify them directly
-      let targetSocketId = null;
-      for (const [peerId, peer] of room.peers) {
-        if (peer.userId === participantId) {
-          targetSocketId = peerId;
-          break;
-        }
+    try {
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
       }
 
-      // Notify the demoted user and re-apply locks if needed
-      if (targetSocketId) {
-        io.to(targetSocketId).emit("cohost-revoked", {
-          by: requester.name || "Host",
-        });
+      const voter = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
 
-        // Re-apply audio lock if global mute is active
-        if (shouldApplyAudioLock) {
-          io.to(targetSocketId).emit("force-mute", {
-            audio: true,
-            by: "Host",
-            locked: true,
-          });
-          console.log(`🔒 Re-applied audio lock to demoted user ${participantId}`);
-        }
+      await castVote(roomId, pollId, userId, voter?.name ?? null, { optionIds, rating, text });
 
-        // Re-apply screen share lock if global disable is active
-        if (shouldApplyScreenShareLock) {
-          io.to(targetSocketId).emit("screenshare-control", {
-            enabled: false,
-            by: "Host",
-          });
-          console.log(`🔒 Re-applied screen share lock to demoted user ${participantId}`);
-        }
+      cb?.({ success: true });
+    } catch (err: any) {
+      console.error("Error in vote-poll:", err.message);
+      cb?.({ error: err.message });
+    }
+  });
+
+  // Launched and closed polls with results; hosts also get drafts and quiz answers
+  socket.on("get-polls", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
+
+    try {
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
       }
 
-      // Confirm to host
-      socket.emit("success", { message: "Co-host status removed" });
+      const isManager = (await checkPermission(userId, roomId, "MANAGE_POLLS")).allowed;
+      const polls = await listPolls(roomId, isManager);
 
-      // Refresh participant list for all
-      const participants = await prisma.roomParticipant.findMany({
-        where: { roomId, isConnected: true },
-      });
-      io.to(roomId).emit(
-        "participant-list-update",
-        participants.map((p) => ({
-          id: p.userId,
-          name: p.name,
-          imageUrl: p.imageUrl,
-          isAudioMuted: p.isAudioMuted,
-          isVideoPaused: p.isVideoPaused,
-          isHost: p.role === "HOST",
-          isCoHost: p.role === "COHOST",
-          audioLocked: p.audioLocked ?? false,
-          screenShareLocked: p.screenShareLocked ?? false,
-        }))
-      );
+      cb?.({
+        success: true,
+        polls: await Promise.all(
+          polls.map(async (poll) => ({
+            ...serializePoll(poll, isManager || poll.status === "CLOSED"),
+            results: poll.status === "DRAFT" ? null : await getPollResults(poll),
+            hasVoted: await hasVoted(poll.id, userId),
+          }))
+        ),
+      });
     } catch (err: any) {
-      console.error("❌ Error in remove-cohost:", err);
-      socket.emit("error", { message: err.message });
+      console.error("Error in get-polls:", err);
+      cb?.({ error: err.message });
     }
   });
 
-  // ✅ Host disables screen sharing for everyone
-  socket.on("host-disable-screenshare", async ({ roomId }) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
-
-      // Verify authorization - only hosts or co-hosts can disable
-      if (!peer?.isHost && !peer?.isCoHost) {
-        console.warn(
-          `⛔ Non-host/co-host ${socket.id} attempted to disable screen sharing`
-        );
-        socket.emit("error", {
-          message: "Only hosts and co-hosts can control screen sharing",
-        });
-        return;
-      }
+  /* =========================
+     Q&A
+  ========================= */
 
-      if (!room) {
-        socket.emit("error", { message: "Room not found" });
-        return;
-      }
+  // Rate limit + MODERATE_QA
+  const authorizeQaAction = async (roomId: string): Promise<{ error: string } | null> => {
+    const userId = socket.data.userId;
 
-      // Update room state
-      room.screenShareEnabled = false;
+    // 1. Rate limiting
+    if (!(await checkRateLimit(userId))) {
+      await auditLog({
+        action: "MODERATE_QA",
+        actor: userId,
+        roomId,
+        result: "DENIED",
+        reason: "RATE_LIMIT_EXCEEDED",
+        timestamp: new Date(),
+      });
+      return { error: "Too many actions. Please wait." };
+    }
 
-      console.log(
-        `🚫 Host ${peer.name || socket.id} disabled screen sharing in ${roomId}`
-      );
+    // 2. Permission check
+    const permissionResult = await checkPermission(userId, roomId, "MODERATE_QA");
 
-      // Close all active screen share producers
-      let closedCount = 0;
-      for (const [peerId, p] of room.peers) {
-        for (const [producerId, producer] of p.producers) {
-          const isScreenShare =
-            producer.appData?.share || producer.appData?.isScreenShare || false;
+    if (!permissionResult.allowed) {
+      if (permissionResult.shouldAuditLog) {
+        await auditLog({
+          action: "MODERATE_QA",
+          actor: userId,
+          roomId,
+          result: "DENIED",
+          reason: permissionResult.reason || "UNAUTHORIZED",
+          timestamp: new Date(),
+        });
+      }
+      return { error: "Only hosts and co-hosts can moderate Q&A" };
+    }
 
-          if (isScreenShare) {
-            console.log(
-              `🚫 Force closing screen share producer ${producerId} from ${peerId}`
-            );
+    return null;
+  };
 
-            // Close the producer - mediasoup will handle consumer cleanup
-            producer.close();
-            p.producers.delete(producerId);
-            closedCount++;
+  // Body: { roomId, text, anonymous? }
+  socket.on("ask-question", async ({ roomId, text, anonymous }, cb) => {
+    const userId = socket.data.userId;
 
-            // Broadcast producer closed
-            io.to(roomId).emit("producer-closed", {
-              producerId,
-              peerId,
-              userId: p.userId || peerId,
-              isScreenShare: true,
-              kind: producer.kind,
-            });
-          }
-        }
+    try {
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
       }
 
-      if (closedCount > 0) {
-        console.log(
-          `✅ Closed ${closedCount} screen share producer(s) in ${roomId}`
-        );
+      if (!(await checkRateLimit(userId))) {
+        return cb?.({ error: "Too many questions. Please wait." });
       }
 
-      // Broadcast permission change to ALL participants
-      io.to(roomId).emit("screenshare-global-update", {
-        enabled: false,
-        by: peer.name || "Host",
+      const asker = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId, userId } },
       });
 
-      // Confirm to host
-      socket.emit("success", { message: "Screen sharing disabled" });
+      const question = await askQuestion(roomId, userId, asker?.name ?? null, { text, anonymous });
+      await emitQuestions(roomId);
+
+      console.log(`❓ ${userId} asked a question in ${roomId} (${question.status})`);
+      cb?.({ success: true, questionId: question.id, status: question.status });
     } catch (err: any) {
-      console.error("❌ Error in host-disable-screenshare:", err);
-      socket.emit("error", { message: err.message });
+      console.error("Error in ask-question:", err.message);
+      cb?.({ error: err.message });
     }
   });
 
-  // ✅ Host enables screen sharing for everyone
-  socket.on("host-enable-screenshare", async ({ roomId }) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
-
-      // Verify authorization - only hosts or co-hosts can enable
-      if (!peer?.isHost && !peer?.isCoHost) {
-        console.warn(
-          `⛔ Non-host/co-host ${socket.id} attempted to enable screen sharing`
-        );
-        socket.emit("error", {
-          message: "Only hosts and co-hosts can control screen sharing",
-        });
-        return;
-      }
+  // Body: { roomId, questionId, upvote? } - upvote: false takes it back
+  socket.on("upvote-question", async ({ roomId, questionId, upvote = true }, cb) => {
+    const userId = socket.data.userId;
 
-      if (!room) {
-        socket.emit("error", { message: "Room not found" });
-        return;
+    try {
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
       }
 
-      // Update room state
-      room.screenShareEnabled = true;
-
-      console.log(
-        `✅ Host ${peer.name || socket.id} enabled screen sharing in ${roomId}`
-      );
-
-      // Broadcast permission change to ALL participants
-      io.to(roomId).emit("screenshare-global-update", {
-        enabled: true,
-        by: peer.name || "Host",
-      });
+      await setUpvote(roomId, questionId, userId, upvote !== false);
+      await emitQuestions(roomId);
 
-      // Confirm to host
-      socket.emit("success", { message: "Screen sharing enabled" });
+      cb?.({ success: true });
     } catch (err: any) {
-      console.error("❌ Error in host-enable-screenshare:", err);
-      socket.emit("error", { message: err.message });
+      console.error("Error in upvote-question:", err.message);
+      cb?.({ error: err.message });
     }
   });
 
-  // ✅ Legacy bulk action handler (kept for backwards compatibility)
-  socket.on("host-bulk-action", async ({ roomId, type, grant }, cb) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const peer = room.peers.get(socket.id);
+  // Body: { roomId, questionId, action: approve | dismiss | mark-answered | answer, answer? }
+  socket.on(
+    "moderate-question",
+    async (
+      {
+        roomId,
+        questionId,
+        action,
+        answer,
+      }: { roomId: string; questionId: string; action: ModerationAction; answer?: string },
+      cb
+    ) => {
+      const userId = socket.data.userId;
 
-      // Verify the user is a host
-      if (!peer?.isHost) {
-        console.warn(`⛔ Non-host ${socket.id} attempted host-bulk-action`);
-        return cb?.({ error: "Only hosts can perform bulk actions" });
-      }
+      try {
+        // 1-2. Rate limit + permission
+        const denied = await authorizeQaAction(roomId);
+        if (denied) return cb?.(denied);
 
-      // Handle screen share permission toggle
-      if (type === "screenshare") {
-        const wasEnabled = room.screenShareEnabled;
-        room.screenShareEnabled = grant;
+        // 3. Update the question
+        await moderateQuestion(roomId, questionId, userId, action, answer);
 
-        console.log(
-          `🖥️ Host ${socket.id} ${
-            grant ? "enabled" : "disabled"
-          } screen sharing in ${roomId}`
-        );
+        // 4. Broadcast
+        await emitQuestions(roomId);
 
-        // If disabling screen sharing, force close all active screen-share producers
-        if (!grant && wasEnabled) {
-          let closedCount = 0;
+        // 5. Audit log success
+        await auditLog({
+          action: "MODERATE_QA",
+          actor: userId,
+          roomId,
+          result: "ALLOWED",
+          reason: action.toUpperCase(),
+          timestamp: new Date(),
+        });
 
-          for (const [peerId, p] of room.peers) {
-            for (const [producerId, producer] of p.producers) {
-              const isScreenShare =
-                producer.appData?.share ||
-                producer.appData?.isScreenShare ||
-                false;
+        cb?.({ success: true });
+      } catch (err: any) {
+        console.error("Error in moderate-question:", err);
+        cb?.({ error: err.message });
+      }
+    }
+  );
 
-              if (isScreenShare) {
-                console.log(
-                  `🚫 Force closing screen share producer ${producerId} from ${peerId}`
-                );
+  // New questions wait for approval while moderation is on
+  socket.on("set-qa-moderation", async ({ roomId, enabled }, cb) => {
+    const userId = socket.data.userId;
 
-                // Close the producer - mediasoup will handle consumer cleanup
-                producer.close();
-                p.producers.delete(producerId);
-                closedCount++;
+    try {
+      // 1-2. Rate limit + permission
+      const denied = await authorizeQaAction(roomId);
+      if (denied) return cb?.(denied);
 
-                // Notify all participants that this producer was closed
-                io.to(roomId).emit("producer-closed", {
-                  producerId,
-                  peerId,
-                  userId: p.userId || peerId,
-                  isScreenShare: true,
-                  kind: producer.kind,
-                  reason: "disabled-by-host",
-                });
-              }
-            }
-          }
+      // 3. Persist the setting
+      await setQaModeration(roomId, enabled === true);
 
-          if (closedCount > 0) {
-            console.log(
-              `✅ Closed ${closedCount} screen share producer(s) in ${roomId}`
-            );
-          }
-        }
+      // 4. Broadcast
+      await emitQuestions(roomId);
 
-        // Broadcast state change to all participants
-        io.to(roomId).emit("screenshare-global-update", {
-          enabled: grant,
-          by: peer.name || "Host",
-        });
+      // 5. Audit log success
+      await auditLog({
+        action: "MODERATE_QA",
+        actor: userId,
+        roomId,
+        result: "ALLOWED",
+        reason: enabled === true ? "MODERATION_ON" : "MODERATION_OFF",
+        timestamp: new Date(),
+      });
 
-        cb?.({ success: true, enabled: grant });
-      } else {
-        // Handle other bulk action types if needed
-        cb?.({ error: `Unknown bulk action type: ${type}` });
-      }
+      console.log(`❓ Q&A moderation ${enabled === true ? "on" : "off"} in ${roomId}`);
+      cb?.({ success: true });
     } catch (err: any) {
-      console.error("❌ Error in host-bulk-action:", err);
+      console.error("Error in set-qa-moderation:", err);
       cb?.({ error: err.message });
     }
   });
 
-  /* =========================
-     RECORDING
-  ========================= */
+  // The caller's view of the question list (same shape as qa-updated)
+  socket.on("get-questions", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
 
-  socket.on("start-recording", async ({ roomId }, callback) => {
     try {
-      recordings.set(roomId, { startTime: Date.now() });
-      io.to(roomId).emit("recording-started", { roomId });
-      console.log(`🔴 Recording started: ${roomId}`);
-      callback?.({ success: true });
-    } catch (err: any) {
-      console.error("Error starting recording:", err);
-      callback?.({ error: err.message });
-    }
-  });
+      if (!socket.rooms.has(roomId)) {
+        return cb?.({ error: "Join the room first" });
+      }
 
-  socket.on("stop-recording", async ({ roomId }, callback) => {
-    try {
-      const recording = recordings.get(roomId);
-      if (!recording) return callback?.({ error: "No recording found" });
+      const isModerator = (await checkPermission(userId, roomId, "MODERATE_QA")).allowed;
+      const { moderated, questions } = await loadQuestions(roomId);
 
-      const duration = Date.now() - recording.startTime;
-      recordings.delete(roomId);
-      io.to(roomId).emit("recording-stopped", { roomId, duration });
-      console.log(`⏹️ Recording stopped: ${roomId}`);
-      callback?.({ success: true, duration });
+      cb?.({
+        success: true,
+        moderated,
+        questions: questionsFor(questions, userId, isModerator),
+      });
     } catch (err: any) {
-      console.error("Error stopping recording:", err);
-      callback?.({ error: err.message });
+      console.error("Error in get-questions:", err);
+      cb?.({ error: err.message });
     }
   });
 
   /* =========================
-     HOST MANAGEMENT
+     END MEETING
   ========================= */
 
-  socket.on("make-host", async ({ roomId, participantId }) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const requester = room.peers.get(socket.id);
+  // Ends the whole meeting for everyone; from a breakout room it ends the parent meeting
+  socket.on("end-meeting", async ({ roomId }, cb) => {
+    const userId = socket.data.userId;
 
-      // Only full hosts can make other hosts (not co-hosts)
-      if (!requester?.isHost) {
-        console.warn(`⛔ Non-host ${socket.id} attempted to make host`);
-        socket.emit("error", { message: "Only hosts can promote other hosts" });
-        return;
-      }
+    try {
+      const meetingId = await getParentRoomId(roomId);
 
-      const peer = room.peers.get(participantId);
-      if (!peer) {
-        socket.emit("error", { message: "Participant not found" });
-        return;
+      // 1. Rate limiting
+      if (!(await checkRateLimit(userId))) {
+        await auditLog({
+          action: "END_MEETING",
+          actor: userId,
+          roomId: meetingId,
+          result: "DENIED",
+          reason: "RATE_LIMIT_EXCEEDED",
+          timestamp: new Date(),
+        });
+        return cb?.({ error: "Too many actions. Please wait." });
       }
 
-      peer.isHost = true;
-      console.log(`👑 Made ${peer.name} a host`);
-
-      // Update participant list (filter out peers without userId)
-      const participants = Array.from(room.peers.values())
-        .filter((p) => p.userId)
-        .map((p) => ({
-          id: p.userId!,
-          name: p.name || "Unknown",
-          imageUrl: p.imageUrl,
-          isAudioMuted: false,
-          isVideoPaused: false,
-          isHost: p.isHost || false,
-          isCoHost: p.isCoHost || false,
-          audioLocked: false,
-          screenShareLocked: false,
-        }));
-      io.to(roomId).emit("participant-list-update", participants);
-    } catch (err) {
-      console.error("Error making host:", err);
-    }
-  });
-
-  socket.on("remove-host", async ({ roomId, participantId }) => {
-    try {
-      const room = await getOrCreateRoom(roomId);
-      const requester = room.peers.get(socket.id);
+      // 2. Permission check
+      const permissionResult = await checkPermission(userId, meetingId, "END_MEETING");
 
-      // Only full hosts can remove host status (not co-hosts)
-      if (!requester?.isHost) {
-        console.warn(`⛔ Non-host ${socket.id} attempted to remove host`);
-        socket.emit("error", { message: "Only hosts can remove host status" });
-        return;
+      if (!permissionResult.allowed) {
+        if (permissionResult.shouldAuditLog) {
+          await auditLog({
+            action: "END_MEETING",
+            actor: userId,
+            roomId: meetingId,
+            result: "DENIED",
+            reason: permissionResult.reason || "UNAUTHORIZED",
+            timestamp: new Date(),
+          });
+        }
+        return cb?.({ error: "Only hosts can end the meeting" });
       }
 
-      const peer = room.peers.get(participantId);
-      if (!peer) {
-        socket.emit("error", { message: "Participant not found" });
-        return;
-      }
+      // 3. Mark ENDED first so nobody can join while we tear down
+      const endedAt = new Date();
+      const { count } = await prisma.room.updateMany({
+        where: { id: meetingId, status: { not: "ENDED" } },
+        data: { status: "ENDED", endedAt, endedBy: userId },
+      });
+      if (count === 0) return cb?.({ error: "This meeting has already ended" });
 
-      peer.isHost = false;
-      console.log(`👤 Removed host status from ${peer.name}`);
+      // 4. Notify everyone and close their media
+      await closeMeeting(meetingId, { endedBy: userId, endedAt });
 
-      // Update participant list (filter out peers without userId)
-      const participants = Array.from(room.peers.values())
-        .filter((p) => p.userId)
-        .map((p) => ({
-          id: p.userId!,
-          name: p.name || "Unknown",
-          imageUrl: p.imageUrl,
-          isAudioMuted: false,
-          isVideoPaused: false,
-          isHost: p.isHost || false,
-          isCoHost: p.isCoHost || false,
-          audioLocked: false,
-          screenShareLocked: false,
-        }));
-      io.to(roomId).emit("participant-list-update", participants);
-    } catch (err) {
-      console.error("Error removing host:", err);
+      // 5. Audit log success
+      await auditLog({
+        action: "END_MEETING",
+        actor: userId,
+        roomId: meetingId,
+        result: "ALLOWED",
+        timestamp: new Date(),
+      });
+
+      cb?.({ success: true, endedAt });
+    } catch (err: any) {
+      console.error("Error in end-meeting:", err);
+      cb?.({ error: err.message });
     }
   });
 
@@ -3402,74 +7175,41 @@ io.on("connection", (socket) => {
      CLEANUP
   ========================= */
 
-  socket.on("disconnecting", async () => {
-    try {
-      for (const roomId of socket.rooms) {
-        if (roomId === socket.id) continue;
-
-        // Get userId before removing peer
-        const userId = (socket as any).data?.userId;
-
-        // Emit participant-left FIRST so frontend can clean up
-        io.to(roomId).emit("participant-left", {
-          peerId: socket.id,
-          userId: userId || null,
-        });
-
-        console.log(`👋 User ${socket.id} (${userId}) left room ${roomId}`);
+  socket.on("disconnecting", (reason) => {
+    // Drop this socket from any lobby it was waiting in
+    removeFromLobbies(socket.id).forEach(emitLobbyUpdate);
 
-        // Remove peer from mediasoup
-        removePeerFromRoom(roomId, socket.id);
+    const roomIds = Array.from(socket.rooms).filter((id) => id !== socket.id);
+    const userId = socket.data.userId;
 
-        // ✅ MARK AS DISCONNECTED (don't delete to preserve media state for rejoin)
-        if (userId) {
-          try {
-            await prisma.roomParticipant.update({
-              where: {
-                roomId_userId: {
-                  roomId,
-                  userId,
-                },
-              },
-              data: {
-                isConnected: false,
-                lastSeenAt: new Date(),
-              },
-            });
-            console.log(`🔌 Marked ${userId} as disconnected for room ${roomId} (media state preserved)`);
-          } catch (dbErr) {
-            console.error("Error updating participant disconnect status:", dbErr);
-          }
-        }
+    // Deliberate leave: tear down now. Network drop: give the client time to come back.
+    if (reason === "client namespace disconnect" || reason === "server namespace disconnect") {
+      roomIds.forEach((roomId) => finalizePeerDeparture(roomId, socket.id, userId));
+      return;
+    }
 
-        // Get room if it still exists (might be deleted if last peer)
-        const room = await getOrCreateRoom(roomId).catch(() => null);
-        if (!room) continue;
+    roomIds.forEach((roomId) => {
+      broadcastRoomEvent(
+        roomId,
+        "participant-reconnecting",
+        { peerId: socket.id, userId: userId || null },
+        socket.id
+      );
+    });
 
-        // Update participant list with remaining users
-        // Filter out any peers without userId (shouldn't happen with new validation)
-        const participants = Array.from(room.peers.values())
-          .filter((p) => p.userId) // Only include properly identified peers
-          .map((p) => ({
-            id: p.userId!,
-            name: p.name || "Unknown",
-            imageUrl: p.imageUrl,
-            isAudioMuted: false,
-            isVideoPaused: false,
-            isHost: p.isHost || false,
-            isCoHost: p.isCoHost || false,
-            audioLocked: false,
-            screenShareLocked: false,
-          }));
+    pendingDepartures.set(socket.id, {
+      userId,
+      roomIds,
+      since: Date.now(),
+      timer: setTimeout(() => {
+        pendingDepartures.delete(socket.id);
+        roomIds.forEach((roomId) => finalizePeerDeparture(roomId, socket.id, userId));
+      }, PEER_DISCONNECT_GRACE_MS),
+    });
 
-        if (participants.length > 0) {
-          io.to(roomId).emit("participant-list-update", participants);
-        }
-      }
-      console.log(`👋 User ${socket.id} disconnected from all rooms`);
-    } catch (err) {
-      console.error("Error during disconnect:", err);
-    }
+    console.log(
+      `⏳ ${socket.id} (${userId}) dropped (${reason}) - holding media for ${PEER_DISCONNECT_GRACE_MS}ms`
+    );
   });
 });
 
@@ -0,0 +1,258 @@
+import fs from "fs";
+import net from "net";
+import { TransportListenInfo } from "mediasoup/node/lib/types";
+
+/**
+ * WEBRTC TRANSPORT CONFIGURATION
+ * Loaded once at startup from env vars, optionally overridden by a JSON file
+ * (MEDIASOUP_CONFIG_FILE), and validated before any worker starts. An invalid
+ * config throws on import so the server never boots half-configured.
+ *
+ * JSON file shape (every field optional):
+ * {
+ *   "listenInfos": [
+ *     { "protocol": "udp", "ip": "0.0.0.0", "announcedAddress": "203.0.113.10",
+ *       "portRange": { "min": 40000, "max": 44999 } },
+ *     { "protocol": "tcp", "ip": "::", "portRange": { "min": 45000, "max": 49999 } }
+ *   ],
+ *   "preferUdp": true,
+ *   "initialAvailableOutgoingBitrate": 1000000,
+ *   "maxIncomingBitrate": 1500000,
+ *   "enableSctp": false,
+ *   "webRtcServer": { "enabled": true, "port": 44444 }
+ * }
+ */
+
+export type PortRange = { min: number; max: number };
+
+export type ListenInfoConfig = {
+  protocol: "udp" | "tcp";
+  ip: string;
+  announcedAddress?: string;
+  portRange?: PortRange;
+};
+
+export type WebRtcServerConfig = {
+  enabled: boolean;
+  port: number; // Worker N listens on port + N (UDP and TCP)
+};
+
+export type TransportConfig = {
+  listenInfos: ListenInfoConfig[];
+  preferUdp: boolean;
+  initialAvailableOutgoingBitrate: number;
+  maxIncomingBitrate?: number;
+  enableSctp: boolean;
+  webRtcServer: WebRtcServerConfig;
+};
+
+export class TransportConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid WebRTC transport configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "TransportConfigError";
+  }
+}
+
+/* =========================
+   ENV PARSING
+========================= */
+
+const parsePortRange = (value: string | undefined): PortRange | undefined => {
+  if (!value) return undefined;
+  const [min, max] = value.split("-").map(Number);
+  return { min, max };
+};
+
+const parseNumber = (value: string | undefined) =>
+  value === undefined || value === "" ? undefined : Number(value);
+
+const parseBoolean = (value: string | undefined, fallback: boolean) =>
+  value === undefined || value === "" ? fallback : value === "true" || value === "1";
+
+/**
+ * Build listen infos from env:
+ * - MEDIASOUP_LISTEN_IP            IPv4 to bind (default 0.0.0.0)
+ * - MEDIASOUP_ANNOUNCED_ADDRESS    public IP/hostname advertised in ICE candidates
+ *                                  (falls back to RAILWAY_PUBLIC_DOMAIN, then
+ *                                  127.0.0.1 for local development)
+ * - MEDIASOUP_LISTEN_IPV6          optional IPv6 to bind as well (e.g. "::")
+ * - MEDIASOUP_ANNOUNCED_ADDRESS_V6 public IPv6 advertised for it
+ * - MEDIASOUP_UDP_PORT_RANGE / MEDIASOUP_TCP_PORT_RANGE  "min-max" per protocol
+ */
+const listenInfosFromEnv = (): ListenInfoConfig[] => {
+  const udpRange = parsePortRange(process.env.MEDIASOUP_UDP_PORT_RANGE);
+  const tcpRange = parsePortRange(process.env.MEDIASOUP_TCP_PORT_RANGE);
+
+  const addresses: Array<{ ip: string; announcedAddress?: string }> = [
+    {
+      ip: process.env.MEDIASOUP_LISTEN_IP || "0.0.0.0",
+      announcedAddress:
+        process.env.MEDIASOUP_ANNOUNCED_ADDRESS || process.env.RAILWAY_PUBLIC_DOMAIN || "127.0.0.1",
+    },
+  ];
+  if (process.env.MEDIASOUP_LISTEN_IPV6) {
+    addresses.push({
+      ip: process.env.MEDIASOUP_LISTEN_IPV6,
+      announcedAddress: process.env.MEDIASOUP_ANNOUNCED_ADDRESS_V6,
+    });
+  }
+
+  return addresses.flatMap(({ ip, announcedAddress }) => [
+    { protocol: "udp" as const, ip, announcedAddress, portRange: udpRange },
+    { protocol: "tcp" as const, ip, announcedAddress, portRange: tcpRange },
+  ]);
+};
+
+const configFromEnv = (): TransportConfig => {
+  const webRtcServerPort = parseNumber(process.env.MEDIASOUP_WEBRTC_SERVER_PORT);
+
+  return {
+    listenInfos: listenInfosFromEnv(),
+    preferUdp: parseBoolean(process.env.MEDIASOUP_PREFER_UDP, true),
+    initialAvailableOutgoingBitrate:
+      parseNumber(process.env.MEDIASOUP_INITIAL_OUTGOING_BITRATE) ?? 1000000,
+    maxIncomingBitrate: parseNumber(process.env.MEDIASOUP_MAX_INCOMING_BITRATE),
+    enableSctp: parseBoolean(process.env.MEDIASOUP_ENABLE_SCTP, false),
+    webRtcServer: {
+      enabled: webRtcServerPort !== undefined,
+      port: webRtcServerPort ?? 44444,
+    },
+  };
+};
+
+/* =========================
+   VALIDATION
+========================= */
+
+const isPort = (port: unknown) =>
+  typeof port === "number" && Number.isInteger(port) && port > 0 && port <= 65535;
+
+export const validateTransportConfig = (config: TransportConfig) => {
+  const problems: string[] = [];
+
+  if (!Array.isArray(config.listenInfos) || config.listenInfos.length === 0) {
+    problems.push("listenInfos must contain at least one entry");
+  }
+
+  (config.listenInfos || []).forEach((info, i) => {
+    const where = `listenInfos[${i}]`;
+    if (info.protocol !== "udp" && info.protocol !== "tcp") {
+      problems.push(`${where}.protocol must be "udp" or "tcp"`);
+    }
+    if (!net.isIP(info.ip)) {
+      problems.push(`${where}.ip "${info.ip}" is not an IPv4/IPv6 address`);
+    }
+    if (!info.announcedAddress && (info.ip === "0.0.0.0" || info.ip === "::")) {
+      problems.push(
+        `${where} binds the wildcard address ${info.ip} and needs an announcedAddress`
+      );
+    }
+    if (info.portRange) {
+      const { min, max } = info.portRange;
+      if (!isPort(min) || !isPort(max) || min > max) {
+        problems.push(`${where}.portRange ${min}-${max} is not a valid port range`);
+      }
+    }
+  });
+
+  if (
+    !Number.isFinite(config.initialAvailableOutgoingBitrate) ||
+    config.initialAvailableOutgoingBitrate <= 0
+  ) {
+    problems.push("initialAvailableOutgoingBitrate must be a positive number");
+  }
+
+  if (
+    config.maxIncomingBitrate !== undefined &&
+    (!Number.isFinite(config.maxIncomingBitrate) || config.maxIncomingBitrate <= 0)
+  ) {
+    problems.push("maxIncomingBitrate must be a positive number");
+  }
+
+  if (config.webRtcServer.enabled && !isPort(config.webRtcServer.port)) {
+    problems.push(`webRtcServer.port ${config.webRtcServer.port} is not a valid port`);
+  }
+
+  if (problems.length > 0) throw new TransportConfigError(problems);
+  return config;
+};
+
+/* =========================
+   LOADING
+========================= */
+
+const loadTransportConfig = (): TransportConfig => {
+  let config = configFromEnv();
+
+  const file = process.env.MEDIASOUP_CONFIG_FILE;
+  if (file) {
+    const overrides = JSON.parse(fs.readFileSync(file, "utf8"));
+    config = {
+      ...config,
+      ...overrides,
+      webRtcServer: { ...config.webRtcServer, ...overrides.webRtcServer },
+    };
+  }
+
+  validateTransportConfig(config);
+
+  console.log(
+    `🌐 WebRTC transports: ${config.listenInfos
+      .map((l) => `${l.protocol}/${l.ip}${l.announcedAddress ? `→${l.announcedAddress}` : ""}`)
+      .join(", ")}${config.webRtcServer.enabled ? ` via WebRtcServer :${config.webRtcServer.port}` : ""}`
+  );
+
+  return config;
+};
+
+export const transportConfig = loadTransportConfig();
+
+/**
+ * Split a port range evenly between `count` workers so they never race for
+ * the same port
+ */
+export const slicePortRange = (
+  range: PortRange,
+  index: number,
+  count: number
+): PortRange => {
+  const size = Math.floor((range.max - range.min + 1) / count);
+  const min = range.min + index * size;
+  const max = index === count - 1 ? range.max : min + size - 1;
+  return { min, max };
+};
+
+// Keep IPv6 sockets off the IPv4 stack so both can bind the same port
+const socketFlags = (ip: string) =>
+  net.isIPv6(ip) ? { ipv6Only: true } : undefined;
+
+/**
+ * mediasoup listen infos for the worker at `workerIndex`
+ */
+export const listenInfosForWorker = (
+  workerIndex: number,
+  workerCount: number
+): TransportListenInfo[] =>
+  transportConfig.listenInfos.map((info) => ({
+    protocol: info.protocol,
+    ip: info.ip,
+    announcedAddress: info.announcedAddress,
+    flags: socketFlags(info.ip),
+    portRange: info.portRange
+      ? slicePortRange(info.portRange, workerIndex, workerCount)
+      : undefined,
+  }));
+
+/**
+ * WebRtcServer listen infos: one fixed port per worker, shared by UDP and TCP
+ */
+export const webRtcServerListenInfos = (
+  workerIndex: number
+): TransportListenInfo[] =>
+  transportConfig.listenInfos.map((info) => ({
+    protocol: info.protocol,
+    ip: info.ip,
+    announcedAddress: info.announcedAddress,
+    flags: socketFlags(info.ip),
+    port: transportConfig.webRtcServer.port + workerIndex,
+  }));
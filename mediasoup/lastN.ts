@@ -0,0 +1,110 @@
+import type { Room, Peer } from "./rooms";
+
+/**
+ * LAST-N VIDEO FORWARDING
+ * Each peer receives video from at most LAST_N other participants, picked by
+ * how recently they were the active speaker, plus every pinned participant
+ * and every screen share. The remaining video consumers are paused
+ * server-side, so they cost no bandwidth. If a peer declares its on-screen
+ * tiles with set-visible-peers, only those participants are candidates.
+ */
+
+const LAST_N = Number(process.env.LAST_N) || 9;
+
+// Most recent active speaker first
+const recentSpeakers = new Map<string, string[]>();
+
+export type LastNState = {
+  forwarding: string[]; // userIds whose camera is forwarded
+  paused: string[]; // userIds whose camera is held back
+  changed: boolean; // Differs from what the peer was last told
+};
+
+const lastReported = new WeakMap<Peer, string>();
+
+export const noteActiveSpeaker = (roomId: string, userId: string | null) => {
+  if (!userId) return;
+  const recent = (recentSpeakers.get(roomId) || []).filter((id) => id !== userId);
+  recent.unshift(userId);
+  recentSpeakers.set(roomId, recent);
+};
+
+export const forgetRoomSpeakers = (roomId: string) => recentSpeakers.delete(roomId);
+
+/**
+ * Which participants' cameras `peer` should receive
+ */
+const selectForwarded = (roomId: string, room: Room, peer: Peer): Set<string> => {
+  const recent = recentSpeakers.get(roomId) || [];
+
+  // Participants in join order; those who spoke recently move to the front
+  const others = Array.from(room.peers.values())
+    .map((p) => p.userId)
+    .filter((id): id is string => Boolean(id) && id !== peer.userId);
+
+  const candidates = peer.visibleUserIds
+    ? others.filter((id) => peer.visibleUserIds!.has(id))
+    : others;
+
+  const rank = (id: string) => {
+    const i = recent.indexOf(id);
+    return i === -1 ? recent.length : i;
+  };
+  const ranked = [...candidates].sort((a, b) => rank(a) - rank(b));
+
+  return new Set([
+    ...ranked.slice(0, LAST_N),
+    ...Array.from(peer.pinnedUserIds || []),
+  ]);
+};
+
+/**
+ * Pause/resume `peer`'s video consumers to match the policy. Consumers the
+ * client hasn't resumed yet are only flagged; resume-consumer checks
+ * `isForwardingAllowed` before resuming them.
+ */
+export const applyLastN = async (
+  roomId: string,
+  room: Room,
+  peer: Peer
+): Promise<LastNState> => {
+  const forwarded = selectForwarded(roomId, room, peer);
+  const state: LastNState = { forwarding: [], paused: [], changed: false };
+
+  for (const consumer of peer.consumers.values()) {
+    if (consumer.kind !== "video" || consumer.closed) continue;
+
+    const ownerId = consumer.appData.producerUserId as string | undefined;
+    const allowed = consumer.appData.isScreenShare || !ownerId || forwarded.has(ownerId);
+
+    if (ownerId && !consumer.appData.isScreenShare) {
+      (allowed ? state.forwarding : state.paused).push(ownerId);
+    }
+
+    if (!allowed && !consumer.appData.lastNPaused) {
+      consumer.appData.lastNPaused = true;
+      if (consumer.appData.clientResumed) await consumer.pause();
+    } else if (allowed && consumer.appData.lastNPaused) {
+      consumer.appData.lastNPaused = false;
+      if (consumer.appData.clientResumed) await consumer.resume();
+    }
+  }
+
+  state.forwarding = Array.from(new Set(state.forwarding));
+  state.paused = Array.from(new Set(state.paused));
+
+  const report = JSON.stringify([state.forwarding, state.paused]);
+  state.changed = lastReported.get(peer) !== report;
+  lastReported.set(peer, report);
+
+  return state;
+};
+
+/**
+ * Whether a consumer may be resumed right now (false = held back by last-N)
+ */
+export const isForwardingAllowed = (roomId: string, room: Room, peer: Peer, consumer: any) => {
+  if (consumer.kind !== "video" || consumer.appData.isScreenShare) return true;
+  const ownerId = consumer.appData.producerUserId as string | undefined;
+  return !ownerId || selectForwarded(roomId, room, peer).has(ownerId);
+};
@@ -0,0 +1,207 @@
+import { parseScalabilityMode } from "mediasoup";
+import {
+  Consumer,
+  ConsumerLayers,
+  WebRtcTransport,
+} from "mediasoup/node/lib/types";
+
+/**
+ * CONSUMER QUALITY CONTROL
+ * Simulcast/SVC video consumers forward the layers the client asked for
+ * (set-consumer-preferred-layers), capped automatically when:
+ * - the consumer's score stays low (packet loss / congestion on that stream)
+ * - the receive transport's available bitrate, split across its video
+ *   consumers, can't carry the higher layers
+ * The cap is lifted again once conditions recover.
+ */
+
+type QualityState = {
+  maxSpatialLayer: number;
+  maxTemporalLayer: number;
+  requested?: ConsumerLayers; // What the client asked for
+  scoreCap: number; // Spatial cap from the consumer score
+  bitrateCap: number; // Spatial cap from the transport's bandwidth
+  lowScoreStreak: number;
+  highScoreStreak: number;
+};
+
+// Score (0-10) at or below which a stream counts as struggling
+const LOW_SCORE = 5;
+const HIGH_SCORE = 9;
+// Consecutive score events before stepping down / back up
+const DOWNGRADE_AFTER = 2;
+const UPGRADE_AFTER = 5;
+
+const QUALITY_CHECK_INTERVAL_MS =
+  Number(process.env.QUALITY_CHECK_INTERVAL_MS) || 5000;
+
+// Minimum per-stream bitrate (bps) to forward each spatial layer: index = layer
+const LAYER_MIN_BITRATE = [0, 250000, 700000];
+
+const states = new WeakMap<Consumer, QualityState>();
+const transportMonitors = new Map<string, NodeJS.Timeout>();
+
+const isLayered = (consumer: Consumer) =>
+  consumer.kind === "video" &&
+  (consumer.type === "simulcast" || consumer.type === "svc");
+
+/**
+ * Apply min(requested, score cap, bitrate cap) to the consumer
+ */
+const applyLayers = async (consumer: Consumer) => {
+  const state = states.get(consumer);
+  if (!state || consumer.closed) return;
+
+  const requestedSpatial = state.requested?.spatialLayer ?? state.maxSpatialLayer;
+  const spatialLayer = Math.max(
+    0,
+    Math.min(requestedSpatial, state.scoreCap, state.bitrateCap)
+  );
+  const temporalLayer = Math.min(
+    state.requested?.temporalLayer ?? state.maxTemporalLayer,
+    state.maxTemporalLayer
+  );
+
+  const current = consumer.preferredLayers;
+  if (
+    current?.spatialLayer === spatialLayer &&
+    current?.temporalLayer === temporalLayer
+  ) {
+    return;
+  }
+
+  await consumer.setPreferredLayers({ spatialLayer, temporalLayer });
+};
+
+/* =========================
+   SCORE-BASED DOWNGRADE
+========================= */
+
+const onScore = (consumer: Consumer, score: number) => {
+  const state = states.get(consumer);
+  if (!state) return;
+
+  if (score <= LOW_SCORE) {
+    state.highScoreStreak = 0;
+    if (++state.lowScoreStreak >= DOWNGRADE_AFTER && state.scoreCap > 0) {
+      state.scoreCap--;
+      state.lowScoreStreak = 0;
+      console.log(`📉 Consumer ${consumer.id} score ${score} - capping to spatial layer ${state.scoreCap}`);
+      applyLayers(consumer).catch(() => {});
+    }
+  } else if (score >= HIGH_SCORE) {
+    state.lowScoreStreak = 0;
+    if (
+      ++state.highScoreStreak >= UPGRADE_AFTER &&
+      state.scoreCap < state.maxSpatialLayer
+    ) {
+      state.scoreCap++;
+      state.highScoreStreak = 0;
+      applyLayers(consumer).catch(() => {});
+    }
+  }
+};
+
+/* =========================
+   BITRATE-BASED DOWNGRADE
+========================= */
+
+const checkTransportBitrate = async (
+  transport: WebRtcTransport,
+  consumers: () => Consumer[]
+) => {
+  if (transport.closed) return;
+
+  const [stats] = await transport.getStats();
+  const available = stats?.availableOutgoingBitrate;
+  if (!available) return;
+
+  const layered = consumers().filter(
+    (c) => !c.closed && !c.paused && isLayered(c)
+  );
+  if (layered.length === 0) return;
+
+  const perStream = available / layered.length;
+  const cap = LAYER_MIN_BITRATE.filter((min) => perStream >= min).length - 1;
+
+  for (const consumer of layered) {
+    const state = states.get(consumer);
+    const bitrateCap = Math.min(cap, state?.maxSpatialLayer ?? 0);
+    if (!state || state.bitrateCap === bitrateCap) continue;
+    state.bitrateCap = bitrateCap;
+    await applyLayers(consumer).catch(() => {});
+  }
+};
+
+/* =========================
+   PUBLIC API
+========================= */
+
+/**
+ * Start managing a freshly created consumer. `consumers` lists every
+ * consumer on the same receive transport (for the bandwidth split).
+ */
+export const manageConsumerQuality = (
+  consumer: Consumer,
+  transport: WebRtcTransport,
+  consumers: () => Consumer[]
+) => {
+  if (!isLayered(consumer)) return;
+
+  const { spatialLayers, temporalLayers } = parseScalabilityMode(
+    consumer.rtpParameters.encodings?.[0]?.scalabilityMode
+  );
+
+  states.set(consumer, {
+    maxSpatialLayer: spatialLayers - 1,
+    maxTemporalLayer: temporalLayers - 1,
+    scoreCap: spatialLayers - 1,
+    bitrateCap: spatialLayers - 1,
+    lowScoreStreak: 0,
+    highScoreStreak: 0,
+  });
+
+  consumer.on("score", ({ score }) => onScore(consumer, score));
+
+  if (!transportMonitors.has(transport.id)) {
+    const timer = setInterval(() => {
+      checkTransportBitrate(transport, consumers).catch((err) =>
+        console.error(`Error checking transport ${transport.id} bitrate:`, err)
+      );
+    }, QUALITY_CHECK_INTERVAL_MS);
+
+    transportMonitors.set(transport.id, timer);
+    transport.observer.once("close", () => {
+      clearInterval(timer);
+      transportMonitors.delete(transport.id);
+    });
+  }
+};
+
+/**
+ * Client-requested layers (e.g. small grid tile → spatial 0). Still subject
+ * to the automatic caps.
+ */
+export const setRequestedLayers = async (
+  consumer: Consumer,
+  layers: ConsumerLayers
+) => {
+  const state = states.get(consumer);
+  if (!state) throw new Error("Consumer does not support layer selection");
+
+  if (
+    !Number.isInteger(layers.spatialLayer) ||
+    layers.spatialLayer < 0 ||
+    layers.spatialLayer > state.maxSpatialLayer
+  ) {
+    throw new Error(`spatialLayer must be between 0 and ${state.maxSpatialLayer}`);
+  }
+
+  state.requested = layers;
+  await applyLayers(consumer);
+
+  return {
+    requested: layers,
+    effective: consumer.preferredLayers,
+  };
+};
@@ -0,0 +1,362 @@
+import fs from "fs";
+import path from "path";
+import { spawn, ChildProcess } from "child_process";
+import {
+  Router,
+  PlainTransport,
+  Consumer,
+  Producer,
+} from "mediasoup/node/lib/types";
+import { prisma } from "../prisma";
+import { Room, Peer, getRoom, ensureProducerOnRouter } from "./rooms";
+
+/**
+ * SERVER-SIDE RECORDING
+ * Each producer is piped through its own PlainTransport into a local FFmpeg
+ * process that writes one file per track (no transcoding, `-c copy`).
+ */
+
+export const RECORDINGS_DIR = path.resolve(
+  process.env.RECORDINGS_DIR || "recordings"
+);
+const FFMPEG_PATH = process.env.RECORDER_FFMPEG_PATH || "ffmpeg";
+const RECORDER_IP = "127.0.0.1";
+const MIN_PORT = Number(process.env.RECORDER_MIN_PORT) || 30000;
+const MAX_PORT = Number(process.env.RECORDER_MAX_PORT) || 30999;
+
+type TrackRecorder = {
+  fileId: string;
+  filePath: string;
+  rtpPort: number;
+  transport: PlainTransport;
+  consumer: Consumer;
+  process: ChildProcess;
+  failed: boolean;
+  stopping?: Promise<void>;
+};
+
+type RecordingSession = {
+  recordingId: string;
+  roomId: string;
+  router: Router;
+  dir: string;
+  startTime: number;
+  tracks: Map<string, TrackRecorder>; // keyed by producerId
+};
+
+const sessions = new Map<string, RecordingSession>();
+
+/* =========================
+   PORT ALLOCATION
+   Each track needs an RTP/RTCP pair (even port + next odd port)
+========================= */
+const usedPorts = new Set<number>();
+
+const allocatePortPair = (): number => {
+  for (let port = MIN_PORT + (MIN_PORT % 2); port + 1 <= MAX_PORT; port += 2) {
+    if (!usedPorts.has(port)) {
+      usedPorts.add(port);
+      return port;
+    }
+  }
+  throw new Error("No free recorder ports");
+};
+
+const releasePortPair = (port: number) => usedPorts.delete(port);
+
+/* =========================
+   SDP / CONTAINER HELPERS
+========================= */
+
+const containerFor = (mimeType: string) => {
+  const codec = mimeType.split("/")[1].toLowerCase();
+  // Matroska takes H264 without needing a moov atom on exit
+  if (codec === "h264") return { ext: "mkv", mimeType: "video/x-matroska" };
+  return {
+    ext: "webm",
+    mimeType: mimeType.startsWith("audio") ? "audio/webm" : "video/webm",
+  };
+};
+
+/**
+ * Describe the consumer's RTP stream so FFmpeg can receive it on rtpPort
+ */
+const createSdp = (consumer: Consumer, rtpPort: number): string => {
+  const codec = consumer.rtpParameters.codecs[0];
+  const [, codecName] = codec.mimeType.split("/");
+  const channels = codec.channels ? `/${codec.channels}` : "";
+  const fmtp = Object.entries(codec.parameters || {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";");
+
+  return [
+    "v=0",
+    `o=- 0 0 IN IP4 ${RECORDER_IP}`,
+    "s=KANI Recording",
+    `c=IN IP4 ${RECORDER_IP}`,
+    "t=0 0",
+    `m=${consumer.kind} ${rtpPort} RTP/AVP ${codec.payloadType}`,
+    `a=rtcp:${rtpPort + 1}`,
+    `a=rtpmap:${codec.payloadType} ${codecName}/${codec.clockRate}${channels}`,
+    ...(fmtp ? [`a=fmtp:${codec.payloadType} ${fmtp}`] : []),
+    "a=recvonly",
+    "",
+  ].join("\n");
+};
+
+const safeName = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+/* =========================
+   TRACK LIFECYCLE
+========================= */
+
+/**
+ * Start recording a single producer into its own file
+ */
+export const addProducerToRecording = async (
+  roomId: string,
+  producer: Producer,
+  peer: Peer
+) => {
+  const session = sessions.get(roomId);
+  if (!session || session.tracks.has(producer.id) || producer.closed) return;
+
+  const rtpPort = allocatePortPair();
+
+  try {
+    // The producer may live on another router of the room
+    const room = getRoom(roomId);
+    if (room) await ensureProducerOnRouter(room, producer.id, session.router);
+
+    const transport = await session.router.createPlainTransport({
+      listenIp: { ip: RECORDER_IP },
+      rtcpMux: false,
+      comedia: false,
+    });
+
+    await transport.connect({
+      ip: RECORDER_IP,
+      port: rtpPort,
+      rtcpPort: rtpPort + 1,
+    });
+
+    // Start paused - resumed once FFmpeg is listening
+    const consumer = await transport.consume({
+      producerId: producer.id,
+      rtpCapabilities: session.router.rtpCapabilities,
+      paused: true,
+    });
+
+    const isScreenShare =
+      producer.appData?.share || producer.appData?.isScreenShare || false;
+    const container = containerFor(consumer.rtpParameters.codecs[0].mimeType);
+    const fileName = `${safeName(peer.userId || peer.socketId)}-${producer.kind}${
+      isScreenShare ? "-screen" : ""
+    }-${producer.id}.${container.ext}`;
+    const filePath = path.join(session.dir, fileName);
+
+    const file = await prisma.recordingFile.create({
+      data: {
+        recordingId: session.recordingId,
+        userId: peer.userId,
+        kind: producer.kind,
+        isScreenShare: Boolean(isScreenShare),
+        fileName,
+        mimeType: container.mimeType,
+      },
+    });
+
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      "-loglevel", "warning",
+      "-protocol_whitelist", "pipe,udp,rtp",
+      "-fflags", "+genpts",
+      "-f", "sdp",
+      "-i", "pipe:0",
+      "-map", "0",
+      "-c", "copy",
+      "-y", filePath,
+    ]);
+
+    const track: TrackRecorder = {
+      fileId: file.id,
+      filePath,
+      rtpPort,
+      transport,
+      consumer,
+      process: ffmpeg,
+      failed: false,
+    };
+    session.tracks.set(producer.id, track);
+
+    ffmpeg.on("error", (err) => {
+      console.error(`❌ Recorder process failed for producer ${producer.id}:`, err.message);
+      track.failed = true;
+    });
+    ffmpeg.stderr?.on("data", (data) => {
+      console.warn(`🎞️ ffmpeg [${producer.id}]: ${data.toString().trim()}`);
+    });
+    ffmpeg.stdin?.on("error", () => {}); // process may die before reading the SDP
+    ffmpeg.stdin?.end(createSdp(consumer, rtpPort));
+
+    // Producer left mid-recording - finalize just this file
+    consumer.on("producerclose", () => {
+      stopTrack(session, producer.id).catch((err) =>
+        console.error("Error stopping recorder track:", err)
+      );
+    });
+
+    // Give FFmpeg a moment to bind before media starts flowing
+    setTimeout(async () => {
+      try {
+        if (consumer.closed) return;
+        await consumer.resume();
+        if (consumer.kind === "video") await consumer.requestKeyFrame();
+      } catch (err) {
+        console.error("Error resuming recorder consumer:", err);
+      }
+    }, 1000);
+
+    console.log(`⏺️ Recording ${producer.kind} producer ${producer.id} → ${fileName}`);
+  } catch (err) {
+    releasePortPair(rtpPort);
+    throw err;
+  }
+};
+
+/**
+ * Stop one track: close its transport, let FFmpeg finalize the file and
+ * store the final size
+ */
+const stopTrack = (session: RecordingSession, producerId: string) => {
+  const track = session.tracks.get(producerId);
+  if (!track) return Promise.resolve();
+  if (track.stopping) return track.stopping;
+
+  track.stopping = (async () => {
+    if (!track.transport.closed) track.transport.close();
+
+    // SIGINT lets FFmpeg write the container trailer; force kill as a fallback
+    await new Promise<void>((resolve) => {
+      if (track.process.exitCode !== null || track.failed) return resolve();
+      const killTimer = setTimeout(() => {
+        track.process.kill("SIGKILL");
+        resolve();
+      }, 5000);
+      track.process.once("exit", () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      track.process.kill("SIGINT");
+    });
+
+    releasePortPair(track.rtpPort);
+
+    const sizeBytes = fs.existsSync(track.filePath)
+      ? fs.statSync(track.filePath).size
+      : 0;
+
+    await prisma.recordingFile.update({
+      where: { id: track.fileId },
+      data: { stoppedAt: new Date(), sizeBytes: BigInt(sizeBytes) },
+    });
+  })();
+
+  return track.stopping;
+};
+
+/* =========================
+   SESSION LIFECYCLE
+========================= */
+
+export const getRecordingSession = (roomId: string) => sessions.get(roomId);
+
+/**
+ * Start recording every producer currently in the room.
+ * Producers created later are added from the `produce` handler.
+ */
+export const startRecording = async (
+  roomId: string,
+  room: Room,
+  startedBy: string
+) => {
+  if (sessions.has(roomId)) {
+    throw new Error("Recording already in progress");
+  }
+
+  const recording = await prisma.recording.create({
+    data: { roomId, startedBy, status: "RECORDING" },
+  });
+
+  const dir = path.join(RECORDINGS_DIR, safeName(roomId), recording.id);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const session: RecordingSession = {
+    recordingId: recording.id,
+    roomId,
+    router: room.router,
+    dir,
+    startTime: Date.now(),
+    tracks: new Map(),
+  };
+  sessions.set(roomId, session);
+
+  // Last peer left and the router closed - finalize what we have
+  room.router.observer.once("close", () => {
+    if (sessions.get(roomId) === session) {
+      stopRecording(roomId).catch((err) =>
+        console.error("Error finalizing recording on router close:", err)
+      );
+    }
+  });
+
+  for (const peer of room.peers.values()) {
+    for (const producer of peer.producers.values()) {
+      await addProducerToRecording(roomId, producer, peer).catch((err) =>
+        console.error(`Error recording producer ${producer.id}:`, err)
+      );
+    }
+  }
+
+  return session;
+};
+
+/**
+ * Stop all tracks and mark the Recording row COMPLETED (or FAILED when no
+ * track produced any data)
+ */
+export const stopRecording = async (roomId: string) => {
+  const session = sessions.get(roomId);
+  if (!session) return null;
+
+  sessions.delete(roomId);
+
+  await Promise.all(
+    Array.from(session.tracks.keys()).map((producerId) =>
+      stopTrack(session, producerId).catch((err) =>
+        console.error(`Error stopping recorder track ${producerId}:`, err)
+      )
+    )
+  );
+
+  const files = await prisma.recordingFile.findMany({
+    where: { recordingId: session.recordingId },
+  });
+  const sizeBytes = files.reduce((sum, f) => sum + f.sizeBytes, BigInt(0));
+  const anyData = files.some((f) => f.sizeBytes > BigInt(0));
+
+  await prisma.recording.update({
+    where: { id: session.recordingId },
+    data: {
+      stoppedAt: new Date(),
+      status: anyData ? "COMPLETED" : "FAILED",
+      sizeBytes,
+    },
+  });
+
+  const duration = Date.now() - session.startTime;
+  console.log(
+    `⏹️ Recording ${session.recordingId} finished: ${files.length} file(s), ${sizeBytes} bytes`
+  );
+
+  return { recordingId: session.recordingId, duration };
+};
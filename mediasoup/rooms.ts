@@ -1,5 +1,20 @@
-import { Router, WebRtcTransport } from "mediasoup/node/lib/types";
-import { createMediasoupWorker } from "./worker";
+import {
+  Router,
+  WebRtcTransport,
+  WebRtcServer,
+  TransportListenInfo,
+  RouterRtpCodecCapability,
+} from "mediasoup/node/lib/types";
+import { transportConfig } from "./config";
+import { createRouterOnLeastLoadedWorker, addWorkerLoad } from "./worker";
+import { releaseRoom } from "../sharedState";
+import { clearRoomEvents } from "./sessions";
+import { forgetRoomSpeakers } from "./lastN";
+import {
+  SpeakerObservers,
+  createSpeakerObservers,
+  observeAudioProducer,
+} from "./speakers";
 
 export type Peer = {
   socketId: string;
@@ -8,24 +23,106 @@ export type Peer = {
   imageUrl?: string | null;
   isHost?: boolean;
   isCoHost?: boolean; // Co-host status
+  router: Router; // Router this peer's transports live on (see placePeer)
   transports: Map<string, WebRtcTransport>; // Specific type instead of any
   producers: Map<string, any>;
   consumers: Map<string, any>;
   rtpCapabilities?: any;
+  visibleUserIds?: Set<string>; // On-screen tiles from set-visible-peers (undefined = all)
+  pinnedUserIds?: Set<string>; // Always forwarded regardless of last-N
 };
 
 export type Room = {
-  router: Router;
+  router: Router; // Primary router - rtpCapabilities, recording
+  routers: Map<string, Router>; // Every router of the room (primary included), keyed by id
+  pipes: Map<string, Promise<void>>; // "producerId:routerId" -> pipeToRouter in flight/done
+  speakers: SpeakerObservers; // Live on the primary router
   peers: Map<string, Peer>;
   screenShareEnabled: boolean; // Global screen share permission
+  locked: boolean; // Mirrors Room.isLocked in DB - new joiners go to the lobby
+};
+
+export type LobbyEntry = {
+  userId: string;
+  socketId: string;
+  name: string;
+  imageUrl?: string | null;
+  requestedAt: number;
+};
+
+export type Lobby = {
+  waiting: Map<string, LobbyEntry>; // keyed by userId
+  admitted: Set<string>; // userIds let in while the room is locked
 };
 
 const rooms = new Map<string, Room>();
 
-export const getOrCreateRoom = async (
-  roomId: string,
-  router?: Router
-): Promise<Room> => {
+// Lobbies live outside Room so waiting users survive the router closing
+// when the last peer leaves a locked meeting
+const lobbies = new Map<string, Lobby>();
+
+// Once a router carries this many peers, new peers spill onto a router on
+// another worker and media is bridged with pipeToRouter
+const MAX_PEERS_PER_ROUTER =
+  Number(process.env.MEDIASOUP_MAX_PEERS_PER_ROUTER) || 50;
+
+const mediaCodecs: RouterRtpCodecCapability[] = [
+  {
+    kind: "audio",
+    mimeType: "audio/opus",
+    clockRate: 48000,
+    channels: 2,
+  },
+  {
+    kind: "video",
+    mimeType: "video/VP8",
+    clockRate: 90000,
+    parameters: {
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  {
+    kind: "video",
+    mimeType: "video/VP9",
+    clockRate: 90000,
+    parameters: {
+      "profile-id": 2,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  {
+    kind: "video",
+    mimeType: "video/h264",
+    clockRate: 90000,
+    parameters: {
+      "packetization-mode": 1,
+      "profile-level-id": "4d0032",
+      "level-asymmetry-allowed": 1,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  {
+    kind: "video",
+    mimeType: "video/h264",
+    clockRate: 90000,
+    parameters: {
+      "packetization-mode": 1,
+      "profile-level-id": "42e01f",
+      "level-asymmetry-allowed": 1,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+];
+
+const workerPidOf = (router: Router) => router.appData.workerPid as number;
+
+const createRoomRouter = (room?: Room) =>
+  createRouterOnLeastLoadedWorker(
+    mediaCodecs,
+    room ? Array.from(room.routers.values()).map(workerPidOf) : []
+  );
+
+export const getOrCreateRoom = async (roomId: string): Promise<Room> => {
   const existingRoom = rooms.get(roomId);
 
   // Check if room exists and router is still open
@@ -34,96 +131,267 @@ export const getOrCreateRoom = async (
   }
 
   // If room doesn't exist or router is closed, create new room with new router
-  if (!router || router.closed) {
-    console.log(`🏗️ Creating new router for room ${roomId}`);
-    const worker = await createMediasoupWorker();
-    router = await worker.createRouter({
-      mediaCodecs: [
-        {
-          kind: "audio",
-          mimeType: "audio/opus",
-          clockRate: 48000,
-          channels: 2,
-        },
-        {
-          kind: "video",
-          mimeType: "video/VP8",
-          clockRate: 90000,
-          parameters: {
-            "x-google-start-bitrate": 1000,
-          },
-        },
-        {
-          kind: "video",
-          mimeType: "video/VP9",
-          clockRate: 90000,
-          parameters: {
-            "profile-id": 2,
-            "x-google-start-bitrate": 1000,
-          },
-        },
-        {
-          kind: "video",
-          mimeType: "video/h264",
-          clockRate: 90000,
-          parameters: {
-            "packetization-mode": 1,
-            "profile-level-id": "4d0032",
-            "level-asymmetry-allowed": 1,
-            "x-google-start-bitrate": 1000,
-          },
-        },
-        {
-          kind: "video",
-          mimeType: "video/h264",
-          clockRate: 90000,
-          parameters: {
-            "packetization-mode": 1,
-            "profile-level-id": "42e01f",
-            "level-asymmetry-allowed": 1,
-            "x-google-start-bitrate": 1000,
-          },
-        },
-      ],
-    });
-  }
+  console.log(`🏗️ Creating new router for room ${roomId}`);
+  const router = await createRoomRouter();
 
-  const room = {
+  const room: Room = {
     router,
+    routers: new Map([[router.id, router]]),
+    pipes: new Map(),
+    speakers: await createSpeakerObservers(roomId, router),
     peers: new Map(),
     screenShareEnabled: true, // Default: screen sharing allowed
+    locked: false, // Synced from DB on join
   };
 
   rooms.set(roomId, room);
   return room;
 };
 
+/**
+ * Pick the router a new peer should use: the first router of the room with
+ * spare capacity, or a fresh router on the least-loaded worker.
+ * Counts the peer towards that worker's load.
+ */
+export const placePeer = async (room: Room): Promise<Router> => {
+  const peerCounts = new Map<string, number>();
+  room.peers.forEach((peer) => {
+    peerCounts.set(peer.router.id, (peerCounts.get(peer.router.id) || 0) + 1);
+  });
+
+  let router = Array.from(room.routers.values()).find(
+    (r) => !r.closed && (peerCounts.get(r.id) || 0) < MAX_PEERS_PER_ROUTER
+  );
+
+  if (!router) {
+    router = await createRoomRouter(room);
+    room.routers.set(router.id, router);
+    console.log(
+      `🔀 Room spilled onto router ${router.id} (worker ${workerPidOf(router)})`
+    );
+  }
+
+  addWorkerLoad(workerPidOf(router), 1);
+  return router;
+};
+
+/**
+ * Make sure `producerId` can be consumed on `router`. Producers live on their
+ * owner's router; other routers of the room get a pipe producer (same id) the
+ * first time someone there consumes it.
+ */
+export const ensureProducerOnRouter = async (
+  room: Room,
+  producerId: string,
+  router: Router
+) => {
+  const owner = Array.from(room.peers.values()).find((p) =>
+    p.producers.has(producerId)
+  );
+  if (!owner || owner.router.id === router.id) return;
+
+  const key = `${producerId}:${router.id}`;
+  let pipe = room.pipes.get(key);
+
+  if (!pipe) {
+    pipe = owner.router
+      .pipeToRouter({ producerId, router })
+      .then(({ pipeProducer }) => {
+        pipeProducer?.observer.once("close", () => room.pipes.delete(key));
+      });
+    pipe.catch(() => room.pipes.delete(key));
+    room.pipes.set(key, pipe);
+  }
+
+  await pipe;
+};
+
+/**
+ * Track an audio producer for active speaker / audio level detection.
+ * Observers live on the primary router, so producers elsewhere are piped in.
+ */
+export const observeAudio = async (room: Room, producerId: string) => {
+  await ensureProducerOnRouter(room, producerId, room.router);
+  await observeAudioProducer(room.speakers, producerId);
+};
+
+/**
+ * Rebuild every router that lived on a dead worker. Peers on those routers
+ * lose all transports/producers/consumers and must reconnect their media.
+ */
+export const recoverRoomsFromWorker = async (deadPid: number) => {
+  const affected: Array<{
+    roomId: string;
+    socketIds: string[];
+    lostProducers: Array<{ producer: any; peer: Peer }>;
+  }> = [];
+
+  for (const [roomId, room] of rooms) {
+    const deadRouters = Array.from(room.routers.values()).filter(
+      (r) => workerPidOf(r) === deadPid
+    );
+    if (deadRouters.length === 0) continue;
+
+    const socketIds: string[] = [];
+    const lostProducers: Array<{ producer: any; peer: Peer }> = [];
+    let primaryReplaced = false;
+
+    for (const deadRouter of deadRouters) {
+      room.routers.delete(deadRouter.id);
+
+      const router = await createRoomRouter(room);
+      room.routers.set(router.id, router);
+      if (room.router.id === deadRouter.id) {
+        room.router = router;
+        room.speakers = await createSpeakerObservers(roomId, router);
+        primaryReplaced = true;
+      }
+
+      room.peers.forEach((peer) => {
+        if (peer.router.id !== deadRouter.id) return;
+
+        peer.producers.forEach((producer) =>
+          lostProducers.push({ producer, peer })
+        );
+        peer.transports.clear();
+        peer.producers.clear();
+        peer.consumers.clear();
+        peer.router = router;
+        addWorkerLoad(workerPidOf(router), 1);
+        socketIds.push(peer.socketId);
+      });
+    }
+
+    // New primary router = new observers; re-register audio that survived
+    if (primaryReplaced) {
+      for (const peer of room.peers.values()) {
+        for (const producer of peer.producers.values()) {
+          if (producer.kind !== "audio") continue;
+          await observeAudio(room, producer.id).catch((err) =>
+            console.error(`Error re-observing audio producer ${producer.id}:`, err)
+          );
+        }
+      }
+    }
+
+    console.log(
+      `🩹 Room ${roomId} recovered from worker ${deadPid} death (${socketIds.length} peers must reconnect media)`
+    );
+    affected.push({ roomId, socketIds, lostProducers });
+  }
+
+  return affected;
+};
+
 export const getRoom = (roomId: string) => rooms.get(roomId);
 
+export const getLobby = (roomId: string): Lobby => {
+  let lobby = lobbies.get(roomId);
+  if (!lobby) {
+    lobby = { waiting: new Map(), admitted: new Set() };
+    lobbies.set(roomId, lobby);
+  }
+  return lobby;
+};
+
+export const clearLobby = (roomId: string) => lobbies.delete(roomId);
+
+/**
+ * Drop a disconnected socket from every lobby it was waiting in.
+ * Returns the roomIds whose waiting list changed.
+ */
+export const removeFromLobbies = (socketId: string): string[] => {
+  const changed: string[] = [];
+  lobbies.forEach((lobby, roomId) => {
+    for (const [userId, entry] of lobby.waiting) {
+      if (entry.socketId === socketId) {
+        lobby.waiting.delete(userId);
+        changed.push(roomId);
+      }
+    }
+  });
+  return changed;
+};
+
 /**
  * PHASE 4: WebRTC Transport Creation
  * Creates the server-side transport for a peer to send or receive audio.
  */
 export const createWebRtcTransport = async (router: Router) => {
-  const announcedIp = process.env.RAILWAY_PUBLIC_DOMAIN || "127.0.0.1";
-  console.log(`🌐 Creating transport with announcedIp: ${announcedIp}`);
-
-  const transport = await router.createWebRtcTransport({
-    listenIps: [
-      {
-        ip: "0.0.0.0", // Binds to all interfaces
-        announcedIp,
-      },
-    ],
-    enableUdp: true,
-    enableTcp: true,
-    preferUdp: true,
-  });
+  const { webRtcServer, listenInfos } = router.appData as {
+    webRtcServer?: WebRtcServer;
+    listenInfos: TransportListenInfo[];
+  };
+
+  const options = {
+    preferUdp: transportConfig.preferUdp,
+    initialAvailableOutgoingBitrate:
+      transportConfig.initialAvailableOutgoingBitrate,
+    enableSctp: transportConfig.enableSctp,
+  };
+
+  // WebRtcServer: every transport on this worker shares its single port
+  const transport = webRtcServer
+    ? await router.createWebRtcTransport({ ...options, webRtcServer })
+    : await router.createWebRtcTransport({ ...options, listenInfos });
+
+  if (transportConfig.maxIncomingBitrate) {
+    await transport.setMaxIncomingBitrate(transportConfig.maxIncomingBitrate);
+  }
 
   console.log(`📡 Transport ICE candidates:`, JSON.stringify(transport.iceCandidates, null, 2));
   return transport;
 };
 
+/**
+ * Session resumption: hand a held peer over to the socket that resumed it
+ */
+export const rebindPeer = (
+  roomId: string,
+  oldSocketId: string,
+  newSocketId: string
+): Peer | undefined => {
+  const room = rooms.get(roomId);
+  const peer = room?.peers.get(oldSocketId);
+  if (!room || !peer) return undefined;
+
+  room.peers.delete(oldSocketId);
+  peer.socketId = newSocketId;
+  peer.transports.forEach((transport) => {
+    transport.appData.socketId = newSocketId;
+  });
+  room.peers.set(newSocketId, peer);
+
+  return peer;
+};
+
+/**
+ * Server-enforced mute: pause every audio producer owned by `userIds` in this
+ * room, whatever the client does. Returns the producers that were paused.
+ */
+export const pauseUserAudioProducers = async (
+  roomId: string,
+  userIds: string[]
+): Promise<{ producer: any; peer: Peer }[]> => {
+  const room = rooms.get(roomId);
+  if (!room) return [];
+
+  const targets = new Set(userIds);
+  const paused: { producer: any; peer: Peer }[] = [];
+
+  for (const peer of room.peers.values()) {
+    if (!peer.userId || !targets.has(peer.userId)) continue;
+
+    for (const producer of peer.producers.values()) {
+      if (producer.kind !== "audio" || producer.closed || producer.paused) continue;
+      await producer.pause();
+      paused.push({ producer, peer });
+    }
+  }
+
+  return paused;
+};
+
 /**
  * PHASE 7 Cleanup Helper
  * Closes transports, producers, consumers and removes peer from the room state.
@@ -163,19 +431,27 @@ export const removePeerFromRoom = (roomId: string, socketId: string) => {
       });
 
       room.peers.delete(socketId);
+      addWorkerLoad(workerPidOf(peer.router), -1);
       console.log(`🗑️ Mediasoup state cleaned for peer ${socketId}`);
     }
 
-    // If room is empty, close router and delete room
+    // If room is empty, close its routers and delete room
     if (room.peers.size === 0) {
-      try {
-        if (!room.router.closed) {
-          room.router.close();
+      room.routers.forEach((router) => {
+        try {
+          if (!router.closed) {
+            router.close();
+          }
+        } catch (err) {
+          console.error("Error closing router:", err);
         }
-      } catch (err) {
-        console.error("Error closing router:", err);
-      }
+      });
       rooms.delete(roomId);
+      clearRoomEvents(roomId);
+      forgetRoomSpeakers(roomId);
+      releaseRoom(roomId).catch((err) =>
+        console.error(`Error releasing room ${roomId} ownership:`, err)
+      );
       console.log(`🏠 Room ${roomId} fully closed`);
     }
   } catch (err) {
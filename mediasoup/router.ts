@@ -1,62 +0,0 @@
-import { createMediasoupWorker } from "./worker";
-
-export let mediaRouter: any;
-
-export async function createMediaRouter() {
-  if (mediaRouter) return mediaRouter;
-
-  const worker = await createMediasoupWorker();
-
-  mediaRouter = await worker.createRouter({
-    mediaCodecs: [
-      {
-        kind: "audio",
-        mimeType: "audio/opus",
-        clockRate: 48000,
-        channels: 2,
-      },
-      {
-        kind: "video",
-        mimeType: "video/VP8",
-        clockRate: 90000,
-        parameters: {
-          "x-google-start-bitrate": 1000,
-        },
-      },
-      {
-        kind: "video",
-        mimeType: "video/VP9",
-        clockRate: 90000,
-        parameters: {
-          "profile-id": 2,
-          "x-google-start-bitrate": 1000,
-        },
-      },
-      {
-        kind: "video",
-        mimeType: "video/h264",
-        clockRate: 90000,
-        parameters: {
-          "packetization-mode": 1,
-          "profile-level-id": "4d0032",
-          "level-asymmetry-allowed": 1,
-          "x-google-start-bitrate": 1000,
-        },
-      },
-      {
-        kind: "video",
-        mimeType: "video/h264",
-        clockRate: 90000,
-        parameters: {
-          "packetization-mode": 1,
-          "profile-level-id": "42e01f",
-          "level-asymmetry-allowed": 1,
-          "x-google-start-bitrate": 1000,
-        },
-      },
-    ],
-  });
-
-  console.log("🎥 Media router created (audio + video)");
-  return mediaRouter;
-}
@@ -0,0 +1,118 @@
+import crypto from "crypto";
+
+/**
+ * SESSION RESUMPTION
+ * A resume token is issued at join-mediasoup-room. If the socket drops, the
+ * peer is held for the disconnect grace period; a new socket presenting the
+ * token re-binds the held peer and gets the room events it missed.
+ */
+
+type ResumableSession = {
+  token: string;
+  roomId: string;
+  userId: string;
+  socketId: string;
+};
+
+export type RoomEvent = {
+  seq: number;
+  at: number;
+  event: string;
+  payload: any;
+  except?: string; // Socket that caused the event and didn't receive it
+  to?: string; // userId the event was sent to alone, if not the whole room
+};
+
+const sessions = new Map<string, ResumableSession>(); // keyed by token
+
+// Only the most recent events are kept - enough to cover the grace period
+const MAX_EVENTS_PER_ROOM = 500;
+const EVENT_RETENTION_MS = 5 * 60 * 1000;
+
+const roomEvents = new Map<string, RoomEvent[]>();
+let eventSeq = 0;
+
+/* =========================
+   TOKENS
+========================= */
+
+const findSession = (roomId: string, socketId: string) =>
+  Array.from(sessions.values()).find(
+    (s) => s.roomId === roomId && s.socketId === socketId
+  );
+
+/**
+ * Issue (or return the existing) resume token for a socket in a room
+ */
+export const issueResumeToken = (
+  roomId: string,
+  userId: string,
+  socketId: string
+) => {
+  const existing = findSession(roomId, socketId);
+  if (existing) return existing.token;
+
+  const token = crypto.randomBytes(32).toString("hex");
+  sessions.set(token, { token, roomId, userId, socketId });
+  return token;
+};
+
+export const getResumableSession = (token: string) => sessions.get(token);
+
+/**
+ * Move a session to its new socket. The old token is burned so a leaked
+ * token can't be replayed; returns the replacement.
+ */
+export const rebindSession = (token: string, newSocketId: string) => {
+  const session = sessions.get(token);
+  if (!session) return null;
+
+  sessions.delete(token);
+  return issueResumeToken(session.roomId, session.userId, newSocketId);
+};
+
+/**
+ * The peer is gone for good - nothing left to resume
+ */
+export const revokeSession = (roomId: string, socketId: string) => {
+  const session = findSession(roomId, socketId);
+  if (session) sessions.delete(session.token);
+};
+
+/* =========================
+   ROOM EVENT LOG
+========================= */
+
+export const recordRoomEvent = (
+  roomId: string,
+  event: string,
+  payload: any,
+  except?: string,
+  to?: string
+) => {
+  const now = Date.now();
+  const events = (roomEvents.get(roomId) || []).filter(
+    (e) => now - e.at < EVENT_RETENTION_MS
+  );
+
+  events.push({ seq: ++eventSeq, at: now, event, payload, except, to });
+  if (events.length > MAX_EVENTS_PER_ROOM) events.shift();
+
+  roomEvents.set(roomId, events);
+};
+
+/**
+ * Events broadcast to the room since `since` (ms timestamp), minus those
+ * `socketId` caused itself and those sent to another user alone
+ */
+export const getRoomEventsSince = (
+  roomId: string,
+  since: number,
+  socketId: string,
+  userId: string
+) =>
+  (roomEvents.get(roomId) || []).filter(
+    (e) => e.at >= since && e.except !== socketId && (!e.to || e.to === userId)
+  );
+
+export const clearRoomEvents = (roomId: string) => roomEvents.delete(roomId);
@@ -0,0 +1,183 @@
+import {
+  Router,
+  Producer,
+  ActiveSpeakerObserver,
+  AudioLevelObserver,
+} from "mediasoup/node/lib/types";
+import { prisma } from "../prisma";
+
+/**
+ * ACTIVE SPEAKER & AUDIO LEVELS
+ * Every room's primary router gets an ActiveSpeakerObserver (who holds the
+ * floor) and an AudioLevelObserver (who is making noise). Events are
+ * throttled before hitting the room; dominant speaker changes are stored as
+ * SpeakerSegment rows for meeting analytics.
+ */
+
+export type SpeakerObservers = {
+  activeSpeaker: ActiveSpeakerObserver;
+  audioLevel: AudioLevelObserver;
+};
+
+type Broadcast = (roomId: string, event: string, payload: any) => void;
+
+const ACTIVE_SPEAKER_THROTTLE_MS =
+  Number(process.env.ACTIVE_SPEAKER_THROTTLE_MS) || 1000;
+const AUDIO_LEVEL_INTERVAL_MS =
+  Number(process.env.AUDIO_LEVEL_INTERVAL_MS) || 500;
+
+type DominantState = {
+  userId: string | null;
+  since: number;
+  lastEmitAt: number;
+  trailing?: NodeJS.Timeout;
+};
+
+const dominant = new Map<string, DominantState>(); // keyed by roomId
+
+let broadcast: Broadcast = () => {};
+
+type DominantSpeakerListener = (roomId: string, userId: string | null) => void;
+const dominantSpeakerListeners: DominantSpeakerListener[] = [];
+
+/**
+ * Called with every (throttled) active speaker change, e.g. to re-rank last-N
+ */
+export const onDominantSpeakerChange = (listener: DominantSpeakerListener) => {
+  dominantSpeakerListeners.push(listener);
+};
+
+/**
+ * Set how speaker events reach clients (index.ts owns the Socket.IO server)
+ */
+export const setSpeakerBroadcaster = (fn: Broadcast) => {
+  broadcast = fn;
+};
+
+const userIdOf = (producer: Producer) =>
+  (producer.appData.userId as string | undefined) ?? null;
+
+/* =========================
+   ANALYTICS
+========================= */
+
+// Close the current dominant speaker's segment
+const flushSegment = async (roomId: string, state: DominantState) => {
+  if (!state.userId) return;
+
+  const endedAt = Date.now();
+  try {
+    await prisma.speakerSegment.create({
+      data: {
+        roomId,
+        userId: state.userId,
+        startedAt: new Date(state.since),
+        endedAt: new Date(endedAt),
+        durationMs: endedAt - state.since,
+      },
+    });
+  } catch (err) {
+    console.error("Failed to persist speaker segment:", err);
+  }
+};
+
+/* =========================
+   EVENTS
+========================= */
+
+const emitActiveSpeaker = (roomId: string, producerId: string | null) => {
+  const state = dominant.get(roomId);
+  if (!state) return;
+
+  state.lastEmitAt = Date.now();
+  broadcast(roomId, "active-speaker", {
+    roomId,
+    userId: state.userId,
+    producerId,
+  });
+  dominantSpeakerListeners.forEach((listener) => listener(roomId, state.userId));
+};
+
+const onDominantSpeaker = (roomId: string, producer: Producer) => {
+  const state = dominant.get(roomId);
+  const userId = userIdOf(producer);
+  if (!state || state.userId === userId) return;
+
+  flushSegment(roomId, { ...state });
+  state.userId = userId;
+  state.since = Date.now();
+
+  // Throttle: emit now if we've been quiet long enough, else once the window ends
+  clearTimeout(state.trailing);
+  const wait = state.lastEmitAt + ACTIVE_SPEAKER_THROTTLE_MS - Date.now();
+  if (wait <= 0) {
+    emitActiveSpeaker(roomId, producer.id);
+  } else {
+    state.trailing = setTimeout(() => emitActiveSpeaker(roomId, producer.id), wait);
+  }
+};
+
+/* =========================
+   LIFECYCLE
+========================= */
+
+export const createSpeakerObservers = async (
+  roomId: string,
+  router: Router
+): Promise<SpeakerObservers> => {
+  const activeSpeaker = await router.createActiveSpeakerObserver({
+    interval: 300,
+  });
+  // The observer's own interval throttles audio-levels
+  const audioLevel = await router.createAudioLevelObserver({
+    maxEntries: 10,
+    threshold: -70,
+    interval: AUDIO_LEVEL_INTERVAL_MS,
+  });
+
+  const roomState: DominantState = { userId: null, since: Date.now(), lastEmitAt: 0 };
+  dominant.set(roomId, roomState);
+
+  activeSpeaker.on("dominantspeaker", ({ producer }) =>
+    onDominantSpeaker(roomId, producer)
+  );
+
+  audioLevel.on("volumes", (volumes) => {
+    broadcast(roomId, "audio-levels", {
+      roomId,
+      levels: volumes.map(({ producer, volume }) => ({
+        userId: userIdOf(producer),
+        producerId: producer.id,
+        volume, // dBov, -127 (silence) .. 0 (loudest)
+      })),
+    });
+  });
+
+  audioLevel.on("silence", () => {
+    broadcast(roomId, "audio-levels", { roomId, levels: [] });
+  });
+
+  // Router closed (room emptied or worker died) - finish the open segment
+  activeSpeaker.observer.once("close", () => {
+    clearTimeout(roomState.trailing);
+    // A recovered room may already have fresh observers
+    if (dominant.get(roomId) === roomState) dominant.delete(roomId);
+    flushSegment(roomId, roomState);
+  });
+
+  return { activeSpeaker, audioLevel };
+};
+
+/**
+ * Feed an audio producer (already present on the observers' router) to both
+ * observers
+ */
+export const observeAudioProducer = async (
+  observers: SpeakerObservers,
+  producerId: string
+) => {
+  await Promise.all([
+    observers.activeSpeaker.addProducer({ producerId }),
+    observers.audioLevel.addProducer({ producerId }),
+  ]);
+};
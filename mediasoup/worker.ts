@@ -1,24 +1,211 @@
+import os from "os";
 import * as mediasoup from "mediasoup";
+import {
+  transportConfig,
+  slicePortRange,
+  listenInfosForWorker,
+  webRtcServerListenInfos,
+} from "./config";
 
+/**
+ * MEDIASOUP WORKER POOL
+ * One worker per CPU core (override with MEDIASOUP_NUM_WORKERS). Each worker
+ * gets its own slice of the MEDIASOUP_MIN_PORT..MEDIASOUP_MAX_PORT range.
+ * Load is the number of peers whose router lives on the worker plus the
+ * routers themselves, counted from the moment one is requested, so routers
+ * created together before any peer is placed still spread out. New routers
+ * go to the least-loaded worker. A dead worker is replaced in place instead
+ * of exiting the process, retrying with backoff if the replacement fails.
+ */
 
-let worker: mediasoup.types.Worker;
+type PooledWorker = {
+  worker: mediasoup.types.Worker;
+  index: number;
+  load: number; // Peers placed on this worker's routers
+  routers: number; // Routers created or being created on this worker
+  webRtcServer?: mediasoup.types.WebRtcServer;
+  listenInfos: mediasoup.types.TransportListenInfo[];
+};
 
-export async function createMediasoupWorker() {
-  if (worker) return worker;
+const NUM_WORKERS =
+  Number(process.env.MEDIASOUP_NUM_WORKERS) || os.cpus().length || 1;
+const MIN_PORT = Number(process.env.MEDIASOUP_MIN_PORT) || 40000;
+const MAX_PORT = Number(process.env.MEDIASOUP_MAX_PORT) || 49999;
 
-  worker = await mediasoup.createWorker({
+const REPLACE_ATTEMPTS = 5;
+const REPLACE_RETRY_MS = 1000; // Doubles after every failed attempt
+
+const pool: PooledWorker[] = [];
+let poolReady: Promise<void> | null = null;
+
+type WorkerDiedListener = (deadPid: number) => void;
+const workerDiedListeners: WorkerDiedListener[] = [];
+
+const spawnWorker = async (index: number): Promise<PooledWorker> => {
+  // Fallback range for listen infos without their own portRange
+  const { min: rtcMinPort, max: rtcMaxPort } = slicePortRange(
+    { min: MIN_PORT, max: MAX_PORT },
+    index,
+    NUM_WORKERS
+  );
+
+  const worker = await mediasoup.createWorker({
     logLevel: "warn",
     logTags: ["ice", "dtls", "rtp", "srtp"],
-    rtcMinPort: Number(process.env.MEDIASOUP_MIN_PORT),
-    rtcMaxPort: Number(process.env.MEDIASOUP_MAX_PORT),
+    rtcMinPort,
+    rtcMaxPort,
   });
 
-  worker.on("died", () => {
-    console.error("❌ Mediasoup worker died, exiting...");
-    setTimeout(() => process.exit(1), 2000);
+  // One UDP/TCP port for every transport on this worker
+  let webRtcServer: mediasoup.types.WebRtcServer | undefined;
+  try {
+    webRtcServer = transportConfig.webRtcServer.enabled
+      ? await worker.createWebRtcServer({
+          listenInfos: webRtcServerListenInfos(index),
+        })
+      : undefined;
+  } catch (err) {
+    worker.close(); // Don't leak a half-set-up worker
+    throw err;
+  }
+
+  const pooled: PooledWorker = {
+    worker,
+    index,
+    load: 0,
+    routers: 0,
+    webRtcServer,
+    listenInfos: listenInfosForWorker(index, NUM_WORKERS),
+  };
+
+  worker.on("died", (err) => {
+    console.error(
+      `❌ Mediasoup worker ${worker.pid} died (${err.message}), replacing...`
+    );
+    replaceWorker(pooled).catch((replaceErr) => {
+      console.error("🛑 Failed to replace mediasoup worker:", replaceErr);
+    });
   });
 
-  console.log("🎧 Mediasoup worker created");
+  console.log(
+    `🎧 Mediasoup worker #${index} created (pid ${worker.pid}, ${
+      webRtcServer
+        ? `WebRtcServer port ${transportConfig.webRtcServer.port + index}`
+        : `ports ${rtcMinPort}-${rtcMaxPort}`
+    })`
+  );
+
+  return pooled;
+};
+
+const replaceWorker = async (dead: PooledWorker) => {
+  const position = pool.indexOf(dead);
+  if (position !== -1) pool.splice(position, 1);
+
+  for (let attempt = 1; attempt <= REPLACE_ATTEMPTS; attempt++) {
+    try {
+      pool.push(await spawnWorker(dead.index));
+      break;
+    } catch (err) {
+      if (attempt === REPLACE_ATTEMPTS) {
+        console.error(
+          `🛑 Gave up replacing mediasoup worker #${dead.index} after ${attempt} attempts - ` +
+            `the pool is down to ${pool.length}/${NUM_WORKERS} workers:`,
+          err
+        );
+        break;
+      }
+      const delay = REPLACE_RETRY_MS * 2 ** (attempt - 1);
+      console.error(
+        `❌ Replacing mediasoup worker #${dead.index} failed (attempt ${attempt}/${REPLACE_ATTEMPTS}), retrying in ${delay}ms:`,
+        err
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  // Routers on the dead worker are already closed - let rooms rebuild them
+  // (on the remaining workers if no replacement came up)
+  workerDiedListeners.forEach((listener) => listener(dead.worker.pid));
+};
+
+/**
+ * Start the worker pool. Safe to call more than once.
+ */
+export function createWorkerPool() {
+  if (!poolReady) {
+    poolReady = (async () => {
+      for (let i = 0; i < NUM_WORKERS; i++) {
+        pool.push(await spawnWorker(i));
+      }
+      console.log(`🏭 Mediasoup worker pool ready (${pool.length} workers)`);
+    })();
+  }
+  return poolReady;
+}
+
+/**
+ * Create a router on the least-loaded worker, preferring workers that don't
+ * already host a router for the same room (`avoidPids`)
+ */
+export async function createRouterOnLeastLoadedWorker(
+  mediaCodecs: mediasoup.types.RouterRtpCodecCapability[],
+  avoidPids: number[] = []
+) {
+  await createWorkerPool();
+
+  const candidates = pool.filter((p) => !p.worker.closed);
+  if (candidates.length === 0) {
+    throw new Error("No mediasoup workers available");
+  }
+
+  const preferred = candidates.filter(
+    (p) => !avoidPids.includes(p.worker.pid)
+  );
+  const loadOf = (p: PooledWorker) => p.load + p.routers;
+  const target = (preferred.length > 0 ? preferred : candidates).reduce(
+    (least, p) => (loadOf(p) < loadOf(least) ? p : least)
+  );
+
+  // Reserve the slot now so concurrent calls don't all pick this worker
+  target.routers++;
+  try {
+    const router = await target.worker.createRouter({
+      mediaCodecs,
+      appData: {
+        workerPid: target.worker.pid,
+        webRtcServer: target.webRtcServer,
+        listenInfos: target.listenInfos,
+      },
+    });
+    router.observer.once("close", () => {
+      target.routers = Math.max(0, target.routers - 1);
+    });
+    return router;
+  } catch (err) {
+    target.routers = Math.max(0, target.routers - 1);
+    throw err;
+  }
+}
+
+/**
+ * Adjust a worker's load when peers are placed on / removed from its routers
+ */
+export function addWorkerLoad(workerPid: number, delta: number) {
+  const pooled = pool.find((p) => p.worker.pid === workerPid);
+  if (pooled) pooled.load = Math.max(0, pooled.load + delta);
+}
+
+export function onWorkerDied(listener: WorkerDiedListener) {
+  workerDiedListeners.push(listener);
+}
 
-  return worker;
+export function getWorkerStats() {
+  return pool.map((p) => ({
+    index: p.index,
+    pid: p.worker.pid,
+    load: p.load,
+    routers: p.routers,
+    closed: p.worker.closed,
+  }));
 }
@@ -0,0 +1,269 @@
+/**
+ * Participant State
+ *
+ * The one place the participant list is built. A participant's live identity
+ * (socket, name, avatar) comes from the mediasoup `Peer`; role and media/lock
+ * state come from the `RoomParticipant` row. Callers never emit list events
+ * themselves - they call `syncParticipants(roomId)` after changing either
+ * side, and this module diffs against what clients last saw:
+ *
+ *   participant-joined   { roomId, version, participant }
+ *   participant-updated  { roomId, version, participant }
+ *   participant-left     { roomId, version, userId, peerId }
+ *
+ * Every event bumps the room's version. A client that sees a gap calls
+ * `get-participants` for a fresh snapshot.
+ *
+ * The raise-hand queue lives in the shared state backend, so every node sees
+ * the same queue and it survives a restart; it's cleared when the room
+ * closes. Each participant carries `handRaisedAt`, and snapshots include the
+ * ordered queue. While the backend is unreachable the queue reads as empty,
+ * so the participant list still goes out.
+ */
+
+import { prisma } from "./prisma";
+import { getRoom, Peer } from "./mediasoup/rooms";
+import {
+  getRaisedHands,
+  addRaisedHand,
+  removeRaisedHands,
+  SharedStateUnavailableError,
+} from "./sharedState";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ParticipantState {
+  id: string; // userId
+  peerId: string | null; // Socket id, null while only the DB row is connected
+  name: string;
+  imageUrl: string | null;
+  role: string; // HOST, COHOST, PARTICIPANT, VIEWER, PRESENTER or INTERPRETER
+  isAudioMuted: boolean;
+  isVideoPaused: boolean;
+  isHost: boolean;
+  isCoHost: boolean;
+  audioLocked: boolean;
+  screenShareLocked: boolean;
+  handRaisedAt: number | null; // Epoch ms, null when the hand is down
+}
+
+export interface RaisedHand {
+  userId: string;
+  raisedAt: number;
+}
+
+export interface ParticipantSnapshot {
+  roomId: string;
+  version: number;
+  participants: ParticipantState[];
+  raisedHands: RaisedHand[]; // Speaking order, first = next
+}
+
+type Emit = (roomId: string, event: string, payload: any) => void;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const versions = new Map<string, number>();
+const lastSent = new Map<string, Map<string, ParticipantState>>(); // roomId -> userId -> state
+const syncQueue = new Map<string, Promise<void>>();
+
+let emit: Emit = () => {};
+
+/**
+ * Set how participant events reach clients (index.ts owns the Socket.IO server)
+ */
+export const setParticipantEmitter = (fn: Emit) => {
+  emit = fn;
+};
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * The room's raised hands, or none while the shared state backend is down
+ */
+const readRaisedHands = async (roomId: string): Promise<Map<string, number>> => {
+  try {
+    return await getRaisedHands(roomId);
+  } catch (err) {
+    if (!(err instanceof SharedStateUnavailableError)) throw err;
+    console.error(`Hand queue of ${roomId} unavailable, sending it empty: ${err.message}`);
+    return new Map();
+  }
+};
+
+/**
+ * Merge connected RoomParticipant rows with the room's in-memory peers
+ */
+const buildParticipants = async (roomId: string): Promise<ParticipantState[]> => {
+  const rows = await prisma.roomParticipant.findMany({
+    where: { roomId, isConnected: true },
+  });
+
+  const room = getRoom(roomId);
+  const raisedHands = await readRaisedHands(roomId);
+  const handRaisedAt = (userId: string) => raisedHands.get(userId) ?? null;
+
+  const peersByUser = new Map<string, Peer>();
+  for (const peer of room?.peers.values() || []) {
+    if (peer.userId) peersByUser.set(peer.userId, peer);
+  }
+
+  const participants: ParticipantState[] = rows.map((row) => {
+    const peer = peersByUser.get(row.userId);
+    peersByUser.delete(row.userId);
+
+    return {
+      id: row.userId,
+      peerId: peer?.socketId ?? null,
+      name: peer?.name || row.name,
+      imageUrl: peer?.imageUrl ?? row.imageUrl,
+      role: row.role,
+      isAudioMuted: row.isAudioMuted,
+      isVideoPaused: row.isVideoPaused,
+      isHost: row.role === "HOST",
+      isCoHost: row.role === "COHOST",
+      audioLocked: row.audioLocked ?? false,
+      screenShareLocked: row.screenShareLocked ?? false,
+      handRaisedAt: handRaisedAt(row.userId),
+    };
+  });
+
+  // Peers whose row isn't marked connected (yet) - show them with what we know
+  for (const peer of peersByUser.values()) {
+    participants.push({
+      id: peer.userId!,
+      peerId: peer.socketId,
+      name: peer.name || "Unknown",
+      imageUrl: peer.imageUrl ?? null,
+      role: peer.isHost ? "HOST" : peer.isCoHost ? "COHOST" : "PARTICIPANT",
+      isAudioMuted: false,
+      isVideoPaused: false,
+      isHost: peer.isHost || false,
+      isCoHost: peer.isCoHost || false,
+      audioLocked: false,
+      screenShareLocked: false,
+      handRaisedAt: handRaisedAt(peer.userId!),
+    });
+  }
+
+  return participants;
+};
+
+const sameState = (a: ParticipantState, b: ParticipantState) =>
+  (Object.keys(a) as (keyof ParticipantState)[]).every((key) => a[key] === b[key]);
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+const runSync = async (roomId: string) => {
+  const next = await buildParticipants(roomId);
+  const previous = lastSent.get(roomId) || new Map<string, ParticipantState>();
+  const current = new Map(next.map((p) => [p.id, p]));
+  let version = versions.get(roomId) || 0;
+
+  for (const [userId, before] of previous) {
+    if (current.has(userId)) continue;
+    emit(roomId, "participant-left", {
+      roomId,
+      version: ++version,
+      userId,
+      peerId: before.peerId,
+    });
+  }
+
+  for (const participant of next) {
+    const before = previous.get(participant.id);
+    if (before && sameState(before, participant)) continue;
+    emit(roomId, before ? "participant-updated" : "participant-joined", {
+      roomId,
+      version: ++version,
+      participant,
+    });
+  }
+
+  if (version !== (versions.get(roomId) || 0)) {
+    // Legacy full list for clients that don't apply diffs yet
+    emit(roomId, "participant-list-update", next);
+  }
+
+  versions.set(roomId, version);
+  lastSent.set(roomId, current);
+};
+
+/**
+ * Rebuild the room's participant list and broadcast what changed. Syncs for
+ * the same room run one after another so versions never interleave.
+ */
+export const syncParticipants = (roomId: string): Promise<void> => {
+  const run = (syncQueue.get(roomId) || Promise.resolve())
+    .then(() => runSync(roomId))
+    .catch((err) => console.error(`Error syncing participants for ${roomId}:`, err));
+
+  syncQueue.set(roomId, run);
+  run.then(() => {
+    if (syncQueue.get(roomId) === run) syncQueue.delete(roomId);
+  });
+
+  return run;
+};
+
+/**
+ * Full list for a (re)syncing client, after any pending sync has landed
+ */
+export const getParticipantSnapshot = async (roomId: string): Promise<ParticipantSnapshot> => {
+  await syncParticipants(roomId);
+
+  return {
+    roomId,
+    version: versions.get(roomId) || 0,
+    participants: Array.from(lastSent.get(roomId)?.values() || []),
+    raisedHands: await getHandQueue(roomId),
+  };
+};
+
+// ============================================================================
+// RAISE-HAND QUEUE
+// ============================================================================
+
+// Speaking order: earliest raise first (userId breaks ties)
+export const getHandQueue = async (roomId: string): Promise<RaisedHand[]> =>
+  Array.from(await readRaisedHands(roomId), ([userId, raisedAt]) => ({ userId, raisedAt })).sort(
+    (a, b) => a.raisedAt - b.raisedAt || a.userId.localeCompare(b.userId)
+  );
+
+export const isHandRaised = async (roomId: string, userId: string): Promise<boolean> =>
+  (await getRaisedHands(roomId)).has(userId);
+
+/**
+ * Join the back of the queue. False if the hand was already up (it keeps
+ * its place) or the room isn't live.
+ */
+export const raiseHand = async (roomId: string, userId: string): Promise<boolean> => {
+  if (!getRoom(roomId)) return false;
+  return await addRaisedHand(roomId, userId, Date.now());
+};
+
+/**
+ * Lower the given hands, or every hand when `userIds` is omitted. Returns
+ * the users whose hand actually went down.
+ */
+export const lowerHands = (roomId: string, userIds?: string[]): Promise<string[]> =>
+  removeRaisedHands(roomId, userIds);
+
+/**
+ * The room is gone - drop its version counter, last-sent list and hand queue
+ */
+export const forgetParticipants = (roomId: string) => {
+  versions.delete(roomId);
+  lastSent.delete(roomId);
+  removeRaisedHands(roomId).catch((err) =>
+    console.error(`Error clearing the hand queue of ${roomId}:`, err)
+  );
+};
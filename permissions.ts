@@ -5,7 +5,8 @@
  * in the video conferencing system.
  */
 
-import { PrismaClient } from "./generated/prisma";
+import { Prisma, PrismaClient } from "./generated/prisma";
+import { incrementRateCounter, SharedStateUnavailableError } from "./sharedState";
 
 const prisma = new PrismaClient();
 
@@ -13,11 +14,22 @@ const prisma = new PrismaClient();
 // TYPES
 // ============================================================================
 
-export type Role = "HOST" | "COHOST" | "PARTICIPANT";
+export type Role =
+  | "HOST"
+  | "COHOST"
+  | "PARTICIPANT"
+  | "VIEWER" // Receive only - cannot produce
+  | "PRESENTER" // May screen share without asking, even when sharing is locked
+  | "INTERPRETER"; // Audio only
+
+// Roles with a hand-written column in the matrix; the others are derived
+type CoreRole = "HOST" | "COHOST" | "PARTICIPANT";
 
 export type ControlAction =
   | "MAKE_HOST"
   | "REMOVE_HOST"
+  | "TRANSFER_OWNERSHIP"
+  | "ASSIGN_ROLE"
   | "MAKE_COHOST"
   | "REMOVE_COHOST"
   | "MUTE_INDIVIDUAL"
@@ -31,7 +43,21 @@ export type ControlAction =
   | "GLOBAL_CAMERA_DISABLE"
   | "GLOBAL_CAMERA_ENABLE"
   | "GLOBAL_SCREENSHARE_DISABLE"
-  | "GLOBAL_SCREENSHARE_ENABLE";
+  | "GLOBAL_SCREENSHARE_ENABLE"
+  | "LOCK_ROOM"
+  | "UNLOCK_ROOM"
+  | "ADMIT_FROM_LOBBY"
+  | "DENY_FROM_LOBBY"
+  | "BAN_FROM_ROOM"
+  | "LIFT_BAN"
+  | "START_RECORDING"
+  | "STOP_RECORDING"
+  | "MANAGE_BREAKOUTS"
+  | "LOWER_HAND"
+  | "LOWER_ALL_HANDS"
+  | "MANAGE_POLLS"
+  | "MODERATE_QA"
+  | "END_MEETING";
 
 export interface PermissionResult {
   allowed: boolean;
@@ -39,18 +65,27 @@ export interface PermissionResult {
   shouldAuditLog?: boolean;
 }
 
-interface PermissionRule {
+// A type alias (not an interface) so policies are valid Prisma JSON values
+export type PermissionRule = {
   allowed: boolean;
   denialReason?: string;
-}
+};
+
+// action -> actor role -> target role
+export type PermissionPolicy = Record<
+  ControlAction,
+  Record<Role, Record<Role, PermissionRule>>
+>;
 
 // ============================================================================
 // PERMISSION MATRIX
+// Built-in default policy. Rooms can carry their own (Room.permissionPolicy),
+// usually copied from a PolicyTemplate.
 // ============================================================================
 
-const PERMISSION_MATRIX: Record<
+const CORE_PERMISSION_MATRIX: Record<
   ControlAction,
-  Record<Role, Record<Role, PermissionRule>>
+  Record<CoreRole, Record<CoreRole, PermissionRule>>
 > = {
   MAKE_HOST: {
     HOST: {
@@ -88,6 +123,44 @@ const PERMISSION_MATRIX: Record<
     },
   },
 
+  // Hands Room.creatorId to the target - only the creator passes the context check
+  TRANSFER_OWNERSHIP: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: false, denialReason: "COHOST_CANNOT_MANAGE_HOST" },
+      COHOST: { allowed: false, denialReason: "COHOST_CANNOT_PROMOTE" },
+      PARTICIPANT: { allowed: false, denialReason: "COHOST_CANNOT_PROMOTE" },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // VIEWER / PRESENTER / INTERPRETER / PARTICIPANT - hosts use make-host/make-cohost
+  ASSIGN_ROLE: {
+    HOST: {
+      HOST: { allowed: false, denialReason: "TARGET_IS_HOST" },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: false, denialReason: "COHOST_CANNOT_MANAGE_HOST" },
+      COHOST: { allowed: false, denialReason: "COHOST_CANNOT_DEMOTE" },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
   MAKE_COHOST: {
     HOST: {
       HOST: { allowed: false, denialReason: "TARGET_ALREADY_HOST" },
@@ -232,6 +305,24 @@ const PERMISSION_MATRIX: Record<
     },
   },
 
+  BAN_FROM_ROOM: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: false, denialReason: "COHOST_CANNOT_KICK_HOST" },
+      COHOST: { allowed: false, denialReason: "COHOST_CANNOT_KICK_COHOST" },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
   // Global controls - permission to execute, but hosts/co-hosts are exempt from effects
   GLOBAL_MUTE: {
     HOST: {
@@ -340,13 +431,429 @@ const PERMISSION_MATRIX: Record<
       PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
     },
   },
+
+  // Room lock & lobby - room-level actions, waiting users are treated as PARTICIPANT targets
+  LOCK_ROOM: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  UNLOCK_ROOM: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  ADMIT_FROM_LOBBY: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  DENY_FROM_LOBBY: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Banned users are no longer participants, so this is room-level too
+  LIFT_BAN: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: false, denialReason: "COHOST_CANNOT_LIFT_BAN" },
+      COHOST: { allowed: false, denialReason: "COHOST_CANNOT_LIFT_BAN" },
+      PARTICIPANT: { allowed: false, denialReason: "COHOST_CANNOT_LIFT_BAN" },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Recording - room-level
+  START_RECORDING: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  STOP_RECORDING: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Breakout rooms - room-level
+  MANAGE_BREAKOUTS: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Raise-hand queue - lowering someone's hand (or calling on them) is harmless,
+  // so co-hosts may do it to hosts too
+  LOWER_HAND: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  LOWER_ALL_HANDS: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Polls - room-level: create, launch and close
+  MANAGE_POLLS: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // Q&A moderation - room-level: approve, dismiss, answer, toggle moderation
+  MODERATE_QA: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+
+  // End meeting - room-level, hosts only
+  END_MEETING: {
+    HOST: {
+      HOST: { allowed: true },
+      COHOST: { allowed: true },
+      PARTICIPANT: { allowed: true },
+    },
+    COHOST: {
+      HOST: { allowed: false, denialReason: "COHOST_CANNOT_END_MEETING" },
+      COHOST: { allowed: false, denialReason: "COHOST_CANNOT_END_MEETING" },
+      PARTICIPANT: { allowed: false, denialReason: "COHOST_CANNOT_END_MEETING" },
+    },
+    PARTICIPANT: {
+      HOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      COHOST: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+      PARTICIPANT: { allowed: false, denialReason: "NO_ADMIN_PRIVILEGES" },
+    },
+  },
+};
+
+// VIEWER, PRESENTER and INTERPRETER hold no admin rights of their own and are
+// managed exactly like PARTICIPANTs
+const expandRoles = (
+  core: typeof CORE_PERMISSION_MATRIX
+): PermissionPolicy => {
+  const asParticipant = (role: Role): CoreRole =>
+    role === "HOST" || role === "COHOST" ? role : "PARTICIPANT";
+
+  const policy = {} as PermissionPolicy;
+  for (const action of Object.keys(core) as ControlAction[]) {
+    policy[action] = {} as Record<Role, Record<Role, PermissionRule>>;
+    for (const actorRole of ROLES) {
+      policy[action][actorRole] = {} as Record<Role, PermissionRule>;
+      for (const targetRole of ROLES) {
+        policy[action][actorRole][targetRole] = {
+          ...core[action][asParticipant(actorRole)][asParticipant(targetRole)],
+        };
+      }
+    }
+  }
+  return policy;
+};
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export const ROLES: Role[] = ["HOST", "COHOST", "PARTICIPANT", "VIEWER", "PRESENTER", "INTERPRETER"];
+
+// Roles handed out with assign-role (hosts and co-hosts have their own events)
+export const ASSIGNABLE_ROLES: Role[] = ["PARTICIPANT", "VIEWER", "PRESENTER", "INTERPRETER"];
+
+const PERMISSION_MATRIX: PermissionPolicy = expandRoles(CORE_PERMISSION_MATRIX);
+const CONTROL_ACTIONS = Object.keys(PERMISSION_MATRIX) as ControlAction[];
+
+export const DEFAULT_POLICY_TEMPLATE = "default";
+
+/**
+ * A policy must define a rule for every ControlAction x actor Role x target
+ * Role, and nothing else
+ */
+export function validatePolicy(
+  policy: unknown
+): { valid: true; policy: PermissionPolicy } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (!isObject(policy)) {
+    return { valid: false, errors: ["policy must be an object"] };
+  }
+
+  for (const key of Object.keys(policy)) {
+    if (!CONTROL_ACTIONS.includes(key as ControlAction)) {
+      errors.push(`unknown action ${key}`);
+    }
+  }
+
+  for (const action of CONTROL_ACTIONS) {
+    for (const actorRole of ROLES) {
+      for (const targetRole of ROLES) {
+        const path = `${action}.${actorRole}.${targetRole}`;
+        const rule = policy[action]?.[actorRole]?.[targetRole];
+
+        if (!isObject(rule)) {
+          errors.push(`${path} is missing`);
+        } else if (typeof rule.allowed !== "boolean") {
+          errors.push(`${path}.allowed must be a boolean`);
+        } else if (rule.denialReason !== undefined && typeof rule.denialReason !== "string") {
+          errors.push(`${path}.denialReason must be a string`);
+        }
+      }
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, policy: policy as PermissionPolicy };
+}
+
+// Every permission check needs the room's policy - keep it in memory.
+// PUT /api/meetings/:id/policy invalidates it on the node that served the
+// edit; the TTL bounds how long other nodes keep the old one.
+const POLICY_CACHE_TTL_MS = 30000;
+const policyCache = new Map<string, { policy: PermissionPolicy; expiresAt: number }>();
+
+/**
+ * The room's active policy. Rules missing from a stored policy (e.g. an
+ * action or role added after it was saved) fall back to the built-in default.
+ */
+export async function getRoomPolicy(roomId: string): Promise<PermissionPolicy> {
+  const cached = policyCache.get(roomId);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { permissionPolicy: true },
+  });
+
+  const stored = room?.permissionPolicy as Partial<PermissionPolicy> | null | undefined;
+  const policy = stored ? fillPolicyGaps(stored) : PERMISSION_MATRIX;
+
+  policyCache.set(roomId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+  if (policyCache.size > 1000) {
+    policyCache.forEach((entry, id) => {
+      if (entry.expiresAt <= Date.now()) policyCache.delete(id);
+    });
+  }
+
+  return policy;
+}
+
+/**
+ * Drop the cached policy after the room's stored policy changes
+ */
+export const invalidateRoomPolicy = (roomId: string) => {
+  policyCache.delete(roomId);
 };
 
+function fillPolicyGaps(stored: Partial<PermissionPolicy>): PermissionPolicy {
+  const merged = {} as PermissionPolicy;
+  for (const action of CONTROL_ACTIONS) {
+    merged[action] = {} as Record<Role, Record<Role, PermissionRule>>;
+    for (const actorRole of ROLES) {
+      merged[action][actorRole] = {} as Record<Role, PermissionRule>;
+      for (const targetRole of ROLES) {
+        merged[action][actorRole][targetRole] =
+          stored[action]?.[actorRole]?.[targetRole] ??
+          PERMISSION_MATRIX[action][actorRole][targetRole];
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Make sure the built-in matrix exists as the "default" template. Never
+ * overwrites an edited one.
+ */
+export async function ensureDefaultPolicyTemplate(): Promise<void> {
+  await prisma.policyTemplate.upsert({
+    where: { name: DEFAULT_POLICY_TEMPLATE },
+    create: {
+      name: DEFAULT_POLICY_TEMPLATE,
+      description: "Built-in permission matrix",
+      rules: PERMISSION_MATRIX as Prisma.InputJsonValue,
+    },
+    update: {},
+  });
+}
+
+export async function listPolicyTemplates() {
+  return await prisma.policyTemplate.findMany({
+    select: { id: true, name: true, description: true, updatedAt: true },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Look up a template by name. Templates saved before an action or role
+ * existed get the default rules for it.
+ */
+export async function getPolicyTemplate(name: string) {
+  const template = await prisma.policyTemplate.findUnique({ where: { name } });
+  if (!template) return null;
+
+  const rules = template.rules as Partial<PermissionPolicy> | null;
+  if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error(`Policy template ${name} has no rules`);
+  }
+
+  return { id: template.id, name: template.name, policy: fillPolicyGaps(rules) };
+}
+
 // ============================================================================
 // AUDIT LOGGING
 // ============================================================================
 
-interface AuditLogEntry {
+export interface AuditLogEntry {
   action: string;
   actor: string;
   target?: string;
@@ -356,51 +863,84 @@ interface AuditLogEntry {
   timestamp: Date;
 }
 
-const auditLogs: AuditLogEntry[] = [];
-
 export async function auditLog(entry: AuditLogEntry): Promise<void> {
-  auditLogs.push(entry);
-
   // Log to console for monitoring
   if (entry.result === "DENIED") {
     console.warn(`🚨 AUDIT: ${entry.actor} attempted ${entry.action} on ${entry.target} - DENIED: ${entry.reason}`);
   }
 
-  // In production, you would store this in a database or send to a logging service
-  // await prisma.auditLog.create({ data: entry });
+  // Never let a failed audit write break the action being audited
+  try {
+    await prisma.auditLog.create({ data: entry });
+  } catch (err) {
+    console.error("❌ Failed to persist audit log entry:", err, entry);
+  }
 }
 
-export function getAuditLogs(roomId?: string): AuditLogEntry[] {
-  if (roomId) {
-    return auditLogs.filter((log) => log.roomId === roomId);
-  }
-  return auditLogs;
+export interface AuditLogQuery {
+  roomId: string;
+  actor?: string;
+  action?: string;
+  result?: "ALLOWED" | "DENIED";
+  from?: Date;
+  to?: Date;
+  cursor?: string; // id of the last entry from the previous page
+  limit: number;
+}
+
+/**
+ * Newest-first page of a room's audit trail
+ */
+export async function queryAuditLogs(query: AuditLogQuery) {
+  const entries = await prisma.auditLog.findMany({
+    where: {
+      roomId: query.roomId,
+      actor: query.actor,
+      action: query.action,
+      result: query.result,
+      timestamp: { gte: query.from, lte: query.to },
+    },
+    orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+    // Fetch one extra row to know whether another page exists
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = entries.length > query.limit;
+  const page = hasMore ? entries.slice(0, query.limit) : entries;
+
+  return {
+    entries: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
 }
 
 // ============================================================================
 // RATE LIMITING
 // ============================================================================
 
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 5000; // 5 seconds
 const MAX_ACTIONS_PER_WINDOW = 10;
 
-export function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const userLimit = rateLimitMap.get(userId);
-
-  if (!userLimit || now > userLimit.resetTime) {
-    // Reset or initialize
-    rateLimitMap.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+/**
+ * Counters live in the shared state backend so the limit holds across nodes
+ */
+export async function checkRateLimit(userId: string): Promise<boolean> {
+  let count: number;
+  try {
+    count = await incrementRateCounter(userId, RATE_LIMIT_WINDOW);
+  } catch (err) {
+    if (!(err instanceof SharedStateUnavailableError)) throw err;
+    // Don't lock everyone out of host controls when the backend is down
+    console.error(`Rate limiter unavailable, allowing action: ${err.message}`);
     return true;
   }
 
-  if (userLimit.count >= MAX_ACTIONS_PER_WINDOW) {
-    console.warn(`⚠️ RATE LIMIT: ${userId} exceeded rate limit (${userLimit.count} actions)`);
+  if (count > MAX_ACTIONS_PER_WINDOW) {
+    console.warn(`⚠️ RATE LIMIT: ${userId} exceeded rate limit (${count} actions)`);
     return false;
   }
 
-  userLimit.count++;
   return true;
 }
 
@@ -433,7 +973,10 @@ export async function checkPermission(
 
     const actorRole = actor.role as Role;
 
-    // 2. For global actions, only check actor role
+    const policy = await getRoomPolicy(roomId);
+
+    // 2. For global and room-level actions, only check actor role
+    // (rules are looked up against the PARTICIPANT column - the affected role)
     const globalActions: ControlAction[] = [
       "GLOBAL_MUTE",
       "GLOBAL_UNMUTE",
@@ -441,15 +984,27 @@ export async function checkPermission(
       "GLOBAL_CAMERA_ENABLE",
       "GLOBAL_SCREENSHARE_DISABLE",
       "GLOBAL_SCREENSHARE_ENABLE",
+      "LOCK_ROOM",
+      "UNLOCK_ROOM",
+      "ADMIT_FROM_LOBBY",
+      "DENY_FROM_LOBBY",
+      "LIFT_BAN",
+      "START_RECORDING",
+      "STOP_RECORDING",
+      "MANAGE_BREAKOUTS",
+      "LOWER_ALL_HANDS",
+      "MANAGE_POLLS",
+      "MODERATE_QA",
+      "END_MEETING",
     ];
 
     if (globalActions.includes(action)) {
-      const canPerform = actorRole === "HOST" || actorRole === "COHOST";
+      const permission = policy[action]?.[actorRole]?.PARTICIPANT;
 
-      if (!canPerform) {
+      if (!permission?.allowed) {
         return {
           allowed: false,
-          reason: "NO_ADMIN_PRIVILEGES",
+          reason: permission?.denialReason || "NO_ADMIN_PRIVILEGES",
           shouldAuditLog: true,
         };
       }
@@ -491,7 +1046,7 @@ export async function checkPermission(
     }
 
     // 6. Lookup permission in matrix
-    const permission = PERMISSION_MATRIX[action]?.[actorRole]?.[targetRole];
+    const permission = policy[action]?.[actorRole]?.[targetRole];
 
     if (!permission) {
       return {
@@ -510,7 +1065,10 @@ export async function checkPermission(
     }
 
     // 7. Additional context checks
-    if (action === "REMOVE_FROM_ROOM" && targetRole === "HOST") {
+    if (
+      (action === "REMOVE_FROM_ROOM" || action === "BAN_FROM_ROOM") &&
+      targetRole === "HOST"
+    ) {
       // Cannot kick the room creator
       const room = await prisma.room.findUnique({ where: { id: roomId } });
       if (room?.creatorId === targetUserId) {
@@ -522,6 +1080,29 @@ export async function checkPermission(
       }
     }
 
+    if (action === "REMOVE_HOST") {
+      // The creator stays host until they transfer ownership
+      const room = await prisma.room.findUnique({ where: { id: roomId } });
+      if (room?.creatorId === targetUserId) {
+        return {
+          allowed: false,
+          reason: "CANNOT_DEMOTE_CREATOR",
+          shouldAuditLog: true,
+        };
+      }
+    }
+
+    if (action === "TRANSFER_OWNERSHIP") {
+      const room = await prisma.room.findUnique({ where: { id: roomId } });
+      if (room?.creatorId !== actorUserId) {
+        return {
+          allowed: false,
+          reason: "ONLY_CREATOR_CAN_TRANSFER",
+          shouldAuditLog: true,
+        };
+      }
+    }
+
     return { allowed: true };
   } catch (err) {
     console.error("Error in checkPermission:", err);
@@ -541,13 +1122,47 @@ export function isExemptFromGlobalControls(role: Role): boolean {
 }
 
 /**
- * Helper to get participants affected by global actions (only PARTICIPANT role)
+ * A participant's role in a room, or null if they aren't in it
+ */
+export async function getParticipantRole(userId: string, roomId: string): Promise<Role | null> {
+  const participant = await prisma.roomParticipant.findUnique({
+    where: { roomId_userId: { roomId, userId } },
+    select: { role: true },
+  });
+  return (participant?.role as Role | undefined) ?? null;
+}
+
+/**
+ * What a role may publish at all, before any host locks are considered
+ */
+export function canProduceWithRole(
+  role: Role | null,
+  kind: "audio" | "video",
+  isScreenShare: boolean
+): { allowed: boolean; reason?: string } {
+  if (role === "VIEWER") {
+    return { allowed: false, reason: "VIEWER_CANNOT_PRODUCE" };
+  }
+  if (role === "INTERPRETER" && (kind !== "audio" || isScreenShare)) {
+    return { allowed: false, reason: "INTERPRETER_AUDIO_ONLY" };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Roles that global actions apply to: everyone who can produce, except
+ * hosts and co-hosts
+ */
+export const GLOBAL_CONTROL_ROLES: Role[] = ["PARTICIPANT", "PRESENTER", "INTERPRETER"];
+
+/**
+ * Helper to get participants affected by global actions
  */
 export async function getGlobalActionTargets(roomId: string) {
   return await prisma.roomParticipant.findMany({
     where: {
       roomId,
-      role: "PARTICIPANT", // Only participants are affected
+      role: { in: GLOBAL_CONTROL_ROLES }, // Hosts, co-hosts and viewers are skipped
     },
   });
 }
@@ -577,6 +1192,10 @@ export async function canUnmute(
       return { allowed: true };
     }
 
+    if (participant.role === "VIEWER") {
+      return { allowed: false, reason: "VIEWER_CANNOT_PRODUCE" };
+    }
+
     // Check if locked
     if (participant.audioLocked) {
       return { allowed: false, reason: "AUDIO_LOCKED_BY_ADMIN" };
@@ -605,11 +1224,19 @@ export async function canStartScreenShare(
       return { allowed: false, reason: "PARTICIPANT_NOT_FOUND" };
     }
 
-    // Hosts and co-hosts can always screen share
-    if (isExemptFromGlobalControls(participant.role as Role)) {
+    // Hosts, co-hosts and presenters can always screen share
+    if (
+      isExemptFromGlobalControls(participant.role as Role) ||
+      participant.role === "PRESENTER"
+    ) {
       return { allowed: true };
     }
 
+    const roleCheck = canProduceWithRole(participant.role as Role, "video", true);
+    if (!roleCheck.allowed) {
+      return roleCheck;
+    }
+
     // Check if locked
     if (participant.screenShareLocked) {
       return { allowed: false, reason: "SCREEN_SHARE_LOCKED_BY_ADMIN" };
@@ -621,3 +1248,29 @@ export async function canStartScreenShare(
     return { allowed: false, reason: "VALIDATION_ERROR" };
   }
 }
+
+// ============================================================================
+// BAN VALIDATION
+// ============================================================================
+
+/**
+ * Check if a user is currently banned from a room (expired bans are ignored)
+ */
+export async function checkBan(
+  userId: string,
+  roomId: string
+): Promise<{ banned: boolean; reason?: string | null; expiresAt?: Date | null }> {
+  const ban = await prisma.roomBan.findUnique({
+    where: { roomId_userId: { roomId, userId } },
+  });
+
+  if (!ban) {
+    return { banned: false };
+  }
+
+  if (ban.expiresAt && ban.expiresAt <= new Date()) {
+    return { banned: false };
+  }
+
+  return { banned: true, reason: ban.reason, expiresAt: ban.expiresAt };
+}
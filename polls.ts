@@ -0,0 +1,407 @@
+/**
+ * Polls & Quizzes
+ *
+ * Hosts draft a poll, launch it to the room and close it. Answers by type:
+ *
+ *   SINGLE_CHOICE    { optionIds: [id] }
+ *   MULTIPLE_CHOICE  { optionIds: [id, ...] }
+ *   RATING           { rating: 1..ratingMax }
+ *   FREE_TEXT        { text }
+ *
+ * Marking options `isCorrect` turns a choice poll into a quiz; the answers
+ * are only revealed once it closes. Each userId votes once per poll (unique
+ * index). Anonymous polls still store the voter's userId for that, but
+ * results and exports never show it.
+ *
+ * Live results are pushed to the room at most once per
+ * POLL_RESULTS_THROTTLE_MS per poll:
+ *
+ *   poll-results  { pollId, roomId, totalVotes, options | ratings | responses }
+ */
+
+import { Prisma } from "./generated/prisma";
+import { prisma } from "./prisma";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PollType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE" | "RATING" | "FREE_TEXT";
+
+const POLL_INCLUDE = {
+  options: { orderBy: { position: "asc" } },
+} as const;
+
+export type Poll = Prisma.PollGetPayload<{ include: typeof POLL_INCLUDE }>;
+
+export interface PollAnswer {
+  optionIds?: unknown;
+  rating?: unknown;
+  text?: unknown;
+}
+
+export interface PollResults {
+  pollId: string;
+  roomId: string;
+  totalVotes: number;
+  options?: { optionId: string; text: string; votes: number }[];
+  ratings?: { value: number; votes: number }[];
+  averageRating?: number | null;
+  responses?: { text: string; userName: string | null }[];
+  correctOptionIds?: string[]; // Quizzes, once closed
+}
+
+type Emit = (roomId: string, event: string, payload: any) => void;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const RESULTS_THROTTLE_MS = Number(process.env.POLL_RESULTS_THROTTLE_MS) || 1000;
+
+const POLL_TYPES: PollType[] = ["SINGLE_CHOICE", "MULTIPLE_CHOICE", "RATING", "FREE_TEXT"];
+const MAX_QUESTION_LENGTH = 500;
+const MAX_OPTIONS = 20;
+const MAX_OPTION_LENGTH = 200;
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+const DEFAULT_RATING_MAX = 5;
+const MAX_RATING_MAX = 10;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const resultTimers = new Map<string, { lastEmitAt: number; trailing?: NodeJS.Timeout }>();
+
+let emit: Emit = () => {};
+
+/**
+ * Set how poll results reach clients (index.ts owns the Socket.IO server)
+ */
+export const setPollEmitter = (fn: Emit) => {
+  emit = fn;
+};
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+const isChoice = (type: string) => type === "SINGLE_CHOICE" || type === "MULTIPLE_CHOICE";
+
+export const getPoll = (roomId: string, pollId: string) =>
+  prisma.poll.findFirst({
+    where: { id: pollId, roomId },
+    include: POLL_INCLUDE,
+  });
+
+/**
+ * A room's polls, oldest first. Drafts are for hosts only.
+ */
+export const listPolls = (roomId: string, includeDrafts: boolean) =>
+  prisma.poll.findMany({
+    where: { roomId, ...(includeDrafts ? {} : { status: { not: "DRAFT" } }) },
+    include: POLL_INCLUDE,
+    orderBy: { createdAt: "asc" },
+  });
+
+export const hasVoted = async (pollId: string, userId: string) =>
+  (await prisma.pollVote.count({ where: { pollId, userId } })) > 0;
+
+/**
+ * Client-facing shape. Correct answers stay hidden until the poll closes,
+ * unless `revealAnswers` (hosts, exports).
+ */
+export const serializePoll = (poll: Poll, revealAnswers = poll.status === "CLOSED") => ({
+  id: poll.id,
+  roomId: poll.roomId,
+  question: poll.question,
+  type: poll.type,
+  anonymous: poll.anonymous,
+  ratingMax: poll.ratingMax,
+  status: poll.status,
+  isQuiz: poll.options.some((o) => o.isCorrect),
+  createdAt: poll.createdAt,
+  launchedAt: poll.launchedAt,
+  closedAt: poll.closedAt,
+  options: poll.options.map((o) => ({
+    id: o.id,
+    text: o.text,
+    position: o.position,
+    ...(revealAnswers ? { isCorrect: o.isCorrect } : {}),
+  })),
+});
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Validate and store a DRAFT poll. `options` are strings or
+ * { text, isCorrect } for quizzes.
+ */
+export async function createPoll(
+  roomId: string,
+  createdBy: string,
+  input: Record<string, any>
+): Promise<Poll> {
+  const question = typeof input.question === "string" ? input.question.trim() : "";
+  if (!question || question.length > MAX_QUESTION_LENGTH) {
+    throw new Error(`question must be 1-${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const type = input.type as PollType;
+  if (!POLL_TYPES.includes(type)) {
+    throw new Error(`type must be one of ${POLL_TYPES.join(", ")}`);
+  }
+
+  let options: { text: string; isCorrect: boolean }[] = [];
+  if (isChoice(type)) {
+    if (!Array.isArray(input.options) || input.options.length < 2 || input.options.length > MAX_OPTIONS) {
+      throw new Error(`Choice polls need 2-${MAX_OPTIONS} options`);
+    }
+    options = input.options.map((option: any) => ({
+      text: String(typeof option === "string" ? option : option?.text ?? "").trim(),
+      isCorrect: option?.isCorrect === true,
+    }));
+    if (options.some((o) => !o.text || o.text.length > MAX_OPTION_LENGTH)) {
+      throw new Error(`Every option needs 1-${MAX_OPTION_LENGTH} characters of text`);
+    }
+    if (type === "SINGLE_CHOICE" && options.filter((o) => o.isCorrect).length > 1) {
+      throw new Error("A single choice quiz has one correct option");
+    }
+  } else if (input.options !== undefined) {
+    throw new Error(`${type} polls don't take options`);
+  }
+
+  let ratingMax: number | null = null;
+  if (type === "RATING") {
+    ratingMax = input.ratingMax === undefined ? DEFAULT_RATING_MAX : Number(input.ratingMax);
+    if (!Number.isInteger(ratingMax) || ratingMax < 2 || ratingMax > MAX_RATING_MAX) {
+      throw new Error(`ratingMax must be between 2 and ${MAX_RATING_MAX}`);
+    }
+  }
+
+  return await prisma.poll.create({
+    data: {
+      roomId,
+      createdBy,
+      question,
+      type,
+      anonymous: input.anonymous === true,
+      ratingMax,
+      options: {
+        create: options.map((option, position) => ({ ...option, position })),
+      },
+    },
+    include: POLL_INCLUDE,
+  });
+}
+
+/**
+ * DRAFT -> LIVE: voting opens
+ */
+export async function launchPoll(roomId: string, pollId: string): Promise<Poll> {
+  const { count } = await prisma.poll.updateMany({
+    where: { id: pollId, roomId, status: "DRAFT" },
+    data: { status: "LIVE", launchedAt: new Date() },
+  });
+  if (count === 0) throw new Error("Poll not found or already launched");
+
+  return (await getPoll(roomId, pollId))!;
+}
+
+/**
+ * LIVE -> CLOSED: voting stops and any throttled results are dropped (the
+ * caller sends final results)
+ */
+export async function closePoll(roomId: string, pollId: string): Promise<Poll> {
+  const { count } = await prisma.poll.updateMany({
+    where: { id: pollId, roomId, status: "LIVE" },
+    data: { status: "CLOSED", closedAt: new Date() },
+  });
+  if (count === 0) throw new Error("Poll not found or not live");
+
+  clearTimeout(resultTimers.get(pollId)?.trailing);
+  resultTimers.delete(pollId);
+
+  return (await getPoll(roomId, pollId))!;
+}
+
+// ============================================================================
+// VOTING
+// ============================================================================
+
+const validateAnswer = (poll: Poll, answer: PollAnswer) => {
+  if (isChoice(poll.type)) {
+    const optionIds = answer.optionIds;
+    if (!Array.isArray(optionIds) || optionIds.length === 0) {
+      throw new Error("Pick at least one option");
+    }
+    const unique = Array.from(new Set(optionIds.map(String)));
+    if (poll.type === "SINGLE_CHOICE" && unique.length > 1) {
+      throw new Error("Pick exactly one option");
+    }
+    const known = new Set(poll.options.map((o) => o.id));
+    if (unique.some((id) => !known.has(id))) throw new Error("Unknown option");
+    return { optionIds: unique };
+  }
+
+  if (poll.type === "RATING") {
+    const rating = Number(answer.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > (poll.ratingMax ?? DEFAULT_RATING_MAX)) {
+      throw new Error(`rating must be between 1 and ${poll.ratingMax ?? DEFAULT_RATING_MAX}`);
+    }
+    return { rating };
+  }
+
+  const text = typeof answer.text === "string" ? answer.text.trim() : "";
+  if (!text || text.length > MAX_TEXT_ANSWER_LENGTH) {
+    throw new Error(`Answer must be 1-${MAX_TEXT_ANSWER_LENGTH} characters`);
+  }
+  return { text };
+};
+
+/**
+ * Record a user's one vote on a live poll and schedule a results push
+ */
+export async function castVote(
+  roomId: string,
+  pollId: string,
+  userId: string,
+  userName: string | null,
+  answer: PollAnswer
+): Promise<void> {
+  const poll = await getPoll(roomId, pollId);
+  if (!poll) throw new Error("Poll not found");
+  if (poll.status !== "LIVE") throw new Error("This poll isn't open for voting");
+
+  try {
+    await prisma.pollVote.create({
+      data: {
+        pollId,
+        userId,
+        userName: poll.anonymous ? null : userName,
+        ...validateAnswer(poll, answer),
+      },
+    });
+  } catch (err: any) {
+    // Unique (pollId, userId) - a second vote, possibly from another tab
+    if (err?.code === "P2002") throw new Error("You have already voted in this poll");
+    throw err;
+  }
+
+  scheduleResults(poll);
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export async function getPollResults(
+  poll: Poll,
+  revealAnswers = poll.status === "CLOSED"
+): Promise<PollResults> {
+  const votes = await prisma.pollVote.findMany({
+    where: { pollId: poll.id },
+    select: { optionIds: true, rating: true, text: true, userName: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const results: PollResults = { pollId: poll.id, roomId: poll.roomId, totalVotes: votes.length };
+
+  if (isChoice(poll.type)) {
+    const counts = new Map<string, number>();
+    votes.forEach((v) => v.optionIds.forEach((id) => counts.set(id, (counts.get(id) || 0) + 1)));
+    results.options = poll.options.map((o) => ({
+      optionId: o.id,
+      text: o.text,
+      votes: counts.get(o.id) || 0,
+    }));
+    if (revealAnswers && poll.options.some((o) => o.isCorrect)) {
+      results.correctOptionIds = poll.options.filter((o) => o.isCorrect).map((o) => o.id);
+    }
+  } else if (poll.type === "RATING") {
+    const max = poll.ratingMax ?? DEFAULT_RATING_MAX;
+    const rated = votes.map((v) => v.rating).filter((r): r is number => r !== null);
+    results.ratings = Array.from({ length: max }, (_, i) => ({
+      value: i + 1,
+      votes: rated.filter((r) => r === i + 1).length,
+    }));
+    results.averageRating =
+      rated.length > 0 ? Math.round((rated.reduce((a, b) => a + b, 0) / rated.length) * 100) / 100 : null;
+  } else {
+    results.responses = votes
+      .filter((v) => v.text)
+      .map((v) => ({ text: v.text!, userName: poll.anonymous ? null : v.userName }));
+  }
+
+  return results;
+}
+
+const emitResults = async (poll: Poll) => {
+  try {
+    emit(poll.roomId, "poll-results", await getPollResults(poll));
+  } catch (err) {
+    console.error(`Error pushing results for poll ${poll.id}:`, err);
+  }
+};
+
+// Throttle: push now if we've been quiet long enough, else once the window ends
+const scheduleResults = (poll: Poll) => {
+  const state = resultTimers.get(poll.id) || { lastEmitAt: 0 };
+  resultTimers.set(poll.id, state);
+  if (state.trailing) return;
+
+  const wait = state.lastEmitAt + RESULTS_THROTTLE_MS - Date.now();
+  const run = () => {
+    state.trailing = undefined;
+    state.lastEmitAt = Date.now();
+    emitResults(poll);
+  };
+
+  if (wait <= 0) run();
+  else state.trailing = setTimeout(run, wait);
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Every poll of a meeting with final results. Named polls list each vote
+ * (and, for quizzes, whether it was right); anonymous polls only totals.
+ */
+export async function exportPolls(roomId: string) {
+  const polls = await prisma.poll.findMany({
+    where: { roomId },
+    include: {
+      ...POLL_INCLUDE,
+      votes: { orderBy: { createdAt: "asc" } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return await Promise.all(
+    polls.map(async ({ votes, ...poll }) => {
+      const correct = poll.options.filter((o) => o.isCorrect).map((o) => o.id).sort();
+      const isRight = (optionIds: string[]) =>
+        correct.length > 0 ? [...optionIds].sort().join() === correct.join() : undefined;
+
+      return {
+        ...serializePoll(poll, true),
+        results: await getPollResults(poll, true),
+        votes: poll.anonymous
+          ? undefined
+          : votes.map((v) => ({
+              userId: v.userId,
+              userName: v.userName,
+              optionIds: v.optionIds,
+              rating: v.rating,
+              text: v.text,
+              correct: isRight(v.optionIds),
+              createdAt: v.createdAt,
+            })),
+      };
+    })
+  );
+}
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "isLocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lockedAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "target" TEXT,
+    "result" TEXT NOT NULL,
+    "reason" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_roomId_timestamp_idx" ON "AuditLog"("roomId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_roomId_actor_idx" ON "AuditLog"("roomId", "actor");
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "Recording" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "startedBy" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stoppedAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'RECORDING',
+    "sizeBytes" BIGINT NOT NULL DEFAULT 0,
+
+    CONSTRAINT "Recording_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecordingFile" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "userId" TEXT,
+    "kind" TEXT NOT NULL,
+    "isScreenShare" BOOLEAN NOT NULL DEFAULT false,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "sizeBytes" BIGINT NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stoppedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RecordingFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Recording_roomId_idx" ON "Recording"("roomId");
+
+-- CreateIndex
+CREATE INDEX "RecordingFile_recordingId_idx" ON "RecordingFile"("recordingId");
+
+-- AddForeignKey
+ALTER TABLE "Recording" ADD CONSTRAINT "Recording_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingFile" ADD CONSTRAINT "RecordingFile_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
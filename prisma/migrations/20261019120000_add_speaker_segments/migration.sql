@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "SpeakerSegment" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+
+    CONSTRAINT "SpeakerSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SpeakerSegment_roomId_userId_idx" ON "SpeakerSegment"("roomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "SpeakerSegment" ADD CONSTRAINT "SpeakerSegment_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
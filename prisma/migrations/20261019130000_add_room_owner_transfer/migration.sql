@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "ownerTransferredAt" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "permissionPolicy" JSONB,
+ADD COLUMN     "policyTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PolicyTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PolicyTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PolicyTemplate_name_key" ON "PolicyTemplate"("name");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "durationMinutes" INTEGER,
+ADD COLUMN     "joinWindowMinutes" INTEGER,
+ADD COLUMN     "recurrence" TEXT,
+ADD COLUMN     "startsAt" TIMESTAMP(3),
+ADD COLUMN     "timezone" TEXT,
+ADD COLUMN     "title" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Room_creatorId_startsAt_idx" ON "Room"("creatorId", "startsAt");
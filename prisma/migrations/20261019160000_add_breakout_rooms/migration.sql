@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "parentRoomId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BreakoutSession" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "durationSeconds" INTEGER,
+    "openedAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BreakoutSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BreakoutRoom" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "BreakoutRoom_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BreakoutAssignment" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "breakoutRoomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "assignedBy" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BreakoutAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Room_parentRoomId_idx" ON "Room"("parentRoomId");
+
+-- CreateIndex
+CREATE INDEX "BreakoutSession_roomId_status_idx" ON "BreakoutSession"("roomId", "status");
+
+-- CreateIndex
+CREATE INDEX "BreakoutRoom_sessionId_idx" ON "BreakoutRoom"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "BreakoutAssignment_breakoutRoomId_idx" ON "BreakoutAssignment"("breakoutRoomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BreakoutAssignment_sessionId_userId_key" ON "BreakoutAssignment"("sessionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "BreakoutSession" ADD CONSTRAINT "BreakoutSession_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakoutRoom" ADD CONSTRAINT "BreakoutRoom_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "BreakoutSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakoutAssignment" ADD CONSTRAINT "BreakoutAssignment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "BreakoutSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakoutAssignment" ADD CONSTRAINT "BreakoutAssignment_breakoutRoomId_fkey" FOREIGN KEY ("breakoutRoomId") REFERENCES "BreakoutRoom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
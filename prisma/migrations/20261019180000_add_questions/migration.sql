@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "qaModerated" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Question" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "askedBy" TEXT NOT NULL,
+    "askedByName" TEXT,
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "text" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'APPROVED',
+    "upvoteCount" INTEGER NOT NULL DEFAULT 0,
+    "answerText" TEXT,
+    "answeredBy" TEXT,
+    "answeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Question_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuestionUpvote" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionUpvote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Question_roomId_status_idx" ON "Question"("roomId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionUpvote_questionId_userId_key" ON "QuestionUpvote"("questionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionUpvote" ADD CONSTRAINT "QuestionUpvote_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "endedAt" TIMESTAMP(3),
+ADD COLUMN     "endedBy" TEXT,
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'SCHEDULED';
+
+-- Meetings with people in them right now are already live
+UPDATE "Room" SET "status" = 'LIVE', "startedAt" = NOW()
+WHERE "id" IN (SELECT "roomId" FROM "RoomParticipant" WHERE "isConnected" = true);
@@ -0,0 +1,224 @@
+/**
+ * Q&A
+ *
+ * Questions live apart from chat so they don't scroll away. Participants
+ * ask (optionally anonymously) and upvote each other's questions; hosts
+ * approve, dismiss, mark answered or answer in text.
+ *
+ *   PENDING    waiting for a host (only when the room's Q&A is moderated)
+ *   APPROVED   visible to everyone, open for upvotes
+ *   ANSWERED   visible, done
+ *   DISMISSED  hidden from everyone but hosts and the asker
+ *
+ * Anonymous questions keep the asker's userId (so they still see their own
+ * question) but it's never sent to anyone.
+ */
+
+import { Prisma } from "./generated/prisma";
+import { prisma } from "./prisma";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ModerationAction = "approve" | "dismiss" | "mark-answered" | "answer";
+
+const QUESTION_INCLUDE = {
+  upvotes: { select: { userId: true } },
+} as const;
+
+type Question = Prisma.QuestionGetPayload<{ include: typeof QUESTION_INCLUDE }>;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const MAX_QUESTION_LENGTH = 500;
+const MAX_ANSWER_LENGTH = 2000;
+
+const MODERATION_ACTIONS: ModerationAction[] = ["approve", "dismiss", "mark-answered", "answer"];
+
+// Moderators' list order; participants see the same order minus what they can't see
+const STATUS_ORDER = ["PENDING", "APPROVED", "ANSWERED", "DISMISSED"];
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Every question of the room, sorted: pending first (oldest first), then
+ * open questions by upvotes, then answered, then dismissed
+ */
+export async function loadQuestions(roomId: string): Promise<{ moderated: boolean; questions: Question[] }> {
+  const [room, questions] = await Promise.all([
+    prisma.room.findUnique({ where: { id: roomId }, select: { qaModerated: true } }),
+    prisma.question.findMany({ where: { roomId }, include: QUESTION_INCLUDE }),
+  ]);
+
+  questions.sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      (a.status === "APPROVED" ? b.upvoteCount - a.upvoteCount : 0) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  return { moderated: room?.qaModerated ?? false, questions };
+}
+
+/**
+ * What one viewer sees. Moderators get everything; everyone else gets
+ * approved and answered questions plus their own.
+ */
+export const questionsFor = (questions: Question[], viewerUserId: string, isModerator: boolean) =>
+  questions
+    .filter(
+      (q) =>
+        isModerator ||
+        q.status === "APPROVED" ||
+        q.status === "ANSWERED" ||
+        q.askedBy === viewerUserId
+    )
+    .map((q) => ({
+      id: q.id,
+      text: q.text,
+      askedByName: q.anonymous ? null : q.askedByName,
+      anonymous: q.anonymous,
+      isMine: q.askedBy === viewerUserId,
+      status: q.status,
+      upvoteCount: q.upvoteCount,
+      upvoted: q.upvotes.some((u) => u.userId === viewerUserId),
+      answerText: q.answerText,
+      answeredAt: q.answeredAt,
+      createdAt: q.createdAt,
+    }));
+
+// ============================================================================
+// ASKING & VOTING
+// ============================================================================
+
+/**
+ * Store a question - straight to APPROVED unless the room is moderated
+ */
+export async function askQuestion(
+  roomId: string,
+  userId: string,
+  userName: string | null,
+  input: { text?: unknown; anonymous?: unknown }
+) {
+  const text = typeof input.text === "string" ? input.text.trim() : "";
+  if (!text || text.length > MAX_QUESTION_LENGTH) {
+    throw new Error(`Questions must be 1-${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { qaModerated: true },
+  });
+  if (!room) throw new Error("Room not found");
+
+  const anonymous = input.anonymous === true;
+
+  return await prisma.question.create({
+    data: {
+      roomId,
+      askedBy: userId,
+      askedByName: anonymous ? null : userName,
+      anonymous,
+      text,
+      status: room.qaModerated ? "PENDING" : "APPROVED",
+    },
+  });
+}
+
+/**
+ * Add (or with `upvote: false` take back) a user's upvote on someone else's
+ * open question. One upvote per user per question.
+ */
+export async function setUpvote(
+  roomId: string,
+  questionId: string,
+  userId: string,
+  upvote: boolean
+): Promise<void> {
+  const question = await prisma.question.findFirst({ where: { id: questionId, roomId } });
+  if (!question || question.status !== "APPROVED") {
+    throw new Error("Only open questions can be upvoted");
+  }
+  if (question.askedBy === userId) throw new Error("You can't upvote your own question");
+
+  await prisma.$transaction(async (tx) => {
+    if (upvote) {
+      try {
+        await tx.questionUpvote.create({ data: { questionId, userId } });
+      } catch (err: any) {
+        if (err?.code === "P2002") throw new Error("You already upvoted this question");
+        throw err;
+      }
+      await tx.question.update({
+        where: { id: questionId },
+        data: { upvoteCount: { increment: 1 } },
+      });
+    } else {
+      const { count } = await tx.questionUpvote.deleteMany({ where: { questionId, userId } });
+      if (count > 0) {
+        await tx.question.update({
+          where: { id: questionId },
+          data: { upvoteCount: { decrement: count } },
+        });
+      }
+    }
+  });
+}
+
+// ============================================================================
+// MODERATION
+// ============================================================================
+
+export async function moderateQuestion(
+  roomId: string,
+  questionId: string,
+  moderatorId: string,
+  action: ModerationAction,
+  answer?: unknown
+) {
+  if (!MODERATION_ACTIONS.includes(action)) {
+    throw new Error(`action must be one of ${MODERATION_ACTIONS.join(", ")}`);
+  }
+
+  const question = await prisma.question.findFirst({ where: { id: questionId, roomId } });
+  if (!question) throw new Error("Question not found");
+
+  let data: Prisma.QuestionUpdateInput;
+  switch (action) {
+    case "approve":
+      data = { status: "APPROVED" };
+      break;
+    case "dismiss":
+      data = { status: "DISMISSED" };
+      break;
+    case "mark-answered":
+      data = { status: "ANSWERED", answeredBy: moderatorId, answeredAt: new Date() };
+      break;
+    case "answer": {
+      const answerText = typeof answer === "string" ? answer.trim() : "";
+      if (!answerText || answerText.length > MAX_ANSWER_LENGTH) {
+        throw new Error(`Answers must be 1-${MAX_ANSWER_LENGTH} characters`);
+      }
+      data = { status: "ANSWERED", answerText, answeredBy: moderatorId, answeredAt: new Date() };
+      break;
+    }
+  }
+
+  return await prisma.question.update({ where: { id: questionId }, data });
+}
+
+/**
+ * Turn moderation on or off. Questions already pending stay pending until a
+ * host approves or dismisses them.
+ */
+export async function setQaModeration(roomId: string, enabled: boolean): Promise<void> {
+  await prisma.room.update({
+    where: { id: roomId },
+    data: { qaModerated: enabled },
+  });
+}
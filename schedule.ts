@@ -0,0 +1,354 @@
+/**
+ * Meeting Scheduling
+ *
+ * A scheduled meeting has a start time, a duration, an IANA timezone and an
+ * optional RRULE-style recurrence (RFC 5545 subset):
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY;INTERVAL=n;COUNT=n|UNTIL=YYYYMMDD[THHMMSSZ];BYDAY=MO,WE
+ *
+ * BYDAY is only supported with FREQ=WEEKLY. Occurrences keep their wall-clock
+ * time in the meeting's timezone across DST changes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Schedule {
+  title: string | null;
+  description: string | null;
+  startsAt: Date | null;
+  durationMinutes: number | null;
+  timezone: string | null; // IANA, e.g. "Africa/Nairobi"; null = UTC
+  recurrence: string | null; // RRULE without the "RRULE:" prefix
+  joinWindowMinutes: number | null; // Joins open this long before each start; null = any time
+}
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: number[]; // 0 = Sunday .. 6 = Saturday
+}
+
+export interface Occurrence {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_JOIN_WINDOW_MINUTES = 24 * 60;
+// Upper bound on recurrence periods walked when looking for the next
+// occurrence - periods, not occurrences, so rules that skip most periods
+// (e.g. MONTHLY on the 31st) are bounded too
+const MAX_PERIODS_SCANNED = 5000;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TIMEZONES
+// ============================================================================
+
+export const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time of `date` in `timeZone`, expressed as a UTC timestamp
+ */
+const wallClock = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+};
+
+/**
+ * Inverse of wallClock: the instant at which `timeZone` shows `wall`
+ */
+const fromWallClock = (wall: number, timeZone: string): Date => {
+  const guess = wall - (wallClock(new Date(wall), timeZone) - wall);
+  const offset = wallClock(new Date(guess), timeZone) - guess;
+  return new Date(wall - offset);
+};
+
+// ============================================================================
+// RECURRENCE
+// ============================================================================
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) throw new Error(`UNTIL must look like 20261231 or 20261231T235959Z`);
+
+  const [, y, m, d, hh = "23", mm = "59", ss = "59"] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+};
+
+/**
+ * Parse an RRULE string; throws with a readable message on anything we
+ * don't support
+ */
+export function parseRecurrence(rrule: string): RecurrenceRule {
+  const fields = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) throw new Error(`Malformed recurrence part "${part}"`);
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of fields) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+      case "COUNT": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) throw new Error(`${key} must be a positive integer`);
+        if (key === "INTERVAL") rule.interval = n;
+        else rule.count = n;
+        break;
+      }
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYDAY": {
+        if (freq !== "WEEKLY") throw new Error("BYDAY is only supported with FREQ=WEEKLY");
+        const days = value.split(",").map((d) => WEEKDAYS.indexOf(d));
+        if (days.some((d) => d === -1)) throw new Error("BYDAY must list days like MO,WE,FR");
+        rule.byDay = Array.from(new Set(days)).sort((a, b) => a - b);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported recurrence part ${key}`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error("Use COUNT or UNTIL, not both");
+  }
+
+  return rule;
+}
+
+/**
+ * Occurrence start times in order, as wall-clock timestamps
+ */
+function* wallOccurrences(startWall: number, rule: RecurrenceRule | null): Generator<number> {
+  if (!rule) {
+    yield startWall;
+    return;
+  }
+
+  const start = new Date(startWall);
+  const timeOfDay = startWall % DAY_MS;
+
+  for (let period = 0; period < MAX_PERIODS_SCANNED; period++) {
+    const step = period * rule.interval;
+
+    if (rule.freq === "DAILY") {
+      yield startWall + step * DAY_MS;
+    } else if (rule.freq === "MONTHLY") {
+      const day = start.getUTCDate();
+      const candidate = Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, day) + timeOfDay;
+      // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+      if (new Date(candidate).getUTCDate() === day) yield candidate;
+    } else if (!rule.byDay) {
+      yield startWall + step * 7 * DAY_MS;
+    } else {
+      // Weeks start on Monday
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = startWall - timeOfDay - mondayOffset * DAY_MS + step * 7 * DAY_MS;
+      for (const weekday of rule.byDay) {
+        const candidate = weekStart + ((weekday + 6) % 7) * DAY_MS + timeOfDay;
+        if (candidate >= startWall) yield candidate;
+      }
+    }
+  }
+}
+
+/**
+ * The first occurrence that hasn't ended by `from` (the current one if a
+ * meeting is in progress), or null once the series is over
+ */
+export function nextOccurrence(schedule: Schedule, from: Date = new Date()): Occurrence | null {
+  if (!schedule.startsAt) return null;
+
+  const timeZone = schedule.timezone || "UTC";
+  const durationMs = (schedule.durationMinutes ?? DEFAULT_DURATION_MINUTES) * 60 * 1000;
+  const rule = schedule.recurrence ? parseRecurrence(schedule.recurrence) : null;
+
+  let seen = 0;
+  for (const wall of wallOccurrences(wallClock(schedule.startsAt, timeZone), rule)) {
+    const startsAt = fromWallClock(wall, timeZone);
+
+    if (rule?.until && startsAt > rule.until) return null;
+    if (rule?.count && seen++ >= rule.count) return null;
+
+    const endsAt = new Date(startsAt.getTime() + durationMs);
+    if (endsAt > from) return { startsAt, endsAt };
+  }
+
+  return null;
+}
+
+/**
+ * Whether join-mediasoup-room is open right now. Meetings without a start
+ * time or join window, and finished series, are always open.
+ */
+export function checkJoinWindow(
+  schedule: Schedule,
+  now: Date = new Date()
+): { open: boolean; opensAt?: Date; occurrence?: Occurrence } {
+  if (schedule.joinWindowMinutes === null || !schedule.startsAt) return { open: true };
+
+  const occurrence = nextOccurrence(schedule, now);
+  if (!occurrence) return { open: true };
+
+  const opensAt = new Date(occurrence.startsAt.getTime() - schedule.joinWindowMinutes * 60 * 1000);
+  return { open: now >= opensAt, opensAt, occurrence };
+}
+
+/**
+ * When an ended recurring meeting opens again: the join window of the first
+ * occurrence that starts after it ended. Null for one-off meetings and
+ * finished series - those stay ended.
+ */
+export function reopensAt(schedule: Schedule, endedAt: Date): Date | null {
+  if (!schedule.recurrence || !schedule.startsAt) return null;
+
+  let occurrence = nextOccurrence(schedule, endedAt);
+  if (occurrence && occurrence.startsAt <= endedAt) {
+    occurrence = nextOccurrence(schedule, occurrence.endsAt);
+  }
+  if (!occurrence) return null;
+
+  return new Date(occurrence.startsAt.getTime() - (schedule.joinWindowMinutes ?? 0) * 60 * 1000);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const SCHEDULE_FIELDS: (keyof Schedule)[] = [
+  "title",
+  "description",
+  "startsAt",
+  "durationMinutes",
+  "timezone",
+  "recurrence",
+  "joinWindowMinutes",
+];
+
+/**
+ * Validate schedule fields from a request body. Only fields present in
+ * `input` are returned in `changes` (null clears a field); `existing` is the
+ * stored schedule for cross-field checks on PATCH.
+ */
+export function validateSchedule(
+  input: Record<string, unknown>,
+  existing?: Schedule
+): { valid: true; changes: Partial<Schedule> } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const changes: Partial<Schedule> = {};
+
+  const has = (key: keyof Schedule) => key in input && input[key] !== undefined;
+
+  for (const key of ["title", "description"] as const) {
+    if (!has(key)) continue;
+    const value = input[key];
+    if (value !== null && typeof value !== "string") {
+      errors.push(`${key} must be a string`);
+    } else {
+      changes[key] = value === null ? null : (value as string).trim() || null;
+    }
+  }
+  if (changes.title && changes.title.length > 200) errors.push("title must be at most 200 characters");
+
+  if (has("startsAt")) {
+    const value = input.startsAt;
+    const date = value === null ? null : new Date(String(value));
+    if (date && isNaN(date.getTime())) errors.push("startsAt must be an ISO date");
+    else changes.startsAt = date;
+  }
+
+  for (const [key, max] of [
+    ["durationMinutes", MAX_DURATION_MINUTES],
+    ["joinWindowMinutes", MAX_JOIN_WINDOW_MINUTES],
+  ] as const) {
+    if (!has(key)) continue;
+    const value = input[key];
+    const n = Number(value);
+    if (value !== null && (!Number.isInteger(n) || n < (key === "durationMinutes" ? 1 : 0) || n > max)) {
+      errors.push(`${key} must be an integer between ${key === "durationMinutes" ? 1 : 0} and ${max}`);
+    } else {
+      changes[key] = value === null ? null : n;
+    }
+  }
+
+  if (has("timezone")) {
+    const value = input.timezone;
+    if (value !== null && (typeof value !== "string" || !isValidTimezone(value))) {
+      errors.push("timezone must be an IANA timezone such as Europe/London");
+    } else {
+      changes.timezone = value as string | null;
+    }
+  }
+
+  if (has("recurrence")) {
+    const value = input.recurrence;
+    if (value !== null && typeof value !== "string") {
+      errors.push("recurrence must be an RRULE string");
+    } else if (value) {
+      try {
+        parseRecurrence(value);
+        changes.recurrence = value.replace(/^RRULE:/i, "").toUpperCase();
+      } catch (err: any) {
+        errors.push(`recurrence: ${err.message}`);
+      }
+    } else {
+      changes.recurrence = null;
+    }
+  }
+
+  // Cross-field: recurrence and join windows are relative to a start time
+  const merged = { ...existing, ...changes } as Partial<Schedule>;
+  if (!merged.startsAt && (merged.recurrence || merged.joinWindowMinutes != null)) {
+    errors.push("startsAt is required for recurrence and joinWindowMinutes");
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, changes };
+}
+
+/**
+ * Pick the schedule columns off a Room row
+ */
+export const scheduleOf = (room: Record<string, any>): Schedule =>
+  Object.fromEntries(SCHEDULE_FIELDS.map((key) => [key, room[key] ?? null])) as unknown as Schedule;
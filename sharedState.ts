@@ -0,0 +1,401 @@
+/**
+ * Shared State
+ *
+ * State that must agree across server instances behind a load balancer:
+ * rate-limit counters, the room → node registry and raise-hand queues. Media (routers,
+ * transports) stays in the memory of the node that owns the room, so every
+ * peer of a meeting must reach that node.
+ *
+ * Backends:
+ * - "redis"  - REDIS_URL set (or STATE_BACKEND=redis); also wires the
+ *              Socket.IO Redis adapter so broadcasts reach every node
+ * - "memory" - single node / local development (STATE_BACKEND=memory)
+ */
+
+import os from "os";
+import Redis, { RedisOptions } from "ioredis";
+import { createAdapter } from "@socket.io/redis-adapter";
+import type { Server } from "socket.io";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SharedStateBackend {
+  readonly kind: "memory" | "redis";
+  /** Increment a counter, starting a `windowMs` expiry on first increment */
+  increment(key: string, windowMs: number): Promise<number>;
+  get(key: string): Promise<string | null>;
+  /** Set `key` only if absent; returns the value now stored */
+  claim(key: string, value: string, ttlMs: number): Promise<string>;
+  /** Extend the TTL only while `key` still holds `value` */
+  refresh(key: string, value: string, ttlMs: number): Promise<boolean>;
+  /** Delete `key` only while it still holds `value` */
+  release(key: string, value: string): Promise<void>;
+  /** Set a hash field unless it exists; (re)starts the key's TTL. True if set. */
+  setFieldIfAbsent(key: string, field: string, value: string, ttlMs: number): Promise<boolean>;
+  getFields(key: string): Promise<Record<string, string>>;
+  /** Delete the given hash fields (all when omitted); returns the ones that existed */
+  deleteFields(key: string, fields?: string[]): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+export interface RoomOwner {
+  nodeId: string;
+  url: string | null;
+}
+
+/**
+ * The backend couldn't serve a command (Redis down, unreachable or too slow).
+ * Callers decide whether to fail open or closed.
+ */
+export class SharedStateUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Shared state unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "SharedStateUnavailableError";
+  }
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+
+export class MemoryStateBackend implements SharedStateBackend {
+  readonly kind = "memory";
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private hashes = new Map<string, { fields: Map<string, string>; expiresAt: number }>();
+
+  private read(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private readHash(key: string) {
+    const hash = this.hashes.get(key);
+    if (hash && hash.expiresAt <= Date.now()) {
+      this.hashes.delete(key);
+      return undefined;
+    }
+    return hash;
+  }
+
+  async increment(key: string, windowMs: number) {
+    const entry = this.read(key);
+    if (!entry) {
+      this.entries.set(key, { value: "1", expiresAt: Date.now() + windowMs });
+      return 1;
+    }
+    const count = Number(entry.value) + 1;
+    entry.value = String(count);
+    return count;
+  }
+
+  async get(key: string) {
+    return this.read(key)?.value ?? null;
+  }
+
+  async claim(key: string, value: string, ttlMs: number) {
+    const entry = this.read(key);
+    if (entry) return entry.value;
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return value;
+  }
+
+  async refresh(key: string, value: string, ttlMs: number) {
+    const entry = this.read(key);
+    if (entry?.value !== value) return false;
+    entry.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async release(key: string, value: string) {
+    if (this.read(key)?.value === value) this.entries.delete(key);
+  }
+
+  async setFieldIfAbsent(key: string, field: string, value: string, ttlMs: number) {
+    const hash = this.readHash(key) ?? { fields: new Map<string, string>(), expiresAt: 0 };
+    hash.expiresAt = Date.now() + ttlMs;
+    this.hashes.set(key, hash);
+
+    if (hash.fields.has(field)) return false;
+    hash.fields.set(field, value);
+    return true;
+  }
+
+  async getFields(key: string) {
+    return Object.fromEntries(this.readHash(key)?.fields ?? []);
+  }
+
+  async deleteFields(key: string, fields?: string[]) {
+    const hash = this.readHash(key);
+    if (!hash) return [];
+
+    const removed = (fields ?? Array.from(hash.fields.keys())).filter((field) =>
+      hash.fields.delete(field)
+    );
+    if (hash.fields.size === 0) this.hashes.delete(key);
+    return removed;
+  }
+
+  async close() {
+    this.entries.clear();
+    this.hashes.clear();
+  }
+}
+
+// ============================================================================
+// REDIS BACKEND
+// ============================================================================
+
+// Compare-and-set helpers so a node never touches a key another node owns
+const REFRESH_IF_OWNER = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_IF_OWNER = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+// HDEL that reports which fields existed; no fields = all of them
+const DELETE_FIELDS = `
+local fields = ARGV
+if #fields == 0 then fields = redis.call("hkeys", KEYS[1]) end
+local removed = {}
+for _, field in ipairs(fields) do
+  if redis.call("hdel", KEYS[1], field) == 1 then table.insert(removed, field) end
+end
+return removed`;
+
+/**
+ * Options for the state client: commands fail straight away while Redis is
+ * unreachable (no offline queue) and give up after `commandTimeout`, so a
+ * Redis outage can't stall the handlers waiting on them
+ */
+export const redisStateOptions = (commandTimeout: number): RedisOptions => ({
+  enableOfflineQueue: false,
+  commandTimeout,
+  maxRetriesPerRequest: 1,
+});
+
+export class RedisStateBackend implements SharedStateBackend {
+  readonly kind = "redis";
+
+  constructor(readonly client: Redis) {}
+
+  // Every command error surfaces as SharedStateUnavailableError
+  private async run<T>(command: () => Promise<T>): Promise<T> {
+    try {
+      return await command();
+    } catch (err) {
+      throw new SharedStateUnavailableError(err);
+    }
+  }
+
+  async increment(key: string, windowMs: number) {
+    return this.run(async () => {
+      const count = await this.client.incr(key);
+      if (count === 1) await this.client.pexpire(key, windowMs);
+      return count;
+    });
+  }
+
+  async get(key: string) {
+    return this.run(() => this.client.get(key));
+  }
+
+  async claim(key: string, value: string, ttlMs: number): Promise<string> {
+    const result = await this.run(() => this.client.set(key, value, "PX", ttlMs, "NX"));
+    if (result === "OK") return value;
+    // Someone else holds it - or it expired between SET and GET, so retry once
+    return (await this.get(key)) ?? this.claim(key, value, ttlMs);
+  }
+
+  async refresh(key: string, value: string, ttlMs: number) {
+    const result = await this.run(() => this.client.eval(REFRESH_IF_OWNER, 1, key, value, ttlMs));
+    return result === 1;
+  }
+
+  async release(key: string, value: string) {
+    await this.run(() => this.client.eval(RELEASE_IF_OWNER, 1, key, value));
+  }
+
+  async setFieldIfAbsent(key: string, field: string, value: string, ttlMs: number) {
+    const results = await this.run(() =>
+      this.client.multi().hsetnx(key, field, value).pexpire(key, ttlMs).exec()
+    );
+    const [err, set] = results?.[0] ?? [new Error("Transaction aborted"), 0];
+    if (err) throw new SharedStateUnavailableError(err);
+    return set === 1;
+  }
+
+  async getFields(key: string) {
+    return this.run(() => this.client.hgetall(key));
+  }
+
+  async deleteFields(key: string, fields?: string[]) {
+    if (fields?.length === 0) return [];
+    return (await this.run(() =>
+      this.client.eval(DELETE_FIELDS, 1, key, ...(fields ?? []))
+    )) as string[];
+  }
+
+  async close() {
+    await this.client.quit();
+  }
+}
+
+// ============================================================================
+// BACKEND SELECTION
+// ============================================================================
+
+const REDIS_URL = process.env.REDIS_URL;
+const BACKEND = process.env.STATE_BACKEND || (REDIS_URL ? "redis" : "memory");
+const REDIS_COMMAND_TIMEOUT_MS = Number(process.env.REDIS_COMMAND_TIMEOUT_MS) || 2000;
+
+/** Identifies this instance in the room registry */
+export const NODE_ID =
+  process.env.NODE_ID || `${os.hostname()}:${process.env.PORT || 8080}`;
+
+/** Public URL clients should connect to for rooms owned by this node */
+const NODE_PUBLIC_URL = process.env.NODE_PUBLIC_URL || null;
+
+let backend: SharedStateBackend = new MemoryStateBackend();
+
+if (BACKEND === "redis") {
+  if (!REDIS_URL) {
+    throw new Error("STATE_BACKEND=redis requires REDIS_URL");
+  }
+  const client = new Redis(REDIS_URL, redisStateOptions(REDIS_COMMAND_TIMEOUT_MS));
+  client.on("error", (err) => console.error("❌ Redis state client error:", err.message));
+  backend = new RedisStateBackend(client);
+}
+
+console.log(`🗄️ Shared state backend: ${backend.kind} (node ${NODE_ID})`);
+
+export const getStateBackend = () => backend;
+
+/**
+ * Swap the backend, e.g. for a local multi-node simulation sharing one
+ * MemoryStateBackend
+ */
+export const setStateBackend = (next: SharedStateBackend) => {
+  backend = next;
+};
+
+/**
+ * Attach the Socket.IO Redis adapter so `io.to(room).emit` and
+ * `fetchSockets` span every node. No-op on the memory backend.
+ *
+ * The adapter gets its own clients with default options: its SUBSCRIBE must
+ * queue until Redis is reachable rather than fail like state commands do.
+ */
+export const attachSocketAdapter = (io: Server) => {
+  if (!(backend instanceof RedisStateBackend) || !REDIS_URL) return;
+
+  const pubClient = new Redis(REDIS_URL);
+  const subClient = new Redis(REDIS_URL);
+  io.adapter(createAdapter(pubClient, subClient));
+  console.log("📡 Socket.IO Redis adapter attached");
+};
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+/**
+ * Fixed-window counter shared by all nodes. Returns the count in the
+ * current window.
+ */
+export const incrementRateCounter = (userId: string, windowMs: number) =>
+  backend.increment(`ratelimit:${userId}`, windowMs);
+
+// ============================================================================
+// RAISE-HAND QUEUES
+// ============================================================================
+
+// Refreshed on every raise; only bounds leftovers of a room whose node died
+const HAND_QUEUE_TTL = 12 * 60 * 60 * 1000;
+const handsKey = (roomId: string) => `hands:${roomId}`;
+
+/**
+ * userId -> raisedAt (epoch ms) for every raised hand in the room
+ */
+export const getRaisedHands = async (roomId: string): Promise<Map<string, number>> => {
+  const fields = await backend.getFields(handsKey(roomId));
+  return new Map(Object.entries(fields).map(([userId, raisedAt]) => [userId, Number(raisedAt)]));
+};
+
+/**
+ * False if the hand was already up - it keeps its original time
+ */
+export const addRaisedHand = (roomId: string, userId: string, raisedAt: number) =>
+  backend.setFieldIfAbsent(handsKey(roomId), userId, String(raisedAt), HAND_QUEUE_TTL);
+
+/**
+ * Lower the given hands (all when omitted); returns whose actually went down
+ */
+export const removeRaisedHands = (roomId: string, userIds?: string[]) =>
+  backend.deleteFields(handsKey(roomId), userIds);
+
+// ============================================================================
+// ROOM → NODE REGISTRY
+// ============================================================================
+
+const ROOM_OWNER_TTL = 30000; // Owner entry expires if the node stops refreshing
+const ROOM_OWNER_REFRESH = 10000;
+
+const ownedRooms = new Set<string>();
+const ownerValue = JSON.stringify({ nodeId: NODE_ID, url: NODE_PUBLIC_URL });
+const roomKey = (roomId: string) => `room-owner:${roomId}`;
+
+/**
+ * Claim `roomId` for this node unless another node already owns it.
+ * Returns the owner; `nodeId === NODE_ID` means the room is ours.
+ */
+export const claimRoom = async (roomId: string): Promise<RoomOwner> => {
+  const owner = JSON.parse(
+    await backend.claim(roomKey(roomId), ownerValue, ROOM_OWNER_TTL)
+  ) as RoomOwner;
+
+  if (owner.nodeId === NODE_ID) ownedRooms.add(roomId);
+  return owner;
+};
+
+export const getRoomOwner = async (roomId: string): Promise<RoomOwner | null> => {
+  const value = await backend.get(roomKey(roomId));
+  return value ? (JSON.parse(value) as RoomOwner) : null;
+};
+
+/**
+ * Give up ownership once the room's router has closed
+ */
+export const releaseRoom = async (roomId: string) => {
+  ownedRooms.delete(roomId);
+  await backend.release(roomKey(roomId), ownerValue);
+};
+
+// Keep our claims alive; a crashed node's rooms free up after ROOM_OWNER_TTL
+setInterval(() => {
+  ownedRooms.forEach((roomId) => {
+    backend
+      .refresh(roomKey(roomId), ownerValue, ROOM_OWNER_TTL)
+      .then(async (stillOwned) => {
+        if (stillOwned) return;
+        // Entry expired (e.g. a long GC pause) - take it back unless someone else did
+        const owner = await claimRoom(roomId);
+        if (owner.nodeId !== NODE_ID) {
+          console.warn(`⚠️ Lost ownership of room ${roomId} to ${owner.nodeId}`);
+          ownedRooms.delete(roomId);
+        }
+      })
+      .catch((err) => console.error("Error refreshing room ownership:", err));
+  });
+}, ROOM_OWNER_REFRESH).unref();
@@ -0,0 +1,118 @@
+/**
+ * Handshake tests for auth.ts: a real Socket.IO server behind
+ * socketAuthMiddleware, with tokens signed by a throwaway RSA keypair.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { Server } from "socket.io";
+import { io as connect } from "socket.io-client";
+
+const signingKeys = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const attackerKeys = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+// auth.ts loads its verification keys on import - from a JWKS, like Clerk serves them
+const KID = "ins_test";
+const jwksFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "auth-test-")), "jwks.json");
+fs.writeFileSync(
+  jwksFile,
+  JSON.stringify({ keys: [{ ...signingKeys.publicKey.export({ format: "jwk" }), kid: KID }] })
+);
+process.env.CLERK_JWKS_FILE = jwksFile;
+delete process.env.CLERK_JWT_KEY;
+delete process.env.CLERK_JWT_KEY_FILE;
+delete process.env.CLERK_AUTHORIZED_PARTIES;
+const { socketAuthMiddleware }: typeof import("../auth") = require("../auth");
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const sign = (payload: object, key: crypto.KeyObject = signingKeys.privateKey, keyid = KID) =>
+  jwt.sign(payload, key, { algorithm: "RS256", keyid });
+
+let httpServer: http.Server;
+let ioServer: Server;
+let url: string;
+
+before(async () => {
+  httpServer = http.createServer();
+  ioServer = new Server(httpServer);
+  ioServer.use(socketAuthMiddleware);
+  ioServer.on("connection", (socket) => socket.emit("identity", socket.data.userId));
+
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => ioServer.close(resolve));
+  fs.rmSync(path.dirname(jwksFile), { recursive: true, force: true });
+});
+
+/**
+ * Connect with the given token: resolves with the userId the server pinned,
+ * or the AuthErrorCode of the connect_error
+ */
+const handshake = (token?: string): Promise<{ userId?: string; code?: string }> =>
+  new Promise((resolve) => {
+    const client = connect(url, {
+      auth: token === undefined ? {} : { token },
+      transports: ["websocket"],
+      reconnection: false,
+      forceNew: true,
+    });
+
+    client.on("identity", (userId: string) => {
+      client.close();
+      resolve({ userId });
+    });
+    client.on("connect_error", (err: any) => {
+      client.close();
+      resolve({ code: err.data?.code });
+    });
+  });
+
+test("accepts a valid token and pins its subject as the user id", async () => {
+  const result = await handshake(sign({ sub: "user_valid", sid: "sess_1", exp: now() + 60 }));
+  assert.deepEqual(result, { userId: "user_valid" });
+});
+
+test("rejects an expired token", async () => {
+  const result = await handshake(sign({ sub: "user_valid", exp: now() - 60 }));
+  assert.deepEqual(result, { code: "TOKEN_EXPIRED" });
+});
+
+test("rejects a token signed with someone else's key", async () => {
+  const result = await handshake(
+    sign({ sub: "user_forged", exp: now() + 60 }, attackerKeys.privateKey)
+  );
+  assert.deepEqual(result, { code: "TOKEN_INVALID" });
+});
+
+test("rejects a token whose kid matches no configured key", async () => {
+  const result = await handshake(
+    sign({ sub: "user_forged", exp: now() + 60 }, attackerKeys.privateKey, "ins_unknown")
+  );
+  assert.deepEqual(result, { code: "UNKNOWN_KEY" });
+});
+
+test("rejects an HS256 token signed with the public key", async () => {
+  const publicPem = signingKeys.publicKey.export({ type: "spki", format: "pem" });
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({ sub: "user_forged", exp: now() + 60 })}`;
+  const signature = crypto.createHmac("sha256", publicPem).update(unsigned).digest("base64url");
+
+  const result = await handshake(`${unsigned}.${signature}`);
+  assert.deepEqual(result, { code: "TOKEN_INVALID" });
+});
+
+test("rejects a handshake without a token", async () => {
+  const result = await handshake();
+  assert.deepEqual(result, { code: "TOKEN_MISSING" });
+});
@@ -0,0 +1,147 @@
+/**
+ * Contract tests for the shared state backends. The memory backend always
+ * runs; the Redis backend runs against TEST_REDIS_URL when it is set.
+ */
+
+import { describe, test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import { setTimeout as sleep } from "timers/promises";
+import Redis from "ioredis";
+
+// Keep the module-level backend local whatever the developer's .env says
+delete process.env.REDIS_URL;
+process.env.STATE_BACKEND = "memory";
+const {
+  MemoryStateBackend,
+  RedisStateBackend,
+  SharedStateUnavailableError,
+  redisStateOptions,
+}: typeof import("../sharedState") = require("../sharedState");
+
+type Backend = import("../sharedState").SharedStateBackend;
+
+const TEST_REDIS_URL = process.env.TEST_REDIS_URL;
+
+const describeBackend = (name: string, create: () => Backend, options: { skip?: boolean } = {}) =>
+  describe(name, options, () => {
+    let backend: Backend;
+    // Fresh keys per run so a shared Redis doesn't carry state between runs
+    const key = (suffix: string) => `test:${process.pid}:${Date.now()}:${suffix}`;
+
+    before(() => {
+      backend = create();
+    });
+
+    after(async () => {
+      await backend.close();
+    });
+
+    test("increment counts within the window and restarts after it", async () => {
+      const counter = key("counter");
+      assert.equal(await backend.increment(counter, 200), 1);
+      assert.equal(await backend.increment(counter, 200), 2);
+      assert.equal(await backend.increment(counter, 200), 3);
+
+      await sleep(300);
+      assert.equal(await backend.increment(counter, 200), 1);
+    });
+
+    test("claim keeps the first value until it expires", async () => {
+      const room = key("room");
+      assert.equal(await backend.claim(room, "node-a", 200), "node-a");
+      assert.equal(await backend.claim(room, "node-b", 200), "node-a");
+      assert.equal(await backend.get(room), "node-a");
+
+      await sleep(300);
+      assert.equal(await backend.get(room), null);
+      assert.equal(await backend.claim(room, "node-b", 200), "node-b");
+    });
+
+    test("refresh only extends the owner's claim", async () => {
+      const room = key("refresh");
+      await backend.claim(room, "node-a", 200);
+
+      assert.equal(await backend.refresh(room, "node-b", 1000), false);
+      assert.equal(await backend.refresh(room, "node-a", 1000), true);
+
+      await sleep(300);
+      assert.equal(await backend.get(room), "node-a");
+    });
+
+    test("release only deletes the owner's claim", async () => {
+      const room = key("release");
+      await backend.claim(room, "node-a", 1000);
+
+      await backend.release(room, "node-b");
+      assert.equal(await backend.get(room), "node-a");
+
+      await backend.release(room, "node-a");
+      assert.equal(await backend.get(room), null);
+    });
+
+    test("setFieldIfAbsent keeps the first value of a field", async () => {
+      const hands = key("hands");
+      assert.equal(await backend.setFieldIfAbsent(hands, "user_a", "100", 1000), true);
+      assert.equal(await backend.setFieldIfAbsent(hands, "user_b", "200", 1000), true);
+      assert.equal(await backend.setFieldIfAbsent(hands, "user_a", "300", 1000), false);
+
+      assert.deepEqual(await backend.getFields(hands), { user_a: "100", user_b: "200" });
+    });
+
+    test("deleteFields reports the fields that existed", async () => {
+      const hands = key("lower");
+      await backend.setFieldIfAbsent(hands, "user_a", "100", 1000);
+      await backend.setFieldIfAbsent(hands, "user_b", "200", 1000);
+      await backend.setFieldIfAbsent(hands, "user_c", "300", 1000);
+
+      assert.deepEqual(await backend.deleteFields(hands, ["user_a", "user_x"]), ["user_a"]);
+      assert.deepEqual(await backend.deleteFields(hands, []), []);
+      assert.deepEqual((await backend.deleteFields(hands)).sort(), ["user_b", "user_c"]);
+      assert.deepEqual(await backend.getFields(hands), {});
+    });
+
+    test("hash fields expire with their key", async () => {
+      const hands = key("expire");
+      await backend.setFieldIfAbsent(hands, "user_a", "100", 200);
+
+      await sleep(300);
+      assert.deepEqual(await backend.getFields(hands), {});
+    });
+  });
+
+describeBackend("MemoryStateBackend", () => new MemoryStateBackend());
+
+describeBackend(
+  "RedisStateBackend",
+  () => new RedisStateBackend(new Redis(TEST_REDIS_URL!, redisStateOptions(2000))),
+  { skip: !TEST_REDIS_URL }
+);
+
+describe("RedisStateBackend while Redis is down", () => {
+  let client: Redis;
+
+  before(async () => {
+    // A port nothing listens on
+    const server = net.createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+
+    client = new Redis(port, "127.0.0.1", { ...redisStateOptions(500), retryStrategy: () => null });
+    client.on("error", () => {});
+  });
+
+  after(() => {
+    client.disconnect();
+  });
+
+  test("commands fail fast with SharedStateUnavailableError", async () => {
+    const backend = new RedisStateBackend(client);
+    const startedAt = Date.now();
+
+    await assert.rejects(backend.increment("ratelimit:user_a", 5000), SharedStateUnavailableError);
+    await assert.rejects(backend.claim("room-owner:r1", "node-a", 5000), SharedStateUnavailableError);
+    assert.ok(Date.now() - startedAt < 1000, "commands should not wait for Redis to come back");
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * TURN Credentials
+ *
+ * Issues short-lived TURN credentials using coturn's REST API scheme
+ * (`use-auth-secret` + `static-auth-secret` in turnserver.conf):
+ *
+ *   username   = "<unix expiry>:<userId>:<roomId>"
+ *   credential = base64(HMAC-SHA1(TURN_SECRET, username))
+ *
+ * coturn only reads the leading timestamp, so the rest of the username scopes
+ * the credential to the authenticated user and meeting for its logs/quotas.
+ */
+
+import crypto from "crypto";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface TurnCredentials {
+  iceServers: IceServer[];
+  ttl: number; // seconds
+  expiresAt: number; // unix seconds
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const parseList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_URLS = parseList(process.env.TURN_URLS); // e.g. turn:turn.example.com:3478?transport=udp
+const STUN_URLS = parseList(process.env.STUN_URLS);
+const TURN_TTL = Number(process.env.TURN_TTL) || 3600;
+
+if (TURN_URLS.length > 0 && !TURN_SECRET) {
+  console.error("❌ TURN_URLS is set but TURN_SECRET is missing - TURN credentials disabled");
+} else if (TURN_SECRET && TURN_URLS.length === 0) {
+  console.warn("⚠️ TURN_SECRET is set but TURN_URLS is empty - no TURN servers to hand out");
+}
+
+export const isTurnConfigured = () => Boolean(TURN_SECRET && TURN_URLS.length > 0);
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+/**
+ * Build the ICE server list for a user joining a room. STUN servers are
+ * always included; TURN servers only when a shared secret is configured.
+ */
+export function issueTurnCredentials(userId: string, roomId: string): TurnCredentials {
+  const expiresAt = Math.floor(Date.now() / 1000) + TURN_TTL;
+  const iceServers: IceServer[] = [];
+
+  if (STUN_URLS.length > 0) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  if (isTurnConfigured()) {
+    const username = `${expiresAt}:${userId}:${roomId}`;
+    const credential = crypto
+      .createHmac("sha1", TURN_SECRET!)
+      .update(username)
+      .digest("base64");
+
+    iceServers.push({ urls: TURN_URLS, username, credential });
+  }
+
+  return { iceServers, ttl: TURN_TTL, expiresAt };
+}